@@ -1,119 +1,558 @@
 #!/usr/bin/env node
 import { parseArgs } from 'node:util';
-import { readFile, writeFile, mkdir } from 'node:fs/promises';
-import { dirname, resolve } from 'node:path';
+import { appendFile, readFile, writeFile, mkdir } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
 import { mergeCoverageResults } from './merge.js';
-import type { CoverageResult } from './types.js';
+import { loadConfig } from './config.js';
+import type { CoverageResult, DimensionThresholds, EndpointHit, PlayswagConfig, ThresholdConfig } from './types.js';
+import type { ThresholdViolation } from './output/console.js';
+import type { RedundancyAnalysis } from './coverage/redundancy.js';
 
 const HELP = `Usage: playswag merge <file1.json> <file2.json> [...] [options]
+       playswag har <spec> <file.har> [...] [options]
+       playswag report --spec <spec> --hits <playswag-hits.jsonl> [...] [options]
+       playswag diff <base.json> <head.json> [options]
+       playswag spec-diff <old-spec> <new-spec> [--coverage <coverage.json>] [-o <diff.md>]
+       playswag infer-spec <coverage.json> [...] [--base-url <url>] [-o <inferred.yaml>]
+       playswag select --coverage <coverage.json> (--operations <list> | <old-spec> <new-spec>) [--files]
 
-Merge multiple playswag JSON coverage reports into a single combined report.
+Commands:
+  merge                   Merge multiple playswag JSON coverage reports into a single combined report.
+  har                     Compute coverage from HAR recordings (e.g. Playwright's recordHar or a
+                          DevTools export) against an OpenAPI/Swagger spec file or URL.
+  report                  Recompute coverage from the raw hits a previous run saved with
+                          outputFormats: ['hits'], e.g. against an updated spec.
+  diff                    List the operations, status codes, parameters and body properties
+                          that became covered or uncovered between two JSON reports, e.g.
+                          the base branch and a PR. Writes the diff as JSON to -o (default:
+                          coverage-diff.json); --console prints it and --markdown writes
+                          coverage-diff.md next to it.
+  spec-diff               List the operations, parameters, status codes and schema properties
+                          added, removed or changed between two spec versions, flag breaking
+                          changes and, with --coverage, new surface without tests. Prints
+                          Markdown for a PR comment (or writes it to -o).
+  infer-spec              Write an OpenAPI 3.1 document (YAML, or JSON for a .json output) for
+                          the calls of the reports' unmatchedHits: numeric and UUID path
+                          segments become {id} parameters, query parameters and request and
+                          response schemas are inferred from the recorded calls.
+  select                  Print a Playwright --grep pattern (or, with --files, the test files)
+                          selecting the tests that called the given operations, or the
+                          operations changed between two spec versions, according to the
+                          coverage JSON. Prints nothing when no test is impacted.
 
 Options:
-  -o, --output <path>     Output file path (default: merged-coverage.json)
+  -o, --output <path>     Output file path (default: merged-coverage.json for merge,
+                          playswag-inferred-spec.yaml for infer-spec,
+                          playswag-coverage.json otherwise)
   --no-pretty             Disable JSON pretty-printing
   --console               Print coverage summary table to the terminal
   --html                  Write a self-contained HTML report next to the output file
   --badge                 Write an SVG coverage badge next to the output file
   --markdown              Write a Markdown coverage report next to the output file
+  --tests                 Write the per-test index (playswag-tests.json) next to the output file
+  --redundancy            report: write the redundant test analysis (playswag-redundancy.json)
+                          next to the output file
+  --base-url <url>        har, report, infer-spec: base URL stripped from recorded URLs before matching
+  --spec <path|url>       report: spec to measure against (repeatable)
+  --hits <path>           report: raw hits file (repeatable)
+  --include-tags <globs>  report, har, spec-diff: comma-separated tags to include
+  --exclude-tags <globs>  report, har, spec-diff: comma-separated tags to exclude
+  --coverage <path>       spec-diff: coverage JSON used to flag untested additions;
+                          select: coverage JSON whose tests are selected
+  --operations <list>     select: comma-separated operationIds, "METHOD /path" or paths
+  --files                 select: print the test files, one per line, instead of a --grep pattern
+  --threshold <list>      Minimum coverage % per dimension, e.g. endpoints=80,statusCodes=60
+                          (overrides the same dimensions of the config's threshold)
+  --fail-on-threshold     Exit with code 1 when a threshold is not met
+  --config <path>         Config file (default: playswag.config.{ts,mts,js,mjs,cjs,json}
+                          in the current directory, if present)
   -h, --help              Show this help message
 
+The config file holds a PlayswagConfig (its default export for JS/TS files). Its
+thresholds, failOnThreshold, ratchet (with a baselineFile), itemBaseline, excludeDimensions and
+console/HTML/badge/Markdown/GitHub Actions options apply to every command, report/har
+also use its baseURL, tag and path filters, and report its specs, when no flag overrides them.
+
+Thresholds are checked against the written result. Violations are listed (and emitted as
+GitHub annotations); the command exits with code 1 when one is set to fail, either by
+--fail-on-threshold / failOnThreshold or by a { min, fail: true } config entry.
+
 When running inside GitHub Actions (GITHUB_ACTIONS=true), a step summary
 is automatically written to $GITHUB_STEP_SUMMARY.
 
 Example:
   playswag merge shard-1.json shard-2.json -o combined.json
   playswag merge reports/*.json --console --html -o combined.json
+  playswag merge reports/*.json --threshold endpoints=80,statusCodes=60 --fail-on-threshold
+  playswag har openapi.yaml session.har --base-url https://api.example.com --html
+  playswag report --spec openapi.yaml --hits playswag-coverage/playswag-hits.jsonl --console
+  playswag diff main-coverage.json playswag-coverage/playswag-coverage.json --console --markdown
+  playswag spec-diff main/openapi.yaml openapi.yaml --coverage playswag-coverage/playswag-coverage.json
+  playswag infer-spec playswag-coverage/playswag-coverage.json -o undocumented.yaml
+  playswag select --operations getUser,"DELETE /users/{id}" --coverage playswag-coverage/playswag-coverage.json
   npx @michalfidor/playswag merge reports/*.json`;
 
 const { values, positionals } = parseArgs({
   allowPositionals: true,
   options: {
-    output: { type: 'string', short: 'o', default: 'merged-coverage.json' },
-    pretty: { type: 'boolean', default: true },
+    output: { type: 'string', short: 'o' },
+    pretty: { type: 'boolean' },
     console: { type: 'boolean', default: false },
     html: { type: 'boolean', default: false },
     badge: { type: 'boolean', default: false },
     markdown: { type: 'boolean', default: false },
+    tests: { type: 'boolean', default: false },
+    redundancy: { type: 'boolean', default: false },
+    'base-url': { type: 'string' },
+    spec: { type: 'string', multiple: true },
+    hits: { type: 'string', multiple: true },
+    'include-tags': { type: 'string' },
+    'exclude-tags': { type: 'string' },
+    coverage: { type: 'string' },
+    operations: { type: 'string' },
+    files: { type: 'boolean', default: false },
+    threshold: { type: 'string' },
+    'fail-on-threshold': { type: 'boolean' },
+    config: { type: 'string' },
     help: { type: 'boolean', short: 'h', default: false },
   },
 });
 
 if (values.help || positionals.length === 0) {
-   
+
   console.log(HELP);
   process.exit(0);
 }
 
 const command = positionals[0];
+const args = positionals.slice(1);
 
-if (command !== 'merge') {
-  console.error(`[playswag] Unknown command: ${command}\nRun "playswag --help" for usage.`);
+// The reporter requires `specs`; commands that do not compute coverage from a spec work without it.
+let config: Partial<PlayswagConfig> = {};
+try {
+  config = await loadConfig(values.config) ?? {};
+} catch (err) {
+  console.error((err as Error).message);
   process.exit(1);
 }
 
-const files = positionals.slice(1);
+/** Split a comma-separated CLI value into trimmed, non-empty entries. */
+function listOption(value: string | undefined): string[] | undefined {
+  return value?.split(',').map((s) => s.trim()).filter(Boolean);
+}
 
-if (files.length < 2) {
-  console.error('[playswag] merge requires at least 2 JSON report files');
-  process.exit(1);
+const THRESHOLD_KEYS: Array<keyof DimensionThresholds> = [
+  'endpoints', 'statusCodes', 'parameters', 'bodyProperties', 'responseProperties',
+  'responseConformance', 'enumValues', 'mediaTypes', 'security',
+];
+
+/** Parse `--threshold endpoints=80,statusCodes=60` into a {@link ThresholdConfig}. */
+function thresholdOption(value: string | undefined): ThresholdConfig | undefined {
+  if (value === undefined) return undefined;
+
+  const threshold: ThresholdConfig = {};
+  for (const entry of listOption(value) ?? []) {
+    const [key = '', min = ''] = entry.split('=').map((s) => s.trim());
+    const percentage = Number(min);
+    if (!THRESHOLD_KEYS.includes(key as keyof DimensionThresholds) || min === '' || !(percentage >= 0 && percentage <= 100)) {
+      console.error(
+        `[playswag] Invalid --threshold entry "${entry}": expected <dimension>=<0-100> ` +
+        `with one of ${THRESHOLD_KEYS.join(', ')}`
+      );
+      process.exit(1);
+    }
+    threshold[key as keyof DimensionThresholds] = percentage;
+  }
+  return threshold;
+}
+
+const cliThreshold = thresholdOption(values.threshold);
+if (cliThreshold) config.threshold = { ...config.threshold, ...cliThreshold };
+config.failOnThreshold = values['fail-on-threshold'] ?? config.failOnThreshold;
+
+/**
+ * Write the JSON result and log `message`, then write every optional output requested
+ * on the command line next to it. Exits with code 1 when a threshold marked to fail is not met.
+ */
+async function writeOutputs(result: CoverageResult, output: string, message: string): Promise<void> {
+  const outputDir = dirname(resolve(output));
+  const { excludeDimensions } = config;
+
+  await mkdir(outputDir, { recursive: true });
+  const pretty = values.pretty ?? config.jsonOutput?.pretty ?? true;
+  const content = pretty ? JSON.stringify(result, null, 2) : JSON.stringify(result);
+  await writeFile(output, content, 'utf8');
+
+  console.log(message);
+
+  // The CLI has no history of its own, so the ratchet needs a committed baseline file.
+  let baselineViolations: ThresholdViolation[] = [];
+  const { applyRatchet, resolveRatchetConfig } = await import('./output/ratchet.js');
+  const ratchet = resolveRatchetConfig(config.ratchet);
+  if (ratchet?.baselineFile) {
+    try {
+      baselineViolations = await applyRatchet(result, ratchet, undefined, excludeDimensions);
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  } else if (ratchet) {
+    console.warn('[playswag] ratchet is skipped: the CLI needs ratchet.baselineFile');
+  }
+  if (config.itemBaseline) {
+    const { applyItemBaseline } = await import('./output/item-baseline.js');
+    try {
+      baselineViolations.push(...await applyItemBaseline(result, config.itemBaseline, excludeDimensions));
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  }
+
+  if (config.failOnUndocumentedServerErrors) {
+    const { checkUndocumentedServerErrors } = await import('./coverage/status-codes.js');
+    baselineViolations.push(...checkUndocumentedServerErrors(result));
+  }
+
+  const { printConsoleReport, checkThresholds } = await import('./output/console.js');
+  if (values.console) {
+    await printConsoleReport(
+      result, config.consoleOutput, config.threshold, config.failOnThreshold, undefined, excludeDimensions, baselineViolations
+    );
+  }
+
+  if (values.html) {
+    const { writeHtmlReport } = await import('./output/html.js');
+    const path = await writeHtmlReport(result, outputDir, config.htmlOutput, [], config.responsePropertiesWeight, excludeDimensions);
+    console.log(`[playswag] HTML report → ${path}`);
+  }
+
+  if (values.badge) {
+    const { writeBadge } = await import('./output/badge.js');
+    const path = await writeBadge(result, outputDir, config.badge);
+    console.log(`[playswag] Badge → ${path}`);
+  }
+
+  if (values.markdown) {
+    const { writeMarkdownReport } = await import('./output/markdown.js');
+    const path = await writeMarkdownReport(result, outputDir, config.markdownOutput, excludeDimensions);
+    console.log(`[playswag] Markdown report → ${path}`);
+  }
+
+  if (values.tests) {
+    const { writeTestIndex } = await import('./output/tests.js');
+    const path = await writeTestIndex(result, outputDir, config.testsOutput);
+    console.log(`[playswag] Test index → ${path}`);
+  }
+
+  const violations = [
+    ...(config.threshold ? checkThresholds(result, config.threshold, config.failOnThreshold, excludeDimensions) : []),
+    ...baselineViolations,
+  ];
+
+  // GitHub Actions: auto-write step summary
+  const { isGitHubActions } = await import('./output/github-actions.js');
+  if (isGitHubActions()) {
+    const { emitAnnotations, writeStepSummary } = await import('./output/github-actions.js');
+    if (violations.length > 0) emitAnnotations(violations);
+    await writeStepSummary(result, violations, config.githubActionsOutput, undefined, excludeDimensions);
+    console.log('[playswag] GitHub Actions step summary written');
+  }
+
+  // The console report already lists violations.
+  if (!values.console) {
+    for (const v of violations) {
+      if (v.fail) console.error(`[playswag] ✗ ${v.message}`);
+      else console.warn(`[playswag] ⚠ ${v.message}`);
+    }
+  }
+  if (violations.some((v) => v.fail)) process.exit(1);
 }
 
-const results: CoverageResult[] = [];
+async function runMerge(files: string[]): Promise<void> {
+  if (files.length < 2) {
+    console.error('[playswag] merge requires at least 2 JSON report files');
+    process.exit(1);
+  }
 
-for (const file of files) {
+  const results: CoverageResult[] = [];
+
+  for (const file of files) {
+    try {
+      const raw = await readFile(file, 'utf8');
+      results.push(JSON.parse(raw) as CoverageResult);
+    } catch (err) {
+      console.error(`[playswag] Failed to read ${file}: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  const merged = mergeCoverageResults(...results);
+  const output = values.output ?? 'merged-coverage.json';
+  await writeOutputs(merged, output, `[playswag] Merged ${files.length} reports → ${output}`);
+}
+
+async function runHar([spec, ...harFiles]: string[]): Promise<void> {
+  if (!spec || harFiles.length === 0) {
+    console.error('[playswag] har requires a spec and at least 1 HAR file');
+    process.exit(1);
+  }
+
+  const { calculateHarCoverage } = await import('./har.js');
+  let result: CoverageResult;
   try {
-    const raw = await readFile(file, 'utf8');
-    results.push(JSON.parse(raw) as CoverageResult);
+    result = await calculateHarCoverage(spec, harFiles, {
+      baseURL: values['base-url'] ?? config.baseURL,
+      requiredParamsOnly: config.requiredParamsOnly,
+      acknowledgedServices: config.acknowledgedServices,
+      deprecatedOperations: config.deprecatedOperations,
+      countDefaultResponses: config.countDefaultResponses,
+      includeTags: listOption(values['include-tags']) ?? config.includeTags,
+      excludeTags: listOption(values['exclude-tags']) ?? config.excludeTags,
+      includePatterns: config.includePatterns,
+      excludePatterns: config.excludePatterns,
+    });
   } catch (err) {
-    console.error(`[playswag] Failed to read ${file}: ${(err as Error).message}`);
+    console.error(`[playswag] Failed to compute HAR coverage: ${(err as Error).message}`);
     process.exit(1);
   }
+
+  const output = values.output ?? 'playswag-coverage.json';
+  await writeOutputs(result, output, `[playswag] Coverage from ${harFiles.length} HAR file(s) → ${output}`);
 }
 
-const merged = mergeCoverageResults(...results);
-const output = values.output!;
-const outputDir = dirname(resolve(output));
+async function runReport(): Promise<void> {
+  const specs = values.spec ?? [config.specs ?? []].flat();
+  const hitFiles = values.hits ?? [];
+  if (specs.length === 0 || hitFiles.length === 0) {
+    console.error('[playswag] report requires --spec and --hits');
+    process.exit(1);
+  }
+
+  const { readHitsFile } = await import('./output/hits.js');
+  const { parseSpecs } = await import('./openapi/parser.js');
+  const { calculateCoverage } = await import('./coverage/calculator.js');
+  const { filterOperationsByTags, filterHitsByPath } = await import('./filters.js');
 
-await mkdir(outputDir, { recursive: true });
-const content = values.pretty ? JSON.stringify(merged, null, 2) : JSON.stringify(merged);
-await writeFile(output, content, 'utf8');
+  let result: CoverageResult;
+  let redundancy: RedundancyAnalysis | undefined;
+  try {
+    const recorded: EndpointHit[] = [];
+    for (const file of hitFiles) recorded.push(...await readHitsFile(file));
+    const hits = filterHitsByPath(recorded, config);
 
- 
-console.log(`[playswag] Merged ${files.length} reports → ${output}`);
+    const spec = filterOperationsByTags(await parseSpecs(specs), {
+      includeTags: listOption(values['include-tags']) ?? config.includeTags,
+      excludeTags: listOption(values['exclude-tags']) ?? config.excludeTags,
+    });
+    // The hits file does not record tests without API calls, so count the tests that made one.
+    const testCount = new Set(hits.map((h) => `${h.projectName ?? ''}:${h.testFile}:${h.testTitle}`)).size;
+    const options = {
+      baseURL: values['base-url'] ?? config.baseURL,
+      totalTestCount: testCount,
+      requiredParamsOnly: config.requiredParamsOnly,
+      acknowledgedServices: config.acknowledgedServices,
+      deprecatedOperations: config.deprecatedOperations,
+      countFailedTests: config.countFailedTests,
+      countDefaultResponses: config.countDefaultResponses,
+    };
+    result = calculateCoverage(hits, spec, options);
+    if (values.redundancy) {
+      const { analyzeRedundancy } = await import('./coverage/redundancy.js');
+      redundancy = analyzeRedundancy(hits, spec, options, config.excludeDimensions);
+    }
+  } catch (err) {
+    console.error(`[playswag] Failed to compute coverage: ${(err as Error).message}`);
+    process.exit(1);
+  }
 
-if (values.console) {
-  const { printConsoleReport } = await import('./output/console.js');
-  await printConsoleReport(merged);
+  const output = values.output ?? 'playswag-coverage.json';
+  if (redundancy) {
+    const { writeRedundancyReport } = await import('./output/redundancy.js');
+    const path = await writeRedundancyReport(redundancy, result, dirname(resolve(output)), config.redundancyOutput);
+    console.log(`[playswag] Redundancy report → ${path} (${redundancy.redundantTests.length} of ${redundancy.totalTests} tests add no coverage)`);
+  }
+  await writeOutputs(result, output, `[playswag] Coverage from ${hitFiles.length} hits file(s) → ${output}`);
 }
 
-if (values.html) {
-  const { writeHtmlReport } = await import('./output/html.js');
-  const path = await writeHtmlReport(merged, outputDir);
-   
-  console.log(`[playswag] HTML report → ${path}`);
+async function runDiff([baseFile, headFile]: string[]): Promise<void> {
+  if (!baseFile || !headFile) {
+    console.error('[playswag] diff requires a base and a head JSON report');
+    process.exit(1);
+  }
+
+  const results: CoverageResult[] = [];
+  for (const file of [baseFile, headFile]) {
+    try {
+      results.push(JSON.parse(await readFile(file, 'utf8')) as CoverageResult);
+    } catch (err) {
+      console.error(`[playswag] Failed to read ${file}: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  const { diffCoverageResults } = await import('./coverage/coverage-diff.js');
+  const { generateCoverageDiffMarkdown } = await import('./output/coverage-diff.js');
+  const diff = diffCoverageResults(results[0]!, results[1]!);
+
+  const output = values.output ?? 'coverage-diff.json';
+  const outputDir = dirname(resolve(output));
+  await mkdir(outputDir, { recursive: true });
+  const pretty = values.pretty ?? config.jsonOutput?.pretty ?? true;
+  await writeFile(output, pretty ? JSON.stringify(diff, null, 2) : JSON.stringify(diff), 'utf8');
+  console.log(
+    `[playswag] ${diff.newlyUncovered.length} item(s) lost coverage, ` +
+    `${diff.newlyCovered.length} newly covered → ${output}`
+  );
+
+  if (values.console) {
+    const { printCoverageDiff } = await import('./output/console.js');
+    await printCoverageDiff(diff);
+  }
+
+  const markdown = generateCoverageDiffMarkdown(diff);
+  if (values.markdown) {
+    const path = join(outputDir, 'coverage-diff.md');
+    await writeFile(path, markdown, 'utf8');
+    console.log(`[playswag] Markdown diff → ${path}`);
+  }
+
+  // GitHub Actions: append the diff to the step summary
+  const summaryPath = process.env['GITHUB_STEP_SUMMARY'];
+  const { isGitHubActions } = await import('./output/github-actions.js');
+  if (isGitHubActions() && summaryPath) {
+    await appendFile(summaryPath, markdown, 'utf8');
+    console.log('[playswag] GitHub Actions step summary written');
+  }
 }
 
-if (values.badge) {
-  const { writeBadge } = await import('./output/badge.js');
-  const path = await writeBadge(merged, outputDir);
-   
-  console.log(`[playswag] Badge → ${path}`);
+async function runSpecDiff([oldSpec, newSpec]: string[]): Promise<void> {
+  if (!oldSpec || !newSpec) {
+    console.error('[playswag] spec-diff requires an old and a new spec');
+    process.exit(1);
+  }
+
+  const { parseSpecs } = await import('./openapi/parser.js');
+  const { filterOperationsByTags } = await import('./filters.js');
+  const { diffSpecs } = await import('./coverage/spec-diff.js');
+  const { generateSpecDiffMarkdown } = await import('./output/spec-diff.js');
+  const tagFilter = {
+    includeTags: listOption(values['include-tags']) ?? config.includeTags,
+    excludeTags: listOption(values['exclude-tags']) ?? config.excludeTags,
+  };
+
+  let markdown: string;
+  try {
+    const coverage = values.coverage
+      ? JSON.parse(await readFile(values.coverage, 'utf8')) as CoverageResult
+      : undefined;
+    const diff = diffSpecs(
+      filterOperationsByTags(await parseSpecs(oldSpec), tagFilter),
+      filterOperationsByTags(await parseSpecs(newSpec), tagFilter),
+      coverage
+    );
+    markdown = generateSpecDiffMarkdown(diff);
+  } catch (err) {
+    console.error(`[playswag] Failed to diff specs: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  if (values.output) {
+    await mkdir(dirname(resolve(values.output)), { recursive: true });
+    await writeFile(values.output, markdown, 'utf8');
+    console.log(`[playswag] Spec diff → ${values.output}`);
+  } else {
+    process.stdout.write(markdown);
+  }
 }
 
-if (values.markdown) {
-  const { writeMarkdownReport } = await import('./output/markdown.js');
-  const path = await writeMarkdownReport(merged, outputDir);
-   
-  console.log(`[playswag] Markdown report → ${path}`);
+async function runInferSpec(files: string[]): Promise<void> {
+  if (files.length === 0) {
+    console.error('[playswag] infer-spec requires at least 1 JSON report file');
+    process.exit(1);
+  }
+
+  const hits: EndpointHit[] = [];
+  for (const file of files) {
+    try {
+      hits.push(...(JSON.parse(await readFile(file, 'utf8')) as CoverageResult).unmatchedHits);
+    } catch (err) {
+      console.error(`[playswag] Failed to read ${file}: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  const { writeInferredSpec } = await import('./output/inferred-spec.js');
+  const output = resolve(values.output ?? 'playswag-inferred-spec.yaml');
+  const path = await writeInferredSpec(hits, dirname(output), { fileName: basename(output) }, values['base-url'] ?? config.baseURL);
+  console.log(`[playswag] Inferred spec for ${hits.length} unmatched call(s) → ${path}`);
 }
 
-// GitHub Actions: auto-write step summary
-const { isGitHubActions } = await import('./output/github-actions.js');
-if (isGitHubActions()) {
-  const { writeStepSummary } = await import('./output/github-actions.js');
-  await writeStepSummary(merged, []);
-   
-  console.log('[playswag] GitHub Actions step summary written');
+async function runSelect([oldSpec, newSpec]: string[]): Promise<void> {
+  const operations = listOption(values.operations);
+  if (!values.coverage || (!operations && (!oldSpec || !newSpec))) {
+    console.error('[playswag] select requires --coverage and either --operations or an old and a new spec');
+    process.exit(1);
+  }
+
+  const { selectTests, specDiffSelectors, grepPattern } = await import('./coverage/select.js');
+  let selection: ReturnType<typeof selectTests>;
+  try {
+    const coverage = JSON.parse(await readFile(values.coverage, 'utf8')) as CoverageResult;
+    let selectors = operations ?? [];
+    if (!operations) {
+      const { parseSpecs } = await import('./openapi/parser.js');
+      const { diffSpecs } = await import('./coverage/spec-diff.js');
+      selectors = specDiffSelectors(diffSpecs(await parseSpecs(oldSpec!), await parseSpecs(newSpec!)));
+    }
+    selection = selectTests(coverage, selectors);
+  } catch (err) {
+    console.error(`[playswag] Failed to select tests: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  // stdout carries only the selection so it can be passed to Playwright; notes go to stderr
+  for (const selector of selection.unmatched) {
+    console.warn(`[playswag] ⚠ No operation matches "${selector}"`);
+  }
+  console.error(
+    `[playswag] ${selection.tests.length} test(s) in ${selection.files.length} file(s) ` +
+    `call ${selection.operations.length} operation(s)`
+  );
+
+  const text = values.files ? selection.files.join('\n') : grepPattern(selection.tests);
+  if (values.output) {
+    await mkdir(dirname(resolve(values.output)), { recursive: true });
+    await writeFile(values.output, text ? `${text}\n` : '', 'utf8');
+    console.error(`[playswag] Selection → ${values.output}`);
+  } else if (text) {
+    process.stdout.write(`${text}\n`);
+  }
 }
 
+switch (command) {
+  case 'merge':
+    await runMerge(args);
+    break;
+  case 'har':
+    await runHar(args);
+    break;
+  case 'report':
+    await runReport();
+    break;
+  case 'diff':
+    await runDiff(args);
+    break;
+  case 'spec-diff':
+    await runSpecDiff(args);
+    break;
+  case 'infer-spec':
+    await runInferSpec(args);
+    break;
+  case 'select':
+    await runSelect(args);
+    break;
+  default:
+    console.error(`[playswag] Unknown command: ${command}\nRun "playswag --help" for usage.`);
+    process.exit(1);
+}
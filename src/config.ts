@@ -0,0 +1,79 @@
+import { access, readFile } from 'node:fs/promises';
+import { extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { PlayswagConfig } from './types.js';
+
+/** File names looked up in the working directory, in order, when no config path is given. */
+export const CONFIG_FILE_NAMES = [
+  'playswag.config.ts',
+  'playswag.config.mts',
+  'playswag.config.js',
+  'playswag.config.mjs',
+  'playswag.config.cjs',
+  'playswag.config.json',
+];
+
+/** Return the first of {@link CONFIG_FILE_NAMES} that exists in `cwd`, if any. */
+export async function findConfigFile(cwd = process.cwd()): Promise<string | undefined> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = join(cwd, name);
+    try {
+      await access(candidate);
+      return candidate;
+    } catch {
+      // Not present — try the next name
+    }
+  }
+  return undefined;
+}
+
+async function importConfig(path: string): Promise<unknown> {
+  try {
+    const mod = await import(pathToFileURL(path).href) as { default?: unknown };
+    return mod.default ?? mod;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new Error(
+        `[playswag] Cannot load ${path}: this Node.js version cannot import TypeScript. ` +
+        'Use Node.js 23.6+, run the CLI through a TypeScript loader such as tsx, ' +
+        'or use playswag.config.js / playswag.config.json instead.',
+        { cause: err }
+      );
+    }
+    throw new Error(`[playswag] Failed to load config ${path}: ${(err as Error).message}`, { cause: err });
+  }
+}
+
+/**
+ * Load a Playswag config file for the CLI.
+ *
+ * `.json` files are parsed; `.js` / `.mjs` / `.cjs` / `.ts` / `.mts` files are imported and
+ * their default export is used, so the same object can be shared with the reporter entry
+ * in `playwright.config.ts`.
+ *
+ * @param path - Explicit config path (relative to `cwd`). When omitted, `cwd` is searched
+ *               for {@link CONFIG_FILE_NAMES}.
+ * @param cwd  - Directory to resolve `path` against and to search.
+ * @returns The config, or `undefined` when no path was given and no config file exists.
+ * @throws {Error} If the file cannot be read or does not export a config object.
+ */
+export async function loadConfig(path?: string, cwd = process.cwd()): Promise<Partial<PlayswagConfig> | undefined> {
+  const file = path !== undefined ? resolve(cwd, path) : await findConfigFile(cwd);
+  if (!file) return undefined;
+
+  let config: unknown;
+  if (extname(file) === '.json') {
+    try {
+      config = JSON.parse(await readFile(file, 'utf8'));
+    } catch (err) {
+      throw new Error(`[playswag] Failed to load config ${file}: ${(err as Error).message}`, { cause: err });
+    }
+  } else {
+    config = await importConfig(file);
+  }
+
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`[playswag] Config ${file} must export an object`);
+  }
+  return config as Partial<PlayswagConfig>;
+}
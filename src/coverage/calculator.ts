@@ -0,0 +1,454 @@
+import type {
+  EndpointHit,
+  NormalizedSpec,
+  CoverageResult,
+  OperationCoverage,
+  CoverageSummary,
+  CoverageSummaryItem,
+  ParamCoverage,
+  StatusCodeCoverage,
+  AcknowledgedService,
+  AcknowledgedServiceHits,
+  DeprecatedOperationsPolicy,
+  ResponseConformanceCoverage,
+  EnumValueCoverage,
+  MediaTypeCoverage,
+} from '../types.js';
+import { matchOperation, buildOperationIndex } from '../openapi/matcher.js';
+import {
+  analyzeParameters,
+  analyzeBodyProperties,
+  analyzeResponseProperties,
+  findUndocumentedResponseProperties,
+  validateResponseBody,
+  validateRequestBody,
+  analyzeEnumValues,
+} from './schema-analyzer.js';
+import { analyzeMediaTypes } from './media-types.js';
+import { analyzeSecurity, apiKeyParamNames, redactHit } from './security.js';
+import { splitDeprecated } from './deprecated.js';
+import { documentedStatusKey } from './status-codes.js';
+import { collectTestReferences, splitFailedTestHits, testRef } from './tests.js';
+import { computeSummary } from '../merge.js';
+import picomatch from 'picomatch';
+
+function makeItem(total: number, covered: number): CoverageSummaryItem {
+  return {
+    total,
+    covered,
+    percentage: total === 0 ? 100 : Math.round((covered / total) * 1000) / 10,
+  };
+}
+
+function enumKey(e: EnumValueCoverage): string {
+  return `${e.in}:${e.statusCode ?? ''}:${e.name}:${JSON.stringify(e.value)}`;
+}
+
+function mediaTypeKey(m: MediaTypeCoverage): string {
+  return `${m.direction}:${m.statusCode ?? ''}:${m.mediaType}`;
+}
+
+/** Summarise per-status-code conformance entries into `[total, conforming]`. */
+function countConformance(entries: ResponseConformanceCoverage[]): [total: number, covered: number] {
+  let total = 0, covered = 0;
+  for (const entry of entries) {
+    if (entry.validated === 0) continue;
+    total++;
+    if (entry.conforming) covered++;
+  }
+  return [total, covered];
+}
+
+/**
+ * Summarise security coverage into `[total, covered]`: one item per declared scheme, plus one
+ * per secured operation for "an unauthenticated call produced a documented 401/403".
+ */
+function countSecurity(ops: OperationCoverage[]): [total: number, covered: number] {
+  let total = 0, covered = 0;
+  for (const op of ops) {
+    for (const scheme of op.securitySchemes ?? []) {
+      total++;
+      if (scheme.covered) covered++;
+    }
+    if (op.unauthenticated) {
+      total++;
+      if (op.unauthenticated.rejected) covered++;
+    }
+  }
+  return [total, covered];
+}
+
+/**
+ * Given all aggregated endpoint hits and a normalized spec, calculate coverage
+ * across operations, status codes, parameters, request/response body properties,
+ * response schema conformance, enum values, media types and security schemes. Request bodies that break the request schema
+ * are recorded per operation but do not affect any coverage dimension.
+ */
+export function calculateCoverage(
+  hits: EndpointHit[],
+  spec: NormalizedSpec,
+  options: {
+    baseURL?: string;
+    playwrightVersion?: string;
+    playswagVersion?: string;
+    totalTestCount?: number;
+    requiredParamsOnly?: boolean;
+    acknowledgedServices?: AcknowledgedService[];
+    deprecatedOperations?: DeprecatedOperationsPolicy;
+    countFailedTests?: boolean;
+    countDefaultResponses?: boolean;
+  } = {}
+): CoverageResult {
+  if (process.env['PLAYSWAG_DEBUG']) {
+    console.log('[playswag:debug] calculateCoverage called');
+    console.log('[playswag:debug]   hits.length      :', hits.length);
+    console.log('[playswag:debug]   options.baseURL  :', options.baseURL);
+    console.log('[playswag:debug]   spec.operations  :', spec.operations.length);
+    if (hits.length > 0) {
+      console.log('[playswag:debug]   first hit        :', hits[0]?.method, hits[0]?.url);
+    }
+    const hitsWithBody = hits.filter(h => h.responseBody !== undefined).length;
+    console.log('[playswag:debug]   hitsWithBody     :', hitsWithBody, '/', hits.length);
+  }
+
+  const opMap = new Map<string, OperationCoverage>();
+
+  for (const op of spec.operations) {
+    const key = `${op.method}:${op.pathTemplate}`;
+
+    const statusCodes: Record<string, StatusCodeCoverage> = {};
+    for (const code of Object.keys(op.responses)) {
+      if (code === 'default' && options.countDefaultResponses === false) continue;
+      statusCodes[code] = { covered: false, testRefs: [] };
+    }
+
+    const paramsToTrack = options.requiredParamsOnly
+      ? op.parameters.filter((p) => p.required)
+      : op.parameters;
+    const parameters: ParamCoverage[] = paramsToTrack.map((p) => ({
+      name: p.name,
+      in: p.in,
+      required: p.required,
+      covered: false,
+    }));
+
+    // Pre-seed from spec so uncovered operations still show what could be covered
+    const bodyProperties = analyzeBodyProperties(op, null);
+
+    // Pre-seed response properties for all response codes that have schemas
+    const responseProperties = Object.keys(op.responses).flatMap((code) =>
+      analyzeResponseProperties(op, code, undefined)
+    );
+
+    const security = analyzeSecurity(op);
+
+    opMap.set(key, {
+      path: op.pathTemplate,
+      method: op.method,
+      operationId: op.operationId,
+      tags: op.tags,
+      deprecated: op.deprecated,
+      covered: false,
+      statusCodes,
+      parameters,
+      bodyProperties,
+      responseProperties,
+      responseConformance: [],
+      responseViolations: [],
+      invalidRequestBodies: [],
+      enumValues: analyzeEnumValues(op),
+      mediaTypes: analyzeMediaTypes(op),
+      securitySchemes: security.schemes,
+      ...(security.unauthenticated && { unauthenticated: security.unauthenticated }),
+      testRefs: [],
+    });
+  }
+
+  const unmatchedHits: EndpointHit[] = [];
+  const acknowledgedCounters = new Map<AcknowledgedService, number>();
+  for (const svc of options.acknowledgedServices ?? []) acknowledgedCounters.set(svc, 0);
+
+  // Build index once so matchOperation can skip O(n) scan for every hit.
+  const operationIndex = buildOperationIndex(spec.operations);
+
+  // Hits are redacted by name while recording; the spec also knows its own apiKey names
+  const sensitiveNames = apiKeyParamNames(spec.operations);
+  const [countedHits, failingHits] = splitFailedTestHits(
+    hits.map((hit) => redactHit(hit, sensitiveNames)),
+    options.countFailedTests !== false
+  );
+
+  for (const hit of countedHits) {
+    const match = matchOperation(hit.url, hit.method, spec.operations, options.baseURL, operationIndex);
+
+    if (!match) {
+      // Check if this unmatched hit is covered by an acknowledged service.
+      const acknowledged = (options.acknowledgedServices ?? []).find((svc) =>
+        picomatch.isMatch(hit.url, svc.pattern)
+      );
+      if (acknowledged) {
+        acknowledgedCounters.set(acknowledged, (acknowledgedCounters.get(acknowledged) ?? 0) + 1);
+      } else {
+        unmatchedHits.push(hit);
+      }
+      if (process.env['PLAYSWAG_DEBUG'] && !acknowledged && unmatchedHits.length <= 3) {
+        console.log(`[playswag:debug]   unmatched hit    : ${hit.method} ${hit.url}`);
+      }
+      continue;
+    }
+
+    const { operation: matchedOp, pathParams } = match;
+    const key = `${matchedOp.method}:${matchedOp.pathTemplate}`;
+    const cov = opMap.get(key);
+    if (!cov) continue;
+
+    cov.covered = true;
+    const ref = testRef(hit);
+    const testRefSet = new Set(cov.testRefs);
+    if (!testRefSet.has(ref)) cov.testRefs.push(ref);
+
+    const enrichedHit: EndpointHit = { ...hit, pathParams };
+
+    const code = String(hit.statusCode);
+    // The response documenting the code: the code itself, else its range (4XX), else default
+    const responseKey = documentedStatusKey(Object.keys(matchedOp.responses), code);
+    const statusCoverage = responseKey !== undefined ? cov.statusCodes[responseKey] : undefined;
+    if (statusCoverage) {
+      statusCoverage.covered = true;
+      if (!statusCoverage.testRefs.includes(ref)) statusCoverage.testRefs.push(ref);
+    } else if (responseKey === undefined) {
+      const undocumented = (cov.undocumentedStatusCodes ??= []);
+      let entry = undocumented.find((u) => u.statusCode === code);
+      if (!entry) {
+        entry = { statusCode: code, testRefs: [] };
+        undocumented.push(entry);
+      }
+      if (!entry.testRefs.includes(ref)) entry.testRefs.push(ref);
+    }
+
+    const paramCoverage = analyzeParameters(
+      matchedOp,
+      enrichedHit.queryParams,
+      enrichedHit.pathParams,
+      enrichedHit.headers
+    );
+    for (const pc of paramCoverage) {
+      const existing = cov.parameters.find((p) => p.name === pc.name && p.in === pc.in);
+      if (existing && pc.covered) existing.covered = true;
+    }
+
+    const bodyCoverage = analyzeBodyProperties(matchedOp, enrichedHit.requestBody);
+    for (const bc of bodyCoverage) {
+      const existing = cov.bodyProperties.find((b) => b.name === bc.name);
+      if (existing && bc.covered) existing.covered = true;
+    }
+
+    const enumCoverage = analyzeEnumValues(matchedOp, enrichedHit);
+    if (enumCoverage.some((e) => e.covered)) {
+      const enumIndex = new Map(cov.enumValues!.map((e) => [enumKey(e), e]));
+      for (const ec of enumCoverage) {
+        const existing = enumIndex.get(enumKey(ec));
+        if (existing && ec.covered) existing.covered = true;
+      }
+    }
+
+    for (const mc of analyzeMediaTypes(matchedOp, enrichedHit)) {
+      if (!mc.covered) continue;
+      const existing = cov.mediaTypes!.find((m) => mediaTypeKey(m) === mediaTypeKey(mc));
+      if (existing) existing.covered = true;
+    }
+
+    const securityCoverage = analyzeSecurity(matchedOp, enrichedHit);
+    for (const sc of securityCoverage.schemes) {
+      const existing = cov.securitySchemes!.find((s) => s.name === sc.name);
+      if (!existing || !sc.covered) continue;
+      existing.covered = true;
+      for (const scope of sc.scopes ?? []) {
+        const existingScope = existing.scopes?.find((s) => s.name === scope.name);
+        if (existingScope && scope.covered) existingScope.covered = true;
+      }
+    }
+    if (securityCoverage.unauthenticated && cov.unauthenticated) {
+      for (const sc of securityCoverage.unauthenticated.statusCodes) {
+        if (!cov.unauthenticated.statusCodes.includes(sc)) cov.unauthenticated.statusCodes.push(sc);
+      }
+      if (securityCoverage.unauthenticated.rejected) cov.unauthenticated.rejected = true;
+    }
+
+    const requestErrors = validateRequestBody(matchedOp, enrichedHit.requestBody, enrichedHit.requestContentType);
+    if (requestErrors && requestErrors.length > 0) {
+      const invalid = cov.invalidRequestBodies!;
+      if (!invalid.some((r) => r.statusCode === code && r.testRef === ref)) {
+        invalid.push({
+          testRef: ref,
+          statusCode: code,
+          rejected: hit.statusCode >= 400 && hit.statusCode < 500,
+          errors: requestErrors,
+        });
+      }
+    }
+
+    const responseCode = responseKey ?? code;
+    const respCoverage = analyzeResponseProperties(matchedOp, responseCode, enrichedHit.responseBody);
+    if (process.env['PLAYSWAG_DEBUG']) {
+      const hasBody = enrichedHit.responseBody !== undefined;
+      const schemaLen = cov.responseProperties.filter((r) => r.statusCode === responseCode).length;
+      const newlyCovered = respCoverage.filter((r) => r.covered).length;
+      console.log(`[playswag:debug] resp merge  ${matchedOp.method}:${matchedOp.pathTemplate} code=${responseCode} hasBody=${hasBody} schemaPropCount=${schemaLen} newlyCovered=${newlyCovered}`);
+    }
+    for (const rc of respCoverage) {
+      const existing = cov.responseProperties.find(
+        (r) => r.name === rc.name && r.statusCode === rc.statusCode
+      );
+      if (existing && rc.covered) existing.covered = true;
+    }
+
+    for (const name of findUndocumentedResponseProperties(matchedOp, responseCode, enrichedHit.responseBody)) {
+      const drift = (cov.undocumentedResponseProperties ??= []);
+      let entry = drift.find((d) => d.statusCode === responseCode && d.name === name);
+      if (!entry) {
+        entry = { statusCode: responseCode, name, testRefs: [] };
+        drift.push(entry);
+      }
+      if (!entry.testRefs.includes(ref)) entry.testRefs.push(ref);
+    }
+
+    const schemaErrors = validateResponseBody(matchedOp, responseCode, enrichedHit.responseBody);
+    if (schemaErrors) {
+      const conformance = cov.responseConformance!;
+      let entry = conformance.find((r) => r.statusCode === responseCode);
+      if (!entry) {
+        entry = { statusCode: responseCode, validated: 0, conforming: true };
+        conformance.push(entry);
+      }
+      entry.validated++;
+      if (schemaErrors.length > 0) {
+        entry.conforming = false;
+        const violations = cov.responseViolations!;
+        if (!violations.some((v) => v.statusCode === responseCode && v.testRef === ref)) {
+          violations.push({ statusCode: responseCode, testRef: ref, errors: schemaErrors });
+        }
+      }
+    }
+  }
+
+  // Failing tests only record which operations they reached; their calls cover nothing
+  for (const hit of failingHits) {
+    const match = matchOperation(hit.url, hit.method, spec.operations, options.baseURL, operationIndex);
+    const cov = match && opMap.get(`${match.operation.method}:${match.operation.pathTemplate}`);
+    if (!cov) continue;
+    const ref = testRef(hit);
+    cov.failingTestRefs ??= [];
+    if (!cov.failingTestRefs.includes(ref)) cov.failingTestRefs.push(ref);
+  }
+
+  // Hits still match deprecated operations, so they never show up as unmatched
+  const [allOps, deprecatedOps] = splitDeprecated(Array.from(opMap.values()), options.deprecatedOperations);
+  const uncoveredOps = allOps.filter((o) => !o.covered);
+
+  function countCoveredItems<T extends { covered: boolean }>(
+    selector: (op: OperationCoverage) => T[]
+  ): [total: number, covered: number] {
+    let total = 0, covered = 0;
+    for (const op of allOps) {
+      for (const item of selector(op)) {
+        total++;
+        if (item.covered) covered++;
+      }
+    }
+    return [total, covered];
+  }
+
+  const totalEndpoints = allOps.length;
+  const coveredEndpoints = allOps.filter((o) => o.covered).length;
+
+  const [totalStatusCodes, coveredStatusCodes] = countCoveredItems((op) =>
+    Object.values(op.statusCodes)
+  );
+  const [totalParams, coveredParams] = countCoveredItems((op) => op.parameters);
+  const [totalBody, coveredBody] = countCoveredItems((op) => op.bodyProperties);
+  const [totalResponseProps, coveredResponseProps] = countCoveredItems((op) => op.responseProperties);
+  const [totalConformance, coveredConformance] = countConformance(
+    allOps.flatMap((op) => op.responseConformance ?? [])
+  );
+  const [totalEnums, coveredEnums] = countCoveredItems((op) => op.enumValues ?? []);
+  const [totalMediaTypes, coveredMediaTypes] = countCoveredItems((op) => op.mediaTypes ?? []);
+  const [totalSecurity, coveredSecurity] = countSecurity(allOps);
+
+  // Aggregate per-tag coverage
+  const tagOpsMap = new Map<string, OperationCoverage[]>();
+  for (const op of allOps) {
+    const tags = op.tags?.length ? op.tags : ['(untagged)'];
+    for (const tag of tags) {
+      if (!tagOpsMap.has(tag)) tagOpsMap.set(tag, []);
+      tagOpsMap.get(tag)!.push(op);
+    }
+  }
+
+  const tagCoverage: Record<string, CoverageSummary> = {};
+  for (const [tag, ops] of tagOpsMap) {
+    const tagEndpoints = ops.length;
+    const tagCoveredEndpoints = ops.filter((o) => o.covered).length;
+
+    let tSC = 0, cSC = 0, tP = 0, cP = 0, tB = 0, cB = 0, tR = 0, cR = 0, tE = 0, cE = 0, tM = 0, cM = 0;
+    for (const op of ops) {
+      for (const sc of Object.values(op.statusCodes)) { tSC++; if (sc.covered) cSC++; }
+      for (const p of op.parameters) { tP++; if (p.covered) cP++; }
+      for (const b of op.bodyProperties) { tB++; if (b.covered) cB++; }
+      for (const r of op.responseProperties) { tR++; if (r.covered) cR++; }
+      for (const e of op.enumValues ?? []) { tE++; if (e.covered) cE++; }
+      for (const m of op.mediaTypes ?? []) { tM++; if (m.covered) cM++; }
+    }
+    const [tRC, cRC] = countConformance(ops.flatMap((op) => op.responseConformance ?? []));
+    const [tS, cS] = countSecurity(ops);
+
+    tagCoverage[tag] = {
+      endpoints: makeItem(tagEndpoints, tagCoveredEndpoints),
+      statusCodes: makeItem(tSC, cSC),
+      parameters: makeItem(tP, cP),
+      bodyProperties: makeItem(tB, cB),
+      responseProperties: makeItem(tR, cR),
+      responseConformance: makeItem(tRC, cRC),
+      enumValues: makeItem(tE, cE),
+      mediaTypes: makeItem(tM, cM),
+      security: makeItem(tS, cS),
+    };
+  }
+
+  const tests = collectTestReferences(hits);
+
+  return {
+    specFiles: spec.sources,
+    timestamp: new Date().toISOString(),
+    playwrightVersion: options.playwrightVersion ?? 'unknown',
+    playswagVersion: options.playswagVersion ?? 'unknown',
+    totalTestCount: options.totalTestCount ?? 0,
+    summary: {
+      endpoints: makeItem(totalEndpoints, coveredEndpoints),
+      statusCodes: makeItem(totalStatusCodes, coveredStatusCodes),
+      parameters: makeItem(totalParams, coveredParams),
+      bodyProperties: makeItem(totalBody, coveredBody),
+      responseProperties: makeItem(totalResponseProps, coveredResponseProps),
+      responseConformance: makeItem(totalConformance, coveredConformance),
+      enumValues: makeItem(totalEnums, coveredEnums),
+      mediaTypes: makeItem(totalMediaTypes, coveredMediaTypes),
+      security: makeItem(totalSecurity, coveredSecurity),
+    },
+    tagCoverage,
+    operations: allOps,
+    uncoveredOperations: uncoveredOps,
+    unmatchedHits,
+    acknowledgedHits: Array.from(acknowledgedCounters.entries())
+      .filter(([, count]) => count > 0)
+      .map(([svc, count]): AcknowledgedServiceHits => ({
+        label: svc.label ?? svc.pattern,
+        pattern: svc.pattern,
+        count,
+      })),
+    ...(deprecatedOps.length > 0 && { deprecatedOperations: deprecatedOps }),
+    ...(options.deprecatedOperations === 'separate' && deprecatedOps.length > 0 && {
+      deprecatedSummary: computeSummary(deprecatedOps, makeItem),
+    }),
+    ...(tests && { tests }),
+  };
+}
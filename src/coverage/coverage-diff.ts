@@ -0,0 +1,156 @@
+import type { CoverageResult, CoverageSummary, OperationCoverage } from '../types.js';
+import { compareCoverage, type CoverageDelta } from '../output/history.js';
+
+/** An operation, status code, parameter or body property whose coverage changed between two runs. */
+export interface CoverageItemChange {
+  element: 'operation' | 'statusCode' | 'parameter' | 'bodyProperty' | 'responseProperty';
+  method: string;
+  path: string;
+  /**
+   * Status code, parameter (`in:name`) or dot-notation property path.
+   * Absent for operations.
+   */
+  name?: string;
+  /** Status code a response property belongs to. */
+  statusCode?: string;
+}
+
+/** Result of {@link diffCoverageResults}. */
+export interface CoverageDiff {
+  base: CoverageSummary;
+  head: CoverageSummary;
+  /** Percentage-point change per dimension, head minus base. */
+  delta: CoverageDelta;
+  /** Items covered in head that were uncovered in base, or not in its spec. */
+  newlyCovered: CoverageItemChange[];
+  /** Items covered in base that are still in the spec but uncovered in head. */
+  newlyUncovered: CoverageItemChange[];
+}
+
+function* coverageItems(op: OperationCoverage): Generator<[CoverageItemChange, boolean]> {
+  const at = { method: op.method.toUpperCase(), path: op.path };
+  yield [{ element: 'operation', ...at }, op.covered];
+  for (const [code, sc] of Object.entries(op.statusCodes)) {
+    yield [{ element: 'statusCode', ...at, name: code }, sc.covered];
+  }
+  for (const p of op.parameters) {
+    yield [{ element: 'parameter', ...at, name: `${p.in}:${p.name}` }, p.covered];
+  }
+  for (const p of op.bodyProperties) {
+    yield [{ element: 'bodyProperty', ...at, name: p.name }, p.covered];
+  }
+  for (const p of op.responseProperties) {
+    yield [{ element: 'responseProperty', ...at, name: p.name, statusCode: p.statusCode }, p.covered];
+  }
+}
+
+/**
+ * Stable key of a coverage item, as stored in item baseline files:
+ * `GET:/users/{id}`, `GET:/users/{id}:404`, `GET:/users:param:query:limit`,
+ * `POST:/users:body:address.city` or `GET:/users:200:response:data.name`.
+ */
+export function coverageItemKey(item: CoverageItemChange): string {
+  const op = `${item.method}:${item.path}`;
+  switch (item.element) {
+    case 'operation':        return op;
+    case 'statusCode':       return `${op}:${item.name}`;
+    case 'parameter':        return `${op}:param:${item.name}`;
+    case 'bodyProperty':     return `${op}:body:${item.name}`;
+    case 'responseProperty': return `${op}:${item.statusCode}:response:${item.name}`;
+  }
+}
+
+function coverageMap(result: CoverageResult): Map<string, boolean> {
+  const map = new Map<string, boolean>();
+  for (const op of result.operations) {
+    for (const [item, covered] of coverageItems(op)) map.set(coverageItemKey(item), covered);
+  }
+  return map;
+}
+
+/** Sorted keys ({@link coverageItemKey}) of every item `result` covers. */
+export function coveredItemKeys(result: CoverageResult): string[] {
+  return [...coverageMap(result)].filter(([, covered]) => covered).map(([key]) => key).sort();
+}
+
+/**
+ * Items of `result` that are listed in `coveredKeys` but are no longer covered.
+ * Keys of items that are no longer in the spec are ignored.
+ */
+export function findLostCoverage(result: CoverageResult, coveredKeys: Iterable<string>): CoverageItemChange[] {
+  const before = new Set(coveredKeys);
+  const lost: CoverageItemChange[] = [];
+  for (const op of result.operations) {
+    for (const [item, covered] of coverageItems(op)) {
+      if (!covered && before.has(coverageItemKey(item))) lost.push(item);
+    }
+  }
+  return lost;
+}
+
+/**
+ * List exactly which operations, status codes, parameters and request / response body
+ * properties became covered or uncovered between two runs, e.g. the base branch and a PR.
+ *
+ * Items that exist only in `base` (removed from the spec) are not reported as uncovered.
+ *
+ * @param base - Coverage of the reference run.
+ * @param head - Coverage of the run being reviewed.
+ */
+export function diffCoverageResults(base: CoverageResult, head: CoverageResult): CoverageDiff {
+  const before = coverageMap(base);
+  const newlyCovered: CoverageItemChange[] = [];
+  const newlyUncovered: CoverageItemChange[] = [];
+
+  for (const op of head.operations) {
+    for (const [item, covered] of coverageItems(op)) {
+      const wasCovered = before.get(coverageItemKey(item)) ?? false;
+      if (covered && !wasCovered) newlyCovered.push(item);
+      else if (!covered && wasCovered) newlyUncovered.push(item);
+    }
+  }
+
+  return {
+    base: base.summary,
+    head: head.summary,
+    delta: compareCoverage(head.summary, base.summary),
+    newlyCovered,
+    newlyUncovered,
+  };
+}
+
+/** Human-readable label of a changed item, e.g. `DELETE /users/{id} 404`. */
+export function formatCoverageItem(item: CoverageItemChange): string {
+  const op = `${item.method} ${item.path}`;
+  switch (item.element) {
+    case 'operation':        return op;
+    case 'statusCode':       return `${op} ${item.name}`;
+    case 'parameter':        return `${op} parameter ${item.name}`;
+    case 'bodyProperty':     return `${op} request body ${item.name}`;
+    case 'responseProperty': return `${op} ${item.statusCode} response ${item.name}`;
+  }
+}
+
+const SUMMARY_ROWS: Array<[keyof CoverageSummary, string]> = [
+  ['endpoints', 'Endpoints'],
+  ['statusCodes', 'Status Codes'],
+  ['parameters', 'Parameters'],
+  ['bodyProperties', 'Body Properties'],
+  ['responseProperties', 'Response Properties'],
+  ['responseConformance', 'Response Conformance'],
+  ['enumValues', 'Enum Values'],
+  ['mediaTypes', 'Media Types'],
+  ['security', 'Security'],
+];
+
+/** Dimensions present in both runs, with base and head percentages and their change. */
+export function coverageDiffRows(diff: CoverageDiff): Array<{ label: string; base: number; head: number; change: number }> {
+  const rows: Array<{ label: string; base: number; head: number; change: number }> = [];
+  for (const [key, label] of SUMMARY_ROWS) {
+    const base = diff.base[key];
+    const head = diff.head[key];
+    if (!base || !head) continue;
+    rows.push({ label, base: base.percentage, head: head.percentage, change: diff.delta[key] ?? 0 });
+  }
+  return rows;
+}
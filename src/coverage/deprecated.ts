@@ -0,0 +1,37 @@
+import type { CoverageResult, DeprecatedOperationsPolicy, OperationCoverage } from '../types.js';
+
+/** A deprecated operation that tests still call. */
+export interface DeprecatedCall {
+  method: string;
+  path: string;
+  operationId?: string;
+  /** Tests that called the operation, as `file > title`. */
+  testRefs: string[];
+}
+
+/**
+ * Split operations into those that count towards coverage and the deprecated ones set apart
+ * by `policy`. With `'include'` nothing is set apart.
+ */
+export function splitDeprecated(
+  operations: OperationCoverage[],
+  policy: DeprecatedOperationsPolicy = 'include'
+): [counted: OperationCoverage[], deprecated: OperationCoverage[]] {
+  if (policy === 'include') return [operations, []];
+  return [operations.filter((op) => !op.deprecated), operations.filter((op) => op.deprecated)];
+}
+
+/**
+ * The deprecated operations of `result` that at least one test called, whether they were
+ * counted (`'include'`) or set apart (`'exclude'` / `'separate'`).
+ */
+export function findDeprecatedCalls(result: CoverageResult): DeprecatedCall[] {
+  return [...result.operations, ...(result.deprecatedOperations ?? [])]
+    .filter((op) => op.deprecated && op.testRefs.length > 0)
+    .map((op) => ({
+      method: op.method.toUpperCase(),
+      path: op.path,
+      ...(op.operationId !== undefined && { operationId: op.operationId }),
+      testRefs: op.testRefs,
+    }));
+}
@@ -0,0 +1,79 @@
+import type { EndpointHit, MediaTypeCoverage, NormalizedOperation } from '../types.js';
+import { documentedStatusKey } from './status-codes.js';
+
+/** Lower-case a `Content-Type` value and strip its parameters, e.g. `; charset=utf-8`. */
+export function normalizeMediaType(contentType: string | undefined): string | undefined {
+  const mediaType = contentType?.split(';')[0]?.trim().toLowerCase();
+  return mediaType === '' ? undefined : mediaType;
+}
+
+/**
+ * Infer the media type Playwright sends a request body as.
+ *
+ * An explicit `Content-Type` header wins. Otherwise it follows from the option used to
+ * pass the body: `multipart` and `form` map to their form encodings, and `data` is sent
+ * as JSON unless it is a string or Buffer, which Playwright sends as `application/octet-stream`.
+ */
+export function inferRequestContentType(
+  options: Record<string, unknown> | undefined,
+  headers: Record<string, string> | undefined
+): string | undefined {
+  const explicit = headers
+    ? Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1]
+    : undefined;
+  if (explicit) return normalizeMediaType(explicit);
+
+  if (options?.['multipart'] !== undefined) return 'multipart/form-data';
+  if (options?.['form'] !== undefined) return 'application/x-www-form-urlencoded';
+
+  const data = options?.['data'];
+  if (data === undefined) return undefined;
+  return typeof data === 'string' || Buffer.isBuffer(data) ? 'application/octet-stream' : 'application/json';
+}
+
+/** Whether a declared media type range such as `image/*` or `*\/*` includes `actual`. */
+function rangeIncludes(declared: string, actual: string): boolean {
+  const [type, subtype] = declared.split('/');
+  return subtype === '*' && (type === '*' || type === actual.split('/')[0]);
+}
+
+/**
+ * Pick the declared media type a recorded one counts towards: an exact match wins,
+ * otherwise the first range that includes it.
+ */
+function resolveDeclared(declared: string[], actual: string | undefined): string | undefined {
+  if (!actual) return undefined;
+  return declared.find((d) => normalizeMediaType(d) === actual)
+    ?? declared.find((d) => rangeIncludes(normalizeMediaType(d) ?? '', actual));
+}
+
+/**
+ * Analyze which declared request and response media types a recorded API call used.
+ *
+ * Without a `hit` every declared media type is returned uncovered (used to pre-seed coverage
+ * from the spec); with a hit, response media types are only reported for the response documenting
+ * the status code it received (see {@link documentedStatusKey}).
+ */
+export function analyzeMediaTypes(
+  operation: NormalizedOperation,
+  hit?: Pick<EndpointHit, 'statusCode' | 'requestContentType' | 'responseContentType'>
+): MediaTypeCoverage[] {
+  const results: MediaTypeCoverage[] = [];
+
+  const requestTypes = operation.requestMediaTypes ?? [];
+  const sent = resolveDeclared(requestTypes, normalizeMediaType(hit?.requestContentType));
+  for (const mediaType of requestTypes) {
+    results.push({ direction: 'request', mediaType, covered: mediaType === sent });
+  }
+
+  const codes = hit ? [documentedStatusKey(Object.keys(operation.responses), hit.statusCode) ?? String(hit.statusCode)] : Object.keys(operation.responses);
+  for (const statusCode of codes) {
+    const responseTypes = operation.responses[statusCode]?.mediaTypes ?? [];
+    const received = resolveDeclared(responseTypes, normalizeMediaType(hit?.responseContentType));
+    for (const mediaType of responseTypes) {
+      results.push({ direction: 'response', statusCode, mediaType, covered: mediaType === received });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,164 @@
+import type { CoverageDimension, CoverageResult, EndpointHit, NormalizedSpec } from '../types.js';
+import { calculateCoverage } from './calculator.js';
+import { matchOperation, buildOperationIndex } from '../openapi/matcher.js';
+import { coverageItemKey } from './coverage-diff.js';
+import { collectTestReferences, testRef } from './tests.js';
+
+type CoverageOptions = NonNullable<Parameters<typeof calculateCoverage>[2]>;
+
+/** A test and the coverage items it contributes. See {@link analyzeRedundancy}. */
+export interface RedundancyEntry {
+  /** The test, as `file > title`. */
+  id: string;
+  /** Line of the test declaration, when the hits carry test details. */
+  line?: number;
+  /** Number of items the test covers. */
+  items: number;
+  /** Items no other test covers, as item keys. */
+  uniqueItems: string[];
+}
+
+/** A test of the minimal set. */
+export interface MinimalTestEntry extends RedundancyEntry {
+  /** Items the test added to the set when it was picked. */
+  addedItems: number;
+}
+
+/** Result of {@link analyzeRedundancy}. */
+export interface RedundancyAnalysis {
+  totalTests: number;
+  /** Items covered by all tests together. */
+  totalItems: number;
+  /** Tests that together cover every item, in the order they were picked. */
+  minimalTests: MinimalTestEntry[];
+  /** Tests whose items are all covered by the minimal set, sorted by id. */
+  redundantTests: RedundancyEntry[];
+}
+
+/**
+ * Keys of the items `result` covers, in every dimension except `excludeDimensions`. The keys
+ * of operations, status codes, parameters and body properties are those of
+ * `coverageItemKey`; enum values, media types and security schemes add
+ * `GET:/users:enum:query:status=active`, `POST:/users:media:request:application/json`,
+ * `GET:/users:security:bearerAuth` and `GET:/users:unauthenticated`.
+ * Response conformance is a property of the API, not of a test, and is not an item.
+ */
+export function coveredItems(result: CoverageResult, excludeDimensions?: CoverageDimension[]): string[] {
+  const items: Array<[CoverageDimension, string]> = [];
+  for (const op of result.operations) {
+    if (!op.covered) continue;
+    const at = { method: op.method.toUpperCase(), path: op.path };
+    const prefix = `${at.method}:${at.path}`;
+    items.push(['endpoints', coverageItemKey({ element: 'operation', ...at })]);
+    for (const [code, sc] of Object.entries(op.statusCodes)) {
+      if (sc.covered) items.push(['statusCodes', coverageItemKey({ element: 'statusCode', ...at, name: code })]);
+    }
+    for (const p of op.parameters) {
+      if (p.covered) items.push(['parameters', coverageItemKey({ element: 'parameter', ...at, name: `${p.in}:${p.name}` })]);
+    }
+    for (const p of op.bodyProperties) {
+      if (p.covered) items.push(['bodyProperties', coverageItemKey({ element: 'bodyProperty', ...at, name: p.name })]);
+    }
+    for (const p of op.responseProperties) {
+      if (p.covered) {
+        items.push(['responseProperties', coverageItemKey({ element: 'responseProperty', ...at, name: p.name, statusCode: p.statusCode })]);
+      }
+    }
+    for (const e of op.enumValues ?? []) {
+      const where = e.statusCode ? `${e.in}:${e.statusCode}` : e.in;
+      if (e.covered) items.push(['enumValues', `${prefix}:enum:${where}:${e.name}=${JSON.stringify(e.value)}`]);
+    }
+    for (const m of op.mediaTypes ?? []) {
+      const where = m.statusCode ? `${m.direction}:${m.statusCode}` : m.direction;
+      if (m.covered) items.push(['mediaTypes', `${prefix}:media:${where}:${m.mediaType}`]);
+    }
+    for (const s of op.securitySchemes ?? []) {
+      if (s.covered) items.push(['security', `${prefix}:security:${s.name}`]);
+    }
+    if (op.unauthenticated?.rejected) items.push(['security', `${prefix}:unauthenticated`]);
+  }
+  return items.filter(([dim]) => !excludeDimensions?.includes(dim)).map(([, key]) => key);
+}
+
+/**
+ * Work out which tests can be pruned without losing coverage. Coverage is computed for
+ * every test on its own hits, then a minimal set is picked greedily: the test adding the
+ * most items not yet covered, until the set covers everything all tests cover together.
+ * The remaining tests are redundant — candidates for deletion or a nightly run.
+ *
+ * The greedy set is not guaranteed to be the smallest possible, but is within a
+ * logarithmic factor of it and deterministic: ties go to the test that sorts first.
+ *
+ * @param hits              - Recorded hits, attributed to tests by `testFile` and `testTitle`.
+ * @param spec              - The spec coverage is measured against.
+ * @param options           - The options coverage is calculated with.
+ * @param excludeDimensions - Dimensions whose items are ignored.
+ */
+export function analyzeRedundancy(
+  hits: EndpointHit[],
+  spec: NormalizedSpec,
+  options: CoverageOptions = {},
+  excludeDimensions?: CoverageDimension[]
+): RedundancyAnalysis {
+  const hitsByTest = new Map<string, EndpointHit[]>();
+  for (const hit of hits) {
+    const id = testRef(hit);
+    const list = hitsByTest.get(id) ?? [];
+    list.push(hit);
+    hitsByTest.set(id, list);
+  }
+
+  // Match each test against only the operations its hits reach, instead of the whole spec
+  const operationIndex = buildOperationIndex(spec.operations);
+  const lines = new Map((collectTestReferences(hits) ?? []).map((ref) => [ref.id, ref.line]));
+  const itemsByTest = new Map<string, Set<string>>();
+  for (const [id, testHits] of [...hitsByTest].sort(([a], [b]) => a.localeCompare(b))) {
+    const operations = new Set(
+      testHits.flatMap((hit) => matchOperation(hit.url, hit.method, spec.operations, options.baseURL, operationIndex)?.operation ?? [])
+    );
+    const result = calculateCoverage(testHits, { ...spec, operations: [...operations] }, options);
+    itemsByTest.set(id, new Set(coveredItems(result, excludeDimensions)));
+  }
+
+  const coveredBy = new Map<string, number>();
+  for (const items of itemsByTest.values()) {
+    for (const item of items) coveredBy.set(item, (coveredBy.get(item) ?? 0) + 1);
+  }
+  const entry = (id: string): RedundancyEntry => {
+    const items = itemsByTest.get(id)!;
+    const line = lines.get(id);
+    return {
+      id,
+      ...(line !== undefined && { line }),
+      items: items.size,
+      uniqueItems: [...items].filter((item) => coveredBy.get(item) === 1).sort(),
+    };
+  };
+
+  const uncovered = new Set(coveredBy.keys());
+  const remaining = new Set(itemsByTest.keys());
+  const minimalTests: MinimalTestEntry[] = [];
+  while (uncovered.size > 0) {
+    let best: string | undefined;
+    let bestGain = 0;
+    for (const id of remaining) {
+      let gain = 0;
+      for (const item of itemsByTest.get(id)!) if (uncovered.has(item)) gain++;
+      if (gain > bestGain) {
+        best = id;
+        bestGain = gain;
+      }
+    }
+    if (!best) break;
+    for (const item of itemsByTest.get(best)!) uncovered.delete(item);
+    remaining.delete(best);
+    minimalTests.push({ ...entry(best), addedItems: bestGain });
+  }
+
+  return {
+    totalTests: itemsByTest.size,
+    totalItems: coveredBy.size,
+    minimalTests,
+    redundantTests: [...remaining].map(entry),
+  };
+}
@@ -0,0 +1,463 @@
+import type {
+  EndpointHit,
+  EnumValue,
+  EnumValueCoverage,
+  NormalizedOperation,
+  NormalizedParameter,
+  NormalizedSchema,
+  ParamCoverage,
+  BodyPropertyCoverage,
+  ResponsePropertyCoverage,
+  SchemaValidationError,
+} from '../types.js';
+import { log } from '../log.js';
+import { validateSchema } from './schema-validator.js';
+import { documentedStatusKey } from './status-codes.js';
+import { normalizeMediaType } from './media-types.js';
+
+/**
+ * Recursively collect all property paths from a schema up to `maxDepth` levels deep.
+ * Returns a Map of dot-notation path → required flag.
+ * e.g. `{ address: { street: {} } }` at depth ≤ 3 yields `address` and `address.street`.
+ * Properties of array elements get a `[]` segment: `{ data: { items: { properties: { name } } } }`
+ * yields `data` and `data[].name`, and a bare array of objects yields `[].name`.
+ */
+export function collectProperties(
+  schema: NormalizedSchema | undefined,
+  prefix: string,
+  depth: number,
+  maxDepth: number
+): Map<string, boolean> {
+  const props = new Map<string, boolean>();
+  if (!schema || depth >= maxDepth) return props;
+
+  const required = new Set(schema.required ?? []);
+
+  if (schema.properties) {
+    for (const [name, childSchema] of Object.entries(schema.properties)) {
+      const fullName = prefix ? `${prefix}.${name}` : name;
+      props.set(fullName, required.has(name));
+      // Recurse into nested objects and array elements
+      if (childSchema.type === 'object' || childSchema.properties || childSchema.items) {
+        for (const [k, v] of collectProperties(childSchema, fullName, depth + 1, maxDepth)) {
+          if (!props.has(k)) props.set(k, v);
+        }
+      }
+    }
+  }
+
+  if (schema.items) {
+    for (const [name, req] of collectProperties(schema.items, `${prefix}[]`, depth, maxDepth)) {
+      if (!props.has(name)) props.set(name, req);
+    }
+  }
+
+  for (const combiner of ['allOf', 'anyOf', 'oneOf'] as const) {
+    const schemas = schema[combiner];
+    if (!schemas) continue;
+    for (const sub of schemas) {
+      for (const [name, req] of collectProperties(sub, prefix, depth, maxDepth)) {
+        if (!props.has(name)) props.set(name, req);
+      }
+    }
+  }
+
+  return props;
+}
+
+/**
+ * Recursively collect the enum-constrained property paths of a schema up to `maxDepth` levels deep.
+ * Returns a Map of dot-notation path → allowed members. Array properties whose items
+ * declare an enum are included too, e.g. `roles: { type: array, items: { enum: [...] } }`,
+ * and enums of array elements get a `[]` segment as in {@link collectProperties}, e.g. `data[].status`.
+ */
+function collectEnumFields(
+  schema: NormalizedSchema | undefined,
+  prefix: string,
+  depth: number,
+  maxDepth: number
+): Map<string, EnumValue[]> {
+  const fields = new Map<string, EnumValue[]>();
+  if (!schema || depth >= maxDepth) return fields;
+
+  if (schema.properties) {
+    for (const [name, childSchema] of Object.entries(schema.properties)) {
+      const fullName = prefix ? `${prefix}.${name}` : name;
+      const members = childSchema.enum ?? childSchema.items?.enum;
+      if (members) fields.set(fullName, members);
+      if (childSchema.type === 'object' || childSchema.properties || childSchema.items) {
+        for (const [k, v] of collectEnumFields(childSchema, fullName, depth + 1, maxDepth)) {
+          if (!fields.has(k)) fields.set(k, v);
+        }
+      }
+    }
+  }
+
+  if (schema.items) {
+    for (const [name, members] of collectEnumFields(schema.items, `${prefix}[]`, depth, maxDepth)) {
+      if (!fields.has(name)) fields.set(name, members);
+    }
+  }
+
+  for (const combiner of ['allOf', 'anyOf', 'oneOf'] as const) {
+    const schemas = schema[combiner];
+    if (!schemas) continue;
+    for (const sub of schemas) {
+      for (const [name, members] of collectEnumFields(sub, prefix, depth, maxDepth)) {
+        if (!fields.has(name)) fields.set(name, members);
+      }
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Read the values at a path split by {@link propertyPathSegments}: one per element of every
+ * array a `[]` step passes through. Empty when any segment is missing.
+ */
+function getNestedValues(value: unknown, segments: string[]): unknown[] {
+  const [head, ...rest] = segments;
+  if (head === undefined) return [value];
+  if (head === '[]') return Array.isArray(value) ? value.flatMap((item) => getNestedValues(item, rest)) : [];
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) return [];
+  return getNestedValues((value as Record<string, unknown>)[head], rest);
+}
+
+/**
+ * Parse a recorded body into a JSON value. Returns `undefined` for non-JSON strings —
+ * the property analyzers already warn about those.
+ */
+function parseJsonBody(body: unknown): unknown {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the raw value a recorded call sent for a parameter.
+ * Returns `undefined` when the parameter was not sent; a valueless cookie yields `''`.
+ */
+function paramValue(
+  param: NormalizedParameter,
+  queryParams: Record<string, string> | undefined,
+  pathParams: Record<string, string> | undefined,
+  headers: Record<string, string> | undefined
+): string | undefined {
+  switch (param.in) {
+    case 'query':
+      return queryParams != null && param.name in queryParams ? queryParams[param.name] : undefined;
+    case 'path':
+      return pathParams != null && param.name in pathParams ? pathParams[param.name] : undefined;
+    case 'header': {
+      const lowerName = param.name.toLowerCase();
+      return headers != null
+        ? Object.entries(headers).find(([h]) => h.toLowerCase() === lowerName)?.[1]
+        : undefined;
+    }
+    case 'cookie': {
+      // Parse the Cookie header: "name1=value1; name2=value2"
+      const cookieHeader = headers != null
+        ? (Object.entries(headers).find(([k]) => k.toLowerCase() === 'cookie')?.[1] ?? '')
+        : '';
+      for (const pair of cookieHeader ? cookieHeader.split(';') : []) {
+        const eqIdx = pair.indexOf('=');
+        const name = eqIdx === -1 ? pair.trim() : pair.slice(0, eqIdx).trim();
+        if (name === param.name) return eqIdx === -1 ? '' : pair.slice(eqIdx + 1).trim();
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Split a property path as built by {@link collectProperties} into property names and
+ * `[]` array-element steps, e.g. `data[].tags` → `['data', '[]', 'tags']`.
+ */
+export function propertyPathSegments(path: string): string[] {
+  return path.split('.').flatMap((part) => {
+    const name = part.replace(/(\[\])+$/, '');
+    const elements = (part.length - name.length) / 2;
+    return [...(name ? [name] : []), ...Array<string>(elements).fill('[]')];
+  });
+}
+
+/**
+ * Traverse a nested value following property path segments. A `[]` step is satisfied
+ * when any element of the array has the rest of the path.
+ */
+function hasNestedProperty(value: unknown, segments: string[]): boolean {
+  const [head, ...rest] = segments;
+  if (head === undefined) return true;
+  if (head === '[]') return Array.isArray(value) && value.some((item) => hasNestedProperty(item, rest));
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) return false;
+  if (!(head in value)) return false;
+  return hasNestedProperty((value as Record<string, unknown>)[head], rest);
+}
+
+/**
+ * Analyze which defined parameters were actually used in a recorded API call.
+ */
+export function analyzeParameters(
+  operation: NormalizedOperation,
+  queryParams: Record<string, string> | undefined,
+  pathParams: Record<string, string> | undefined,
+  headers: Record<string, string> | undefined
+): ParamCoverage[] {
+  return operation.parameters.map((param) => ({
+    name: param.name,
+    in: param.in,
+    required: param.required,
+    covered: paramValue(param, queryParams, pathParams, headers) !== undefined,
+  }));
+}
+
+/**
+ * Analyze which declared enum members were observed in a recorded API call.
+ *
+ * Covers enum-constrained parameters and request/response body fields. Without a `hit`
+ * every member is returned uncovered (used to pre-seed coverage from the spec); with a
+ * hit, response body fields are only reported for the response documenting the status code
+ * it received (see {@link documentedStatusKey}).
+ */
+export function analyzeEnumValues(
+  operation: NormalizedOperation,
+  hit?: Pick<EndpointHit, 'statusCode' | 'queryParams' | 'pathParams' | 'headers' | 'requestBody' | 'responseBody'>
+): EnumValueCoverage[] {
+  const results: EnumValueCoverage[] = [];
+
+  for (const param of operation.parameters) {
+    const members = param.schema?.enum ?? param.schema?.items?.enum;
+    if (!members) continue;
+    const raw = hit ? paramValue(param, hit.queryParams, hit.pathParams, hit.headers) : undefined;
+    // Array parameters arrive as a single comma-separated value (OpenAPI `form` style).
+    const sent = raw === undefined ? [] : param.schema?.type === 'array' ? raw.split(',') : [raw];
+    for (const value of members) {
+      results.push({ name: param.name, in: param.in, value, covered: sent.includes(String(value)) });
+    }
+  }
+
+  const bodyEntries = (
+    location: 'requestBody' | 'responseBody',
+    schema: NormalizedSchema | undefined,
+    body: unknown,
+    statusCode?: string
+  ): void => {
+    const parsed = parseJsonBody(body);
+    for (const [name, members] of collectEnumFields(schema, '', 0, 3)) {
+      const observed = parsed === undefined ? [] : getNestedValues(parsed, propertyPathSegments(name));
+      const values = observed.flatMap((value) => (Array.isArray(value) ? value : [value]));
+      for (const value of members) {
+        const entry: EnumValueCoverage = { name, in: location, value, covered: values.includes(value) };
+        if (statusCode !== undefined) entry.statusCode = statusCode;
+        results.push(entry);
+      }
+    }
+  };
+
+  bodyEntries('requestBody', operation.requestBodySchema, hit?.requestBody);
+
+  const codes = hit ? [documentedStatusKey(Object.keys(operation.responses), hit.statusCode) ?? String(hit.statusCode)] : Object.keys(operation.responses);
+  for (const code of codes) {
+    bodyEntries('responseBody', operation.responses[code]?.schema, hit?.responseBody, code);
+  }
+
+  return results;
+}
+
+/**
+ * Analyze which response body properties were present in a recorded response. A property
+ * of array elements is covered when any element has it.
+ */
+export function analyzeResponseProperties(
+  operation: NormalizedOperation,
+  statusCode: string,
+  responseBody: unknown
+): ResponsePropertyCoverage[] {
+  const schema = operation.responses[statusCode]?.schema;
+  if (!schema) return [];
+
+  const props = collectProperties(schema, '', 0, 3);
+  if (props.size === 0) return [];
+
+  let body: object | null = null;
+  if (responseBody && typeof responseBody === 'object') {
+    body = responseBody;
+  } else if (typeof responseBody === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(responseBody);
+      if (parsed && typeof parsed === 'object') body = parsed;
+    } catch {
+      log.warn(`Could not parse response body as JSON for ${operation.method}:${operation.pathTemplate} (status ${statusCode})`);
+    }
+  }
+
+  const results = Array.from(props.entries()).map(([name, required]) => ({
+    statusCode,
+    name,
+    required,
+    covered: body != null && hasNestedProperty(body, propertyPathSegments(name)),
+  }));
+
+  if (process.env['PLAYSWAG_DEBUG'] && responseBody !== undefined) {
+    const covCount = results.filter((r) => r.covered).length;
+    console.log(`[playswag:debug] resp analysis  op=${operation.method}:${operation.pathTemplate} code=${statusCode} schema_props=${results.length} covered=${covCount} body_type=${Array.isArray(responseBody) ? 'array' : typeof responseBody}`);
+  }
+
+  return results;
+}
+
+/**
+ * The properties declared by `schema` and its `allOf` / `anyOf` / `oneOf` members, and whether
+ * it accepts undeclared ones: declaring `additionalProperties` or no properties at all
+ * describes a free-form object.
+ */
+function declaredProperties(schema: NormalizedSchema): { props: Map<string, NormalizedSchema>; open: boolean } {
+  const props = new Map<string, NormalizedSchema>();
+  let open = false;
+  const visit = (s: NormalizedSchema): void => {
+    for (const [name, child] of Object.entries(s.properties ?? {})) if (!props.has(name)) props.set(name, child);
+    if (s.additionalProperties !== undefined && s.additionalProperties !== false) open = true;
+    for (const sub of [...s.allOf ?? [], ...s.anyOf ?? [], ...s.oneOf ?? []]) visit(sub);
+  };
+  visit(schema);
+  return { props, open: open || props.size === 0 };
+}
+
+/** The `items` schema of an array schema, looking through `allOf` / `anyOf` / `oneOf`. */
+function itemsSchema(schema: NormalizedSchema): NormalizedSchema | undefined {
+  if (schema.items) return schema.items;
+  for (const sub of [...schema.allOf ?? [], ...schema.anyOf ?? [], ...schema.oneOf ?? []]) {
+    const items = itemsSchema(sub);
+    if (items) return items;
+  }
+  return undefined;
+}
+
+function collectUndocumented(value: unknown, schema: NormalizedSchema | undefined, prefix: string, found: Set<string>): void {
+  if (!schema || value === null || typeof value !== 'object') return;
+  if (Array.isArray(value)) {
+    const items = itemsSchema(schema);
+    for (const item of value) collectUndocumented(item, items, `${prefix}[]`, found);
+    return;
+  }
+  const { props, open } = declaredProperties(schema);
+  for (const [name, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    const declared = props.get(name);
+    if (declared) collectUndocumented(child, declared, path, found);
+    else if (!open) found.add(path);
+  }
+}
+
+/**
+ * Find the properties of a recorded response body that the schema declared for its status
+ * code does not document, at any depth. Returns dot-notation paths, with `[]` for array
+ * elements, e.g. `items[].sku`. Free-form objects — without declared properties, or with
+ * `additionalProperties` — accept anything. Empty when there is no schema or JSON body.
+ */
+export function findUndocumentedResponseProperties(
+  operation: NormalizedOperation,
+  statusCode: string,
+  responseBody: unknown
+): string[] {
+  const schema = operation.responses[statusCode]?.schema;
+  if (!schema || responseBody === undefined) return [];
+  const found = new Set<string>();
+  collectUndocumented(parseJsonBody(responseBody), schema, '', found);
+  return [...found].sort();
+}
+
+/**
+ * Validate a recorded response body against the schema declared for its status code.
+ *
+ * Returns `null` when there is nothing to validate — no schema for the status code,
+ * no captured body, or a string body that is not JSON. Otherwise returns the list of
+ * schema violations (empty when the body conforms).
+ */
+export function validateResponseBody(
+  operation: NormalizedOperation,
+  statusCode: string,
+  responseBody: unknown
+): SchemaValidationError[] | null {
+  const schema = operation.responses[statusCode]?.schema;
+  if (!schema || responseBody === undefined) return null;
+
+  let body = responseBody;
+  if (typeof responseBody === 'string' && schema.type !== 'string') {
+    try {
+      body = JSON.parse(responseBody);
+    } catch {
+      log.warn(`Could not parse response body as JSON for ${operation.method}:${operation.pathTemplate} (status ${statusCode}) — skipping schema validation`);
+      return null;
+    }
+  }
+
+  return validateSchema(body, schema);
+}
+
+/**
+ * Validate a recorded request body against the operation's request body schema.
+ *
+ * Returns `null` when validation does not apply: no request body schema, no body sent,
+ * a body sent as a non-JSON media type such as `form` / `multipart` fields, which arrive
+ * as strings, or a string body that is not JSON (already reported by {@link analyzeBodyProperties}).
+ * Otherwise returns the list of schema violations (empty when the body conforms).
+ */
+export function validateRequestBody(
+  operation: NormalizedOperation,
+  requestBody: unknown,
+  contentType?: string
+): SchemaValidationError[] | null {
+  const schema = operation.requestBodySchema;
+  if (!schema || requestBody === undefined || requestBody === null) return null;
+  const mediaType = normalizeMediaType(contentType);
+  if (mediaType !== undefined && mediaType !== 'application/json' && !mediaType.endsWith('+json')) return null;
+
+  let body = requestBody;
+  if (typeof requestBody === 'string' && schema.type !== 'string') {
+    try {
+      body = JSON.parse(requestBody);
+    } catch {
+      return null;
+    }
+  }
+
+  return validateSchema(body, schema);
+}
+
+/**
+ * Analyze which request body properties were actually supplied. A property of array
+ * elements is covered when any element has it.
+ */
+export function analyzeBodyProperties(
+  operation: NormalizedOperation,
+  requestBody: unknown
+): BodyPropertyCoverage[] {
+  const schema = operation.requestBodySchema;
+  if (!schema) return [];
+
+  const props = collectProperties(schema, '', 0, 3);
+  if (props.size === 0) return [];
+
+  let body: object | null = null;
+  if (requestBody && typeof requestBody === 'object') {
+    body = requestBody;
+  } else if (typeof requestBody === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(requestBody);
+      if (parsed && typeof parsed === 'object') body = parsed;
+    } catch {
+      log.warn(`Could not parse request body as JSON for ${operation.method}:${operation.pathTemplate}`);
+    }
+  }
+
+  return Array.from(props.entries()).map(([name, required]) => ({
+    name,
+    required,
+    covered: body != null && hasNestedProperty(body, propertyPathSegments(name)),
+  }));
+}
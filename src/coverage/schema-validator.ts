@@ -0,0 +1,106 @@
+import type { NormalizedSchema, SchemaValidationError } from '../types.js';
+
+/** JSON type name of `value`, used in error messages. */
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'number':  return typeof value === 'number' && Number.isFinite(value);
+    case 'string':  return typeof value === 'string';
+    case 'boolean': return typeof value === 'boolean';
+    case 'array':   return Array.isArray(value);
+    case 'object':  return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null':    return value === null;
+    default:        return true;
+  }
+}
+
+function validateNode(
+  value: unknown,
+  schema: NormalizedSchema,
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  if (value === null) {
+    if (schema.nullable || schema.type === 'null') return;
+    if (schema.type) {
+      errors.push({ path, message: `expected ${schema.type}, got null` });
+      return;
+    }
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push({ path, message: `expected ${schema.type}, got ${jsonType(value)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.some((member) => member === value)) {
+    errors.push({ path, message: `expected one of ${schema.enum.map((m) => JSON.stringify(m)).join(', ')}` });
+  }
+
+  if (schema.allOf) {
+    for (const sub of schema.allOf) validateNode(value, sub, path, errors);
+  }
+
+  if (schema.anyOf) {
+    const passes = schema.anyOf.some((sub) => validateSchema(value, sub, path).length === 0);
+    if (!passes) errors.push({ path, message: 'does not match any schema in anyOf' });
+  }
+
+  if (schema.oneOf) {
+    const passing = schema.oneOf.filter((sub) => validateSchema(value, sub, path).length === 0).length;
+    if (passing !== 1) {
+      errors.push({ path, message: `matches ${passing} schemas in oneOf (expected exactly 1)` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, i) => validateNode(item, schema.items!, `${path}[${i}]`, errors));
+    }
+    return;
+  }
+
+  if (value === null || typeof value !== 'object') return;
+
+  const obj = value as Record<string, unknown>;
+  for (const name of schema.required ?? []) {
+    if (!Object.hasOwn(obj, name)) {
+      errors.push({ path: `${path}.${name}`, message: 'required property is missing' });
+    }
+  }
+
+  const declared = schema.properties ?? {};
+  for (const [name, propValue] of Object.entries(obj)) {
+    const propSchema = declared[name];
+    if (propSchema) {
+      validateNode(propValue, propSchema, `${path}.${name}`, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: `${path}.${name}`, message: 'property is not allowed (additionalProperties: false)' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      validateNode(propValue, schema.additionalProperties, `${path}.${name}`, errors);
+    }
+  }
+}
+
+/**
+ * Validate a value against a normalized schema.
+ *
+ * Supports the subset of JSON Schema that {@link NormalizedSchema} preserves: `type`,
+ * `nullable`, `enum`, `required`, `properties`, `additionalProperties`, `items` and the
+ * `allOf` / `anyOf` / `oneOf` combiners. Returns an empty array when the value conforms.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: NormalizedSchema,
+  path = '$'
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  validateNode(value, schema, path, errors);
+  return errors;
+}
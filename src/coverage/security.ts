@@ -0,0 +1,203 @@
+import type {
+  EndpointHit,
+  NormalizedOperation,
+  NormalizedSecurityScheme,
+  SecuritySchemeCoverage,
+  UnauthenticatedCoverage,
+} from '../types.js';
+import { documentedStatusKey } from './status-codes.js';
+
+/** Replacement written over credential values before a hit is attached to the report. */
+export const REDACTED = '[REDACTED]';
+
+/** Header and query parameter names that carry credentials, besides `Authorization` and `Cookie`. */
+const SENSITIVE_NAME = /api[-_]?key|token|secret|session|password|auth/i;
+
+/**
+ * Whether a header or query parameter carries a credential: its name looks like one, or it
+ * is one of `sensitiveNames`, e.g. the `apiKey` names a spec declares (case-insensitive).
+ */
+function isSensitive(name: string, sensitiveNames: string[]): boolean {
+  const lowerName = name.toLowerCase();
+  return SENSITIVE_NAME.test(name) || sensitiveNames.some((n) => n.toLowerCase() === lowerName);
+}
+
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const lowerName = name.toLowerCase();
+  return Object.entries(headers).find(([h]) => h.toLowerCase() === lowerName)?.[1];
+}
+
+/** Names of the cookies in a `Cookie` header value. */
+function cookieNames(cookieHeader: string | undefined): string[] {
+  if (!cookieHeader) return [];
+  return cookieHeader.split(';').map((pair) => pair.split('=')[0]!.trim()).filter(Boolean);
+}
+
+/**
+ * Redact credentials from recorded request headers while keeping what coverage needs:
+ * header names, the `Authorization` scheme (e.g. `Bearer [REDACTED]`) and cookie names.
+ * Headers named in `sensitiveNames` are redacted too.
+ */
+export function redactHeaders(headers: Record<string, string>, sensitiveNames: string[] = []): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => {
+      const lowerName = name.toLowerCase();
+      if (lowerName === 'authorization' || lowerName === 'proxy-authorization') {
+        const scheme = /^\S+(?=\s)/.exec(value.trim())?.[0];
+        return [name, scheme ? `${scheme} ${REDACTED}` : REDACTED];
+      }
+      if (lowerName === 'cookie') {
+        return [name, cookieNames(value).map((cookie) => `${cookie}=${REDACTED}`).join('; ')];
+      }
+      return [name, isSensitive(name, sensitiveNames) ? REDACTED : value];
+    })
+  );
+}
+
+/**
+ * Redact query parameters whose name suggests a credential, e.g. `api_key` or `access_token`,
+ * or that are named in `sensitiveNames`.
+ */
+export function redactQueryParams(params: Record<string, string>, sensitiveNames: string[] = []): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [name, isSensitive(name, sensitiveNames) ? REDACTED : value])
+  );
+}
+
+/**
+ * Redact credential query parameters from a recorded URL, the same way {@link redactQueryParams}
+ * does for the parsed parameters. URLs without such parameters, or that do not parse, are returned as is.
+ */
+export function redactUrl(url: string, sensitiveNames: string[] = []): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  const redacted = redactQueryParams(Object.fromEntries(parsed.searchParams), sensitiveNames);
+  const sensitive = Object.keys(redacted).filter((name) => redacted[name] === REDACTED);
+  if (sensitive.length === 0) return url;
+  for (const name of sensitive) parsed.searchParams.set(name, REDACTED);
+  return parsed.toString();
+}
+
+/**
+ * Header and query parameter names of the `apiKey` schemes the operations declare, e.g.
+ * `Ocp-Apim-Subscription-Key`, which the name pattern used while recording does not catch.
+ * Cookie schemes are left out: every cookie value is redacted anyway.
+ */
+export function apiKeyParamNames(operations: NormalizedOperation[]): string[] {
+  const names = new Set<string>();
+  for (const scheme of operations.flatMap((op) => (op.security ?? []).flat())) {
+    if (scheme.type === 'apiKey' && scheme.paramName && scheme.in !== 'cookie') names.add(scheme.paramName);
+  }
+  return [...names];
+}
+
+/** `hit` with the headers, query parameters and URL query named in `sensitiveNames` redacted. */
+export function redactHit(hit: EndpointHit, sensitiveNames: string[]): EndpointHit {
+  if (sensitiveNames.length === 0) return hit;
+  return {
+    ...hit,
+    url: redactUrl(hit.url, sensitiveNames),
+    ...(hit.queryParams && { queryParams: redactQueryParams(hit.queryParams, sensitiveNames) }),
+    ...(hit.headers && { headers: redactHeaders(hit.headers, sensitiveNames) }),
+  };
+}
+
+/**
+ * Read the OAuth scopes carried by a bearer JWT from its `scope` (space-separated) or
+ * `scp` claim. Returns `undefined` for opaque tokens. The signature is not verified —
+ * the scopes only feed coverage reporting.
+ */
+export function extractTokenScopes(authorization: string | undefined): string[] | undefined {
+  const match = /^bearer\s+[\w-]+\.([\w-]+)\.[\w-]*$/i.exec(authorization?.trim() ?? '');
+  if (!match) return undefined;
+  let claims: unknown;
+  try {
+    claims = JSON.parse(Buffer.from(match[1]!, 'base64url').toString('utf8'));
+  } catch {
+    // Three dot-separated segments but not a JWT — treat as an opaque token.
+    return undefined;
+  }
+  if (!claims || typeof claims !== 'object') return undefined;
+  const raw = (claims as Record<string, unknown>)['scope'] ?? (claims as Record<string, unknown>)['scp'];
+  if (typeof raw === 'string') return raw.split(' ').filter(Boolean);
+  if (Array.isArray(raw)) return raw.filter((s): s is string => typeof s === 'string');
+  return undefined;
+}
+
+type SecurityHit = Pick<EndpointHit, 'statusCode' | 'headers' | 'queryParams' | 'authScopes'>;
+
+/** Whether a recorded call presented credentials for a scheme. Always `false` for `mutualTLS`. */
+function presentsCredentials(scheme: NormalizedSecurityScheme, hit: SecurityHit): boolean {
+  const authScheme = findHeader(hit.headers, 'authorization')?.trim().split(/\s+/)[0]?.toLowerCase();
+  switch (scheme.type) {
+    case 'http':
+      return authScheme !== undefined && (!scheme.scheme || authScheme === scheme.scheme);
+    case 'oauth2':
+    case 'openIdConnect':
+      return authScheme === 'bearer';
+    case 'apiKey':
+      if (!scheme.paramName) return false;
+      if (scheme.in === 'header') return findHeader(hit.headers, scheme.paramName) !== undefined;
+      if (scheme.in === 'query') return hit.queryParams != null && scheme.paramName in hit.queryParams;
+      return cookieNames(findHeader(hit.headers, 'cookie')).includes(scheme.paramName);
+    case 'mutualTLS':
+      return false;
+  }
+}
+
+/** Whether the operation can only be called with credentials. */
+function requiresAuth(operation: NormalizedOperation): boolean {
+  const { security } = operation;
+  return security !== undefined && security.length > 0 && security.every((alt) => alt.length > 0);
+}
+
+/**
+ * Analyze which of an operation's declared security schemes a recorded API call exercised.
+ *
+ * Without a `hit` every scheme is returned uncovered (used to pre-seed coverage from the spec).
+ * `mutualTLS` schemes are skipped because client certificates are not visible to playswag.
+ * `unauthenticated` is only returned for operations that require authentication.
+ */
+export function analyzeSecurity(
+  operation: NormalizedOperation,
+  hit?: SecurityHit
+): { schemes: SecuritySchemeCoverage[]; unauthenticated?: UnauthenticatedCoverage } {
+  const byName = new Map<string, NormalizedSecurityScheme>();
+  for (const scheme of (operation.security ?? []).flat()) {
+    if (scheme.type === 'mutualTLS') continue;
+    const existing = byName.get(scheme.name);
+    if (existing) {
+      existing.scopes = [...new Set([...existing.scopes, ...scheme.scopes])];
+    } else {
+      byName.set(scheme.name, { ...scheme, scopes: [...scheme.scopes] });
+    }
+  }
+
+  const schemes = [...byName.values()].map((scheme): SecuritySchemeCoverage => {
+    const covered = hit !== undefined && presentsCredentials(scheme, hit);
+    const entry: SecuritySchemeCoverage = { name: scheme.name, type: scheme.type, covered };
+    if (scheme.scopes.length > 0) {
+      entry.scopes = scheme.scopes.map((name) => ({
+        name,
+        covered: covered && (hit?.authScopes ?? []).includes(name),
+      }));
+    }
+    return entry;
+  });
+
+  if (!requiresAuth(operation) || byName.size === 0) return { schemes };
+
+  const unauthenticated: UnauthenticatedCoverage = { statusCodes: [], rejected: false };
+  if (hit && !schemes.some((s) => s.covered)) {
+    const code = String(hit.statusCode);
+    unauthenticated.statusCodes.push(code);
+    unauthenticated.rejected = (code === '401' || code === '403')
+      && documentedStatusKey(Object.keys(operation.responses), code) !== undefined;
+  }
+  return { schemes, unauthenticated };
+}
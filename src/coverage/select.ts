@@ -0,0 +1,80 @@
+import type { CoverageResult, TestReference } from '../types.js';
+import type { SpecDiff } from './spec-diff.js';
+
+/** Result of {@link selectTests}. */
+export interface TestSelection {
+  /** Operations the selectors matched, as `METHOD /path`. */
+  operations: string[];
+  /** Selectors that matched no operation of the coverage result. */
+  unmatched: string[];
+  /** Tests that called a matched operation, sorted by id. */
+  tests: TestReference[];
+  /** Files of those tests, sorted. */
+  files: string[];
+}
+
+/** Compare paths ignoring path parameter names, so `/users/{userId}` selects `/users/{id}`. */
+function pathKey(path: string): string {
+  return path.replace(/\{[^}]+\}/g, '{}');
+}
+
+/**
+ * Select the tests impacted by a change of the given operations, using the tests each
+ * operation recorded in `result`. A selector is an `operationId`, `METHOD /path`, or a path
+ * selecting all its methods. Tests that called an operation but failed are selected too.
+ */
+export function selectTests(result: CoverageResult, selectors: string[]): TestSelection {
+  const details = new Map((result.tests ?? []).map((ref) => [ref.id, ref]));
+  const operations: string[] = [];
+  const unmatched: string[] = [];
+  const testIds = new Set<string>();
+
+  const all = [...result.operations, ...(result.deprecatedOperations ?? [])];
+  for (const selector of selectors) {
+    const [first = '', ...rest] = selector.trim().split(/\s+/);
+    const method = rest.length > 0 ? first.toUpperCase() : undefined;
+    const path = pathKey(rest.length > 0 ? rest.join(' ') : first);
+
+    const matched = all.filter((op) =>
+      op.operationId === selector.trim() ||
+      (pathKey(op.path) === path && (!method || op.method.toUpperCase() === method))
+    );
+    if (matched.length === 0) unmatched.push(selector);
+    for (const op of matched) {
+      const label = `${op.method.toUpperCase()} ${op.path}`;
+      if (!operations.includes(label)) operations.push(label);
+      for (const id of [...op.testRefs, ...op.failingTestRefs ?? []]) testIds.add(id);
+    }
+  }
+
+  const tests = [...testIds].sort((a, b) => a.localeCompare(b)).map((id): TestReference => {
+    const ref = details.get(id);
+    if (ref) return ref;
+    const [file = id, ...title] = id.split(' > ');
+    return { id, file, titlePath: [title.join(' > ')], projects: [] };
+  });
+  return { operations, unmatched, tests, files: [...new Set(tests.map((t) => t.file))].sort() };
+}
+
+/**
+ * Selectors for the operations touched by a spec diff, as `METHOD /path`. Removed
+ * operations are included: the tests still calling them are the ones that will break.
+ */
+export function specDiffSelectors(diff: SpecDiff): string[] {
+  return [...new Set(diff.changes.map((c) => `${c.method.toUpperCase()} ${c.path}`))];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A Playwright `--grep` pattern matching the selected tests. Playwright matches it against
+ * the describe titles and the test title joined with spaces, so each test is identified by
+ * its title path; tests sharing a title path in other files are selected as well.
+ * Returns an empty string when no test is selected.
+ */
+export function grepPattern(tests: TestReference[]): string {
+  const titles = [...new Set(tests.map((t) => t.titlePath.join(' ')))];
+  return titles.map(escapeRegExp).join('|');
+}
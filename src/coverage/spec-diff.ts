@@ -0,0 +1,254 @@
+import type {
+  CoverageResult,
+  NormalizedOperation,
+  NormalizedParameter,
+  NormalizedSchema,
+  NormalizedSpec,
+  OperationCoverage,
+} from '../types.js';
+import { collectProperties, propertyPathSegments } from './schema-analyzer.js';
+
+/** One difference between two versions of a spec. */
+export interface SpecChange {
+  kind: 'added' | 'removed' | 'changed';
+  /** The spec element that changed. */
+  element: 'operation' | 'parameter' | 'statusCode' | 'requestProperty' | 'responseProperty';
+  method: string;
+  /** Path template in the new spec (the old one for removed operations). */
+  path: string;
+  /**
+   * Parameter (`in:name`), status code, or dot-notation property path.
+   * Absent for operation-level changes.
+   */
+  name?: string;
+  /** Status code a response property belongs to. */
+  statusCode?: string;
+  /**
+   * What changed, e.g. `'became required'` or `'type changed from integer to string'`.
+   * For added parameters and request properties, `'required'` when they are required.
+   */
+  detail?: string;
+  /** Whether the change can break existing clients. */
+  breaking: boolean;
+  /**
+   * For added surface, when a coverage result was given: whether a recorded call exercised it.
+   * Absent for removed and changed entries.
+   */
+  covered?: boolean;
+}
+
+/** Result of {@link diffSpecs}. */
+export interface SpecDiff {
+  oldSources: string[];
+  newSources: string[];
+  changes: SpecChange[];
+}
+
+/** Match key for an operation; path parameter names are ignored so renaming `{id}` is not a change. */
+function operationKey(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path.replace(/\{[^}]+\}/g, '{}')}`;
+}
+
+function paramKey(param: NormalizedParameter): string {
+  // Header names are case-insensitive.
+  return `${param.in}:${param.in === 'header' ? param.name.toLowerCase() : param.name}`;
+}
+
+/** Short type label used to detect type changes, e.g. `integer` or `string[]`. */
+function typeLabel(schema: NormalizedSchema | undefined): string | undefined {
+  if (!schema?.type) return undefined;
+  return schema.type === 'array' && schema.items?.type ? `${schema.items.type}[]` : schema.type;
+}
+
+/**
+ * Resolve the schema of a property path split by `propertyPathSegments`, looking through
+ * `allOf` / `anyOf` / `oneOf`. A `[]` segment steps into the array's `items`.
+ */
+function propertySchema(schema: NormalizedSchema | undefined, path: string[]): NormalizedSchema | undefined {
+  if (!schema || path.length === 0) return schema;
+  const [head, ...rest] = path;
+  const direct = head === '[]' ? schema.items : schema.properties?.[head!];
+  if (direct) return propertySchema(direct, rest);
+  for (const sub of [...schema.allOf ?? [], ...schema.anyOf ?? [], ...schema.oneOf ?? []]) {
+    const found = propertySchema(sub, path);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function typeChange(before: NormalizedSchema | undefined, after: NormalizedSchema | undefined): string | undefined {
+  const from = typeLabel(before);
+  const to = typeLabel(after);
+  return from && to && from !== to ? `type changed from ${from} to ${to}` : undefined;
+}
+
+interface DiffContext {
+  method: string;
+  path: string;
+  changes: SpecChange[];
+  /** Coverage of the operation in the new spec; `null` when no coverage result was given. */
+  coverage: OperationCoverage | undefined | null;
+}
+
+/** Whether added surface was exercised, or `undefined` when no coverage result was given. */
+function coveredBy(ctx: DiffContext, check: (op: OperationCoverage) => boolean | undefined): boolean | undefined {
+  if (ctx.coverage === null) return undefined;
+  return ctx.coverage ? check(ctx.coverage) ?? false : false;
+}
+
+function diffParameters(before: NormalizedOperation, after: NormalizedOperation, ctx: DiffContext): void {
+  const { method, path, changes } = ctx;
+  const oldParams = new Map(before.parameters.map((p) => [paramKey(p), p]));
+  const newParams = new Map(after.parameters.map((p) => [paramKey(p), p]));
+
+  for (const [key, param] of newParams) {
+    const name = `${param.in}:${param.name}`;
+    const old = oldParams.get(key);
+    if (!old) {
+      changes.push({
+        kind: 'added', element: 'parameter', method, path, name,
+        ...(param.required && { detail: 'required' }),
+        breaking: param.required,
+        covered: coveredBy(ctx, (op) => op.parameters.find((p) => paramKey(p) === key)?.covered),
+      });
+      continue;
+    }
+    if (!old.required && param.required) {
+      changes.push({ kind: 'changed', element: 'parameter', method, path, name, detail: 'became required', breaking: true });
+    } else if (old.required && !param.required) {
+      changes.push({ kind: 'changed', element: 'parameter', method, path, name, detail: 'became optional', breaking: false });
+    }
+    const type = typeChange(old.schema, param.schema);
+    if (type) changes.push({ kind: 'changed', element: 'parameter', method, path, name, detail: type, breaking: true });
+  }
+
+  for (const [key, param] of oldParams) {
+    if (!newParams.has(key)) {
+      changes.push({ kind: 'removed', element: 'parameter', method, path, name: `${param.in}:${param.name}`, breaking: false });
+    }
+  }
+}
+
+/**
+ * Diff the properties of a request or response schema. A property that clients must now
+ * send, or may no longer receive, is breaking; the direction depends on `element`.
+ */
+function diffProperties(
+  before: NormalizedSchema | undefined,
+  after: NormalizedSchema | undefined,
+  element: 'requestProperty' | 'responseProperty',
+  ctx: DiffContext,
+  statusCode?: string
+): void {
+  const { method, path, changes } = ctx;
+  const isRequest = element === 'requestProperty';
+  const oldProps = collectProperties(before, '', 0, 3);
+  const newProps = collectProperties(after, '', 0, 3);
+  const at = { element, method, path, ...(statusCode !== undefined && { statusCode }) };
+
+  for (const [name, required] of newProps) {
+    if (!oldProps.has(name)) {
+      changes.push({
+        kind: 'added', ...at, name,
+        ...(isRequest && required && { detail: 'required' }),
+        breaking: isRequest && required,
+        covered: coveredBy(ctx, (op) => isRequest
+          ? op.bodyProperties.find((p) => p.name === name)?.covered
+          : op.responseProperties.find((p) => p.statusCode === statusCode && p.name === name)?.covered),
+      });
+      continue;
+    }
+    const wasRequired = oldProps.get(name)!;
+    if (wasRequired !== required) {
+      changes.push({
+        kind: 'changed', ...at, name,
+        detail: required ? 'became required' : 'became optional',
+        breaking: isRequest ? required : !required,
+      });
+    }
+    const segments = propertyPathSegments(name);
+    const type = typeChange(propertySchema(before, segments), propertySchema(after, segments));
+    if (type) changes.push({ kind: 'changed', ...at, name, detail: type, breaking: true });
+  }
+
+  for (const name of oldProps.keys()) {
+    if (!newProps.has(name)) changes.push({ kind: 'removed', ...at, name, breaking: !isRequest });
+  }
+}
+
+function diffOperation(before: NormalizedOperation, after: NormalizedOperation, ctx: DiffContext): void {
+  const { method, path, changes } = ctx;
+
+  if (!before.deprecated && after.deprecated) {
+    changes.push({ kind: 'changed', element: 'operation', method, path, detail: 'deprecated', breaking: false });
+  }
+
+  diffParameters(before, after, ctx);
+  diffProperties(before.requestBodySchema, after.requestBodySchema, 'requestProperty', ctx);
+
+  for (const [code, response] of Object.entries(after.responses)) {
+    const old = before.responses[code];
+    if (!old) {
+      changes.push({
+        kind: 'added', element: 'statusCode', method, path, name: code, breaking: false,
+        covered: coveredBy(ctx, (op) => op.statusCodes[code]?.covered),
+      });
+      continue;
+    }
+    diffProperties(old.schema, response.schema, 'responseProperty', ctx, code);
+  }
+  for (const code of Object.keys(before.responses)) {
+    if (!(code in after.responses)) {
+      changes.push({ kind: 'removed', element: 'statusCode', method, path, name: code, breaking: false });
+    }
+  }
+}
+
+/**
+ * Compare two versions of a spec: operations, parameters, status codes and request /
+ * response schema properties that were added, removed or changed, and whether each change
+ * can break existing clients.
+ *
+ * When `coverage` is given — typically the report of a run against the new spec — every
+ * added item is flagged with whether a test exercised it. Items missing from the report
+ * count as untested.
+ *
+ * @param oldSpec  - The spec before the change, as returned by `parseSpecs`.
+ * @param newSpec  - The spec after the change.
+ * @param coverage - Optional coverage result used to flag untested new surface.
+ */
+export function diffSpecs(oldSpec: NormalizedSpec, newSpec: NormalizedSpec, coverage?: CoverageResult): SpecDiff {
+  const oldOps = new Map(oldSpec.operations.map((op) => [operationKey(op.method, op.pathTemplate), op]));
+  const newOps = new Map(newSpec.operations.map((op) => [operationKey(op.method, op.pathTemplate), op]));
+  const coverageOps = coverage
+    ? new Map([...coverage.operations, ...coverage.uncoveredOperations].map((op) => [operationKey(op.method, op.path), op]))
+    : undefined;
+
+  const changes: SpecChange[] = [];
+
+  for (const [key, op] of newOps) {
+    const ctx: DiffContext = {
+      method: op.method.toUpperCase(),
+      path: op.pathTemplate,
+      changes,
+      coverage: coverageOps ? coverageOps.get(key) : null,
+    };
+    const before = oldOps.get(key);
+    if (before) {
+      diffOperation(before, op, ctx);
+    } else {
+      changes.push({
+        kind: 'added', element: 'operation', method: ctx.method, path: ctx.path, breaking: false,
+        covered: coveredBy(ctx, (c) => c.covered),
+      });
+    }
+  }
+
+  for (const [key, op] of oldOps) {
+    if (!newOps.has(key)) {
+      changes.push({ kind: 'removed', element: 'operation', method: op.method.toUpperCase(), path: op.pathTemplate, breaking: true });
+    }
+  }
+
+  return { oldSources: oldSpec.sources, newSources: newSpec.sources, changes };
+}
@@ -0,0 +1,38 @@
+import type { CoverageResult, UndocumentedStatusCode } from '../types.js';
+import type { ThresholdViolation } from '../output/console.js';
+
+/**
+ * The response key of `responses` that documents `statusCode`: the exact code, else its
+ * range (`4XX`, case-insensitive), else `default`. `undefined` when none does.
+ */
+export function documentedStatusKey(responses: Iterable<string>, statusCode: number | string): string | undefined {
+  const code = String(statusCode);
+  const keys = [...responses];
+  return keys.find((key) => key === code)
+    ?? keys.find((key) => key.toUpperCase() === `${code[0]}XX`)
+    ?? keys.find((key) => key === 'default');
+}
+
+/** An undocumented status code together with the operation that returned it. */
+export interface UndocumentedStatusCodeCall extends UndocumentedStatusCode {
+  method: string;
+  path: string;
+}
+
+/** Every undocumented status code of `result`, grouped by operation in report order. */
+export function findUndocumentedStatusCodes(result: CoverageResult): UndocumentedStatusCodeCall[] {
+  return [...result.operations, ...(result.deprecatedOperations ?? [])].flatMap((op) =>
+    (op.undocumentedStatusCodes ?? []).map((sc) => ({ method: op.method.toUpperCase(), path: op.path, ...sc }))
+  );
+}
+
+/**
+ * One failing violation listing the undocumented 5xx responses of `result`, for
+ * `failOnUndocumentedServerErrors`. Empty when there are none.
+ */
+export function checkUndocumentedServerErrors(result: CoverageResult): ThresholdViolation[] {
+  const errors = findUndocumentedStatusCodes(result).filter((sc) => sc.statusCode.startsWith('5'));
+  if (errors.length === 0) return [];
+  const list = errors.map((sc) => `${sc.method} ${sc.path} ${sc.statusCode}`).join(', ');
+  return [{ message: `${errors.length} undocumented 5xx response(s): ${list}`, fail: true }];
+}
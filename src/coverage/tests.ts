@@ -0,0 +1,155 @@
+import type { CoverageResult, EndpointHit, HitTestCase, OperationCoverage, TestOutcome, TestReference } from '../types.js';
+
+/** The test that recorded `hit`, as `file > title`. */
+export function testRef(hit: EndpointHit): string {
+  return `${hit.testFile} > ${hit.testTitle}`;
+}
+
+const OUTCOME_SEVERITY: Record<TestOutcome, number> = { skipped: 0, expected: 1, flaky: 2, unexpected: 3 };
+
+/** The worse of two outcomes: `unexpected`, then `flaky`, `expected` and `skipped`. */
+export function worseOutcome(a: TestOutcome | undefined, b: TestOutcome | undefined): TestOutcome | undefined {
+  if (!a || !b) return a ?? b;
+  return OUTCOME_SEVERITY[b] > OUTCOME_SEVERITY[a] ? b : a;
+}
+
+/**
+ * One {@link TestReference} per test that recorded a hit, sorted by id. The outcome is
+ * taken from the last attempt of each project. Returns `undefined` when no hit carries
+ * `testCase` details.
+ */
+export function collectTestReferences(hits: EndpointHit[]): TestReference[] | undefined {
+  if (!hits.some((hit) => hit.testCase)) return undefined;
+
+  const refs = new Map<string, TestReference>();
+  // Last attempt per test and project, so a retry that passed replaces the failed one
+  const lastAttempts = new Map<string, Map<string, HitTestCase>>();
+
+  for (const hit of hits) {
+    const id = testRef(hit);
+    let ref = refs.get(id);
+    if (!ref) {
+      ref = { id, file: hit.testFile, titlePath: hit.testCase?.titlePath ?? [hit.testTitle], projects: [] };
+      refs.set(id, ref);
+    }
+    if (hit.projectName && !ref.projects.includes(hit.projectName)) ref.projects.push(hit.projectName);
+    if (!hit.testCase) continue;
+
+    ref.line = hit.testCase.line;
+    ref.titlePath = hit.testCase.titlePath;
+    const attempts = lastAttempts.get(id) ?? new Map<string, HitTestCase>();
+    const project = hit.projectName ?? '';
+    const previous = attempts.get(project);
+    if (!previous || hit.testCase.retry >= previous.retry) attempts.set(project, hit.testCase);
+    lastAttempts.set(id, attempts);
+  }
+
+  for (const [id, attempts] of lastAttempts) {
+    let outcome: TestOutcome | undefined;
+    for (const attempt of attempts.values()) outcome = worseOutcome(outcome, attempt.outcome);
+    refs.get(id)!.outcome = outcome;
+  }
+
+  return [...refs.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Split hits into those that count towards coverage and those recorded by failing tests.
+ * Only the last attempt of each test per project is kept, so hits of attempts that were
+ * retried are dropped, as are hits of skipped tests. With `countFailedTests`, hits of a
+ * failing last attempt count too and nothing is set apart. Hits without `testCase` details,
+ * e.g. from HAR files, always count.
+ */
+export function splitFailedTestHits(
+  hits: EndpointHit[],
+  countFailedTests = false
+): [counted: EndpointHit[], failing: EndpointHit[]] {
+  const attemptKey = (hit: EndpointHit) => `${hit.projectName ?? ''}\0${testRef(hit)}`;
+  const lastRetry = new Map<string, number>();
+  for (const hit of hits) {
+    if (!hit.testCase) continue;
+    const key = attemptKey(hit);
+    lastRetry.set(key, Math.max(lastRetry.get(key) ?? 0, hit.testCase.retry));
+  }
+
+  const counted: EndpointHit[] = [];
+  const failing: EndpointHit[] = [];
+  for (const hit of hits) {
+    if (!hit.testCase) {
+      counted.push(hit);
+    } else if (hit.testCase.retry === lastRetry.get(attemptKey(hit))) {
+      if (hit.testCase.outcome === 'unexpected' && !countFailedTests) failing.push(hit);
+      else if (hit.testCase.outcome !== 'skipped') counted.push(hit);
+    }
+  }
+  return [counted, failing];
+}
+
+/** Whether no passing test called `op`, but at least one failing test did. */
+export function isCoveredOnlyByFailingTests(op: OperationCoverage): boolean {
+  return !op.covered && (op.failingTestRefs?.length ?? 0) > 0;
+}
+
+/** A test and the operations and status codes it covers. See {@link buildTestIndex}. */
+export interface TestIndexEntry extends TestReference {
+  /** Operations the test called, as `METHOD /path`. */
+  operations: string[];
+  /** Status codes the test exercised, as `METHOD /path code`. */
+  statusCodes: string[];
+  /** Operations no other test called. */
+  uniqueOperations: string[];
+  /** Status codes no other test exercised. */
+  uniqueStatusCodes: string[];
+}
+
+/**
+ * Reverse index of `result`: for every test, the operations and status codes it covers and
+ * which of them no other test covers. A test with neither unique operations nor unique
+ * status codes can be deleted without losing endpoint or status code coverage.
+ *
+ * Tests come from `result.tests` and, for reports without test details, from the `testRefs`
+ * of the operations. Entries are sorted by id.
+ */
+export function buildTestIndex(result: CoverageResult): TestIndexEntry[] {
+  const entries = new Map<string, TestIndexEntry>();
+  const entry = (id: string): TestIndexEntry => {
+    let e = entries.get(id);
+    if (!e) {
+      const [file = id, ...title] = id.split(' > ');
+      e = {
+        id,
+        file,
+        titlePath: [title.join(' > ')],
+        projects: [],
+        operations: [],
+        statusCodes: [],
+        uniqueOperations: [],
+        uniqueStatusCodes: [],
+      };
+      entries.set(id, e);
+    }
+    return e;
+  };
+
+  for (const ref of result.tests ?? []) {
+    entries.set(ref.id, { ...ref, operations: [], statusCodes: [], uniqueOperations: [], uniqueStatusCodes: [] });
+  }
+
+  for (const op of result.operations) {
+    const label = `${op.method.toUpperCase()} ${op.path}`;
+    for (const id of op.testRefs) {
+      const e = entry(id);
+      e.operations.push(label);
+      if (op.testRefs.length === 1) e.uniqueOperations.push(label);
+    }
+    for (const [code, sc] of Object.entries(op.statusCodes)) {
+      for (const id of sc.testRefs) {
+        const e = entry(id);
+        e.statusCodes.push(`${label} ${code}`);
+        if (sc.testRefs.length === 1) e.uniqueStatusCodes.push(`${label} ${code}`);
+      }
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
@@ -0,0 +1,57 @@
+import picomatch from 'picomatch';
+import type { EndpointHit, NormalizedSpec, PlayswagConfig } from './types.js';
+
+/**
+ * Keep the spec operations selected by `includeTags` / `excludeTags` (picomatch globs).
+ * Operations without tags are dropped when `includeTags` is set.
+ */
+export function filterOperationsByTags(
+  spec: NormalizedSpec,
+  { includeTags, excludeTags }: Pick<PlayswagConfig, 'includeTags' | 'excludeTags'>
+): NormalizedSpec {
+  if (!includeTags?.length && !excludeTags?.length) return spec;
+
+  const operations = spec.operations.filter((op) => {
+    const tags = op.tags ?? [];
+    if (includeTags?.length) {
+      const included = tags.some((t) => includeTags.some((p) => picomatch.isMatch(t, p)));
+      if (!included) return false;
+    }
+    if (excludeTags?.length) {
+      const excluded = tags.some((t) => excludeTags.some((p) => picomatch.isMatch(t, p)));
+      if (excluded) return false;
+    }
+    return true;
+  });
+
+  return { ...spec, operations };
+}
+
+/** Keep the hits whose URL path is selected by `includePatterns` / `excludePatterns` (picomatch globs). */
+export function filterHitsByPath(
+  hits: EndpointHit[],
+  { includePatterns, excludePatterns }: Pick<PlayswagConfig, 'includePatterns' | 'excludePatterns'>
+): EndpointHit[] {
+  if (!includePatterns?.length && !excludePatterns?.length) return hits;
+
+  return hits.filter((hit) => {
+    let path: string;
+    try {
+      path = new URL(hit.url).pathname;
+    } catch {
+      path = hit.url;
+    }
+
+    if (includePatterns?.length) {
+      const included = includePatterns.some((p) => picomatch.isMatch(path, p));
+      if (!included) return false;
+    }
+
+    if (excludePatterns?.length) {
+      const excluded = excludePatterns.some((p) => picomatch.isMatch(path, p));
+      if (excluded) return false;
+    }
+
+    return true;
+  });
+}
@@ -4,11 +4,16 @@ import {
   defineConfig as baseDefineConfig,
   type APIRequestContext,
   type APIResponse,
+  type BrowserContext,
+  type Response,
   type TestInfo,
   type PlaywrightTestConfig,
 } from '@playwright/test';
 import type { AcknowledgedService, EndpointHit, PlayswagFixtureOptions } from './types.js';
 import { ATTACHMENT_NAME } from './constants.js';
+import { inferRequestContentType, normalizeMediaType } from './coverage/media-types.js';
+import { extractTokenScopes, redactHeaders, redactQueryParams, redactUrl } from './coverage/security.js';
+import { buildPageHit } from './page-tracker.js';
 
 export { expect };
 export { ATTACHMENT_NAME } from './constants.js';
@@ -36,15 +41,27 @@ export function defineConfig<T = {}, W = {}>(
 const INTERCEPTED_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'fetch'] as const;
 type HttpMethod = (typeof INTERCEPTED_METHODS)[number];
 
+/** Options for {@link PlayswagFixtures.trackRequest}. */
+export interface TrackRequestOptions {
+  /**
+   * Headers the context sends on every request, e.g. the `extraHTTPHeaders` it was created
+   * with. Playwright does not expose them on the context, so pass them here to have
+   * authentication and header parameters recorded. Per-request headers take precedence.
+   */
+  headers?: Record<string, string>;
+}
+
 /**
  * Build a Proxy around an APIRequestContext that records every HTTP call.
  * Generic so the original type (e.g. a CustomAPIRequest subtype) is preserved.
+ * Credentials in headers, cookies and query parameters are redacted before recording.
  */
-function buildTrackedRequest<T extends APIRequestContext>(
+export function buildTrackedRequest<T extends APIRequestContext>(
   original: T,
   hits: EndpointHit[],
   testInfo: TestInfo,
-  captureResponseBody = true
+  captureResponseBody = true,
+  defaultHeaders: Record<string, string> = {}
 ): T {
   return new Proxy(original, {
     get(target, prop, receiver) {
@@ -94,8 +111,20 @@ function buildTrackedRequest<T extends APIRequestContext>(
             Object.entries(rawHeaders as Record<string, string>).map(([k, v]) => [k, String(v)])
           );
         }
+        if (Object.keys(defaultHeaders).length > 0) {
+          // Drop defaults overridden per request under a different casing.
+          const overridden = new Set(Object.keys(headers ?? {}).map((h) => h.toLowerCase()));
+          const defaults = Object.entries(defaultHeaders).filter(([h]) => !overridden.has(h.toLowerCase()));
+          headers = { ...Object.fromEntries(defaults), ...headers };
+        }
+        const authorization = headers
+          ? Object.entries(headers).find(([h]) => h.toLowerCase() === 'authorization')?.[1]
+          : undefined;
+        const authScopes = extractTokenScopes(authorization);
 
         const requestBody = options?.['data'] ?? options?.['form'] ?? options?.['multipart'] ?? undefined;
+        const requestContentType = inferRequestContentType(options, headers);
+        const responseContentType = normalizeMediaType(response.headers()['content-type']);
 
         // Capture the response body JSON for response coverage (opt-out via captureResponseBody: false).
         // We use response.body() + JSON.parse rather than response.json() because Playwright's
@@ -115,12 +144,15 @@ function buildTrackedRequest<T extends APIRequestContext>(
 
         hits.push({
           method: httpMethod,
-          url: response.url(),
+          url: redactUrl(response.url()),
           statusCode: response.status(),
           requestBody,
           responseBody,
-          queryParams,
-          headers,
+          requestContentType,
+          responseContentType,
+          authScopes,
+          queryParams: queryParams && redactQueryParams(queryParams),
+          headers: headers && redactHeaders(headers),
           testFile: testInfo.titlePath[0] ?? '',
           testTitle: testInfo.title,
         });
@@ -137,6 +169,8 @@ type PlayswagOptions = {
   playswagEnabled: boolean;
   /** Set to false to opt out of response body capture (e.g. for large binary responses). @default true */
   captureResponseBody: boolean;
+  /** Set to true to record fetch/XHR calls made by pages in the test's browser context. @default false */
+  playswagTrackPage: boolean;
   /** Per-project OpenAPI/Swagger spec path(s) that override the reporter-level `specs`. */
   playswagSpecs: string | string[] | undefined;
   /** Per-project base URL that overrides `baseURL` when stripping URL prefixes during matching. */
@@ -160,7 +194,7 @@ type PlayswagOptions = {
  * },
  */
 export type PlayswagFixtures = {
-  trackRequest: <T extends APIRequestContext>(ctx: T) => T;
+  trackRequest: <T extends APIRequestContext>(ctx: T, options?: TrackRequestOptions) => T;
 };
 
 /**
@@ -177,19 +211,23 @@ export type PlayswagFixtures = {
  * `request.newContext()`), use the `trackRequest` fixture to wrap them:
  *   myContext: async ({ trackRequest }, use) => { use(trackRequest(raw)); }
  *
+ * To also record the fetch/XHR calls made by pages during UI tests:
+ *   test.use({ playswagTrackPage: true });
+ *
  * Disable tracking per-project or per-file with:
  *   test.use({ playswagEnabled: false });
  */
 export const test = base.extend<PlayswagOptions & PlayswagFixtures>({
   playswagEnabled: [true, { option: true }],
   captureResponseBody: [true, { option: true }],
+  playswagTrackPage: [false, { option: true }],
   playswagSpecs: [undefined, { option: true }],
   playswagBaseURL: [undefined, { option: true }],
   playswagAcknowledgedServices: [undefined, { option: true }],
 
   trackRequest: async (
     { playswagEnabled, captureResponseBody }: { playswagEnabled: boolean; captureResponseBody: boolean },
-    use: (fn: <T extends APIRequestContext>(ctx: T) => T) => Promise<void>,
+    use: (fn: <T extends APIRequestContext>(ctx: T, options?: TrackRequestOptions) => T) => Promise<void>,
     testInfo: TestInfo
   ) => {
     if (!playswagEnabled) {
@@ -198,7 +236,8 @@ export const test = base.extend<PlayswagOptions & PlayswagFixtures>({
     }
 
     const hits: EndpointHit[] = [];
-    await use(<T extends APIRequestContext>(ctx: T) => buildTrackedRequest(ctx, hits, testInfo, captureResponseBody));
+    await use(<T extends APIRequestContext>(ctx: T, options?: TrackRequestOptions) =>
+      buildTrackedRequest(ctx, hits, testInfo, captureResponseBody, options?.headers));
 
     if (hits.length > 0) {
       await testInfo.attach(ATTACHMENT_NAME, {
@@ -209,9 +248,54 @@ export const test = base.extend<PlayswagOptions & PlayswagFixtures>({
   },
 
   request: async (
-    { request, trackRequest }: { request: APIRequestContext; trackRequest: <T extends APIRequestContext>(ctx: T) => T },
+    { request, trackRequest, extraHTTPHeaders }: {
+      request: APIRequestContext;
+      trackRequest: <T extends APIRequestContext>(ctx: T, options?: TrackRequestOptions) => T;
+      extraHTTPHeaders: Record<string, string> | undefined;
+    },
     use: (r: APIRequestContext) => Promise<void>
   ) => {
-    await use(trackRequest(request));
+    // The built-in `request` fixture is created with the `extraHTTPHeaders` test option.
+    await use(trackRequest(request, { headers: extraHTTPHeaders }));
+  },
+
+  context: async (
+    { context, playswagEnabled, playswagTrackPage, captureResponseBody }: {
+      context: BrowserContext;
+      playswagEnabled: boolean;
+      playswagTrackPage: boolean;
+      captureResponseBody: boolean;
+    },
+    use: (c: BrowserContext) => Promise<void>,
+    testInfo: TestInfo
+  ) => {
+    if (!playswagEnabled || !playswagTrackPage) {
+      await use(context);
+      return;
+    }
+
+    // Listening on the context (rather than `page`) also covers popups and extra pages.
+    const hits: EndpointHit[] = [];
+    const pending = new Set<Promise<void>>();
+    const onResponse = (response: Response): void => {
+      const recorded = buildPageHit(response, testInfo, captureResponseBody)
+        .then((hit) => { if (hit) hits.push(hit); })
+        // A call the closing page cut short is dropped rather than left as an unhandled rejection
+        .catch(() => undefined)
+        .finally(() => pending.delete(recorded));
+      pending.add(recorded);
+    };
+    context.on('response', onResponse);
+
+    await use(context);
+
+    context.off('response', onResponse);
+    await Promise.allSettled(pending);
+    if (hits.length > 0) {
+      await testInfo.attach(ATTACHMENT_NAME, {
+        body: Buffer.from(JSON.stringify(hits), 'utf8'),
+        contentType: 'application/json',
+      });
+    }
   },
 });
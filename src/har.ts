@@ -0,0 +1,165 @@
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import type { AcknowledgedService, CoverageResult, DeprecatedOperationsPolicy, EndpointHit, PlayswagConfig } from './types.js';
+import { parseSpecs } from './openapi/parser.js';
+import { calculateCoverage } from './coverage/calculator.js';
+import { normalizeMediaType } from './coverage/media-types.js';
+import { filterHitsByPath, filterOperationsByTags } from './filters.js';
+import { extractTokenScopes, redactHeaders, redactQueryParams, redactUrl } from './coverage/security.js';
+
+/** The subset of the HAR 1.2 format playswag reads. */
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  pageref?: string;
+  /** Set by Chromium DevTools exports, e.g. `fetch`, `xhr`, `document`, `image`. */
+  _resourceType?: string;
+  request: {
+    method: string;
+    url: string;
+    headers?: HarNameValue[];
+    queryString?: HarNameValue[];
+    postData?: { mimeType?: string; text?: string; params?: HarNameValue[] };
+  };
+  response: {
+    status: number;
+    headers?: HarNameValue[];
+    content?: { mimeType?: string; text?: string; encoding?: string };
+  };
+}
+
+interface HarLog {
+  pages?: Array<{ id: string; title?: string }>;
+  entries: HarEntry[];
+}
+
+/**
+ * Resource types that are API calls. Entries with another `_resourceType` (documents,
+ * scripts, images, …) are page assets and skipped; entries without one are all kept.
+ */
+const API_RESOURCE_TYPES = new Set(['fetch', 'xhr']);
+
+function toRecord(pairs: HarNameValue[] | undefined): Record<string, string> | undefined {
+  // HTTP/2 pseudo-headers such as `:authority` are not request headers in the OpenAPI sense.
+  const entries = (pairs ?? []).filter((p) => !p.name.startsWith(':')).map((p) => [p.name, p.value]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  return headers ? Object.entries(headers).find(([h]) => h.toLowerCase() === name)?.[1] : undefined;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Not JSON — the caller decides whether to keep the raw text.
+    return undefined;
+  }
+}
+
+function requestBody(postData: HarEntry['request']['postData']): unknown {
+  if (!postData) return undefined;
+  if (postData.params && postData.params.length > 0) {
+    return Object.fromEntries(postData.params.map((p) => [p.name, p.value]));
+  }
+  if (postData.text === undefined || postData.text === '') return undefined;
+  return parseJson(postData.text) ?? postData.text;
+}
+
+function responseBody(content: HarEntry['response']['content']): unknown {
+  if (!content?.text) return undefined;
+  const text = content.encoding === 'base64' ? Buffer.from(content.text, 'base64').toString('utf8') : content.text;
+  return parseJson(text);
+}
+
+function isHarLog(value: unknown): value is { log: HarLog } {
+  const log = (value as { log?: { entries?: unknown } } | null)?.log;
+  return Array.isArray(log?.entries);
+}
+
+/**
+ * Convert the entries of a parsed HAR file into endpoint hits.
+ *
+ * Each hit is attributed to the HAR page it belongs to (its title), or to `source`
+ * when the entry has no page. Aborted requests (status 0) and page assets are skipped,
+ * and credentials are redacted the same way as hits recorded by the fixture.
+ *
+ * @param har    - Parsed HAR JSON (`{ log: { entries: [...] } }`).
+ * @param source - Label used as the hit's `testFile`, typically the HAR file name.
+ * @throws {Error} If `har` is not a HAR document.
+ */
+export function harToHits(har: unknown, source = 'har'): EndpointHit[] {
+  if (!isHarLog(har)) {
+    throw new Error(`[playswag] ${source} is not a HAR file (missing log.entries)`);
+  }
+
+  const pageTitles = new Map((har.log.pages ?? []).map((p) => [p.id, p.title ?? p.id]));
+  const hits: EndpointHit[] = [];
+
+  for (const entry of har.log.entries) {
+    if (entry._resourceType && !API_RESOURCE_TYPES.has(entry._resourceType)) continue;
+    if (!entry.response.status) continue;
+
+    const headers = toRecord(entry.request.headers);
+    let queryParams = toRecord(entry.request.queryString);
+    if (!queryParams) {
+      try {
+        const fromUrl: Record<string, string> = {};
+        new URL(entry.request.url).searchParams.forEach((value, key) => { fromUrl[key] = value; });
+        if (Object.keys(fromUrl).length > 0) queryParams = fromUrl;
+      } catch {
+        // Invalid URL — skip URL param extraction
+      }
+    }
+
+    hits.push({
+      method: entry.request.method.toUpperCase(),
+      url: redactUrl(entry.request.url),
+      statusCode: entry.response.status,
+      requestBody: requestBody(entry.request.postData),
+      responseBody: responseBody(entry.response.content),
+      requestContentType: normalizeMediaType(entry.request.postData?.mimeType ?? findHeader(headers, 'content-type')),
+      responseContentType: normalizeMediaType(entry.response.content?.mimeType),
+      authScopes: extractTokenScopes(findHeader(headers, 'authorization')),
+      queryParams: queryParams && redactQueryParams(queryParams),
+      headers: headers && redactHeaders(headers),
+      testFile: source,
+      testTitle: pageTitles.get(entry.pageref ?? '') ?? source,
+    });
+  }
+
+  return hits;
+}
+
+/**
+ * Compute coverage from HAR recordings instead of a Playwright run — e.g. files written
+ * by Playwright's `recordHar` or exported from browser DevTools after an exploratory session.
+ *
+ * @param specs    - OpenAPI/Swagger spec path(s) or URL(s), as accepted by `parseSpecs`.
+ * @param harFiles - Paths of the HAR files to read.
+ * @param options  - Matching options forwarded to `calculateCoverage`, and the tag and path
+ *                   filters applied to the spec operations and recorded calls as in a test run.
+ */
+export async function calculateHarCoverage(
+  specs: string | string[],
+  harFiles: string[],
+  options: {
+    baseURL?: string;
+    requiredParamsOnly?: boolean;
+    acknowledgedServices?: AcknowledgedService[];
+    deprecatedOperations?: DeprecatedOperationsPolicy;
+    countDefaultResponses?: boolean;
+  } & Pick<PlayswagConfig, 'includeTags' | 'excludeTags' | 'includePatterns' | 'excludePatterns'> = {}
+): Promise<CoverageResult> {
+  const hits: EndpointHit[] = [];
+  for (const file of harFiles) {
+    const har = JSON.parse(await readFile(file, 'utf8')) as unknown;
+    hits.push(...harToHits(har, basename(file)));
+  }
+  const spec = filterOperationsByTags(await parseSpecs(specs), options);
+  return calculateCoverage(filterHitsByPath(hits, options), spec, options);
+}
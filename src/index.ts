@@ -62,11 +62,29 @@
  * ```
  */
 export { test, expect, ATTACHMENT_NAME, defineConfig } from './fixture.js';
-export type { PlayswagFixtures } from './fixture.js';
+export type { PlayswagFixtures, TrackRequestOptions } from './fixture.js';
 
 export { mergeCoverageResults } from './merge.js';
 export { calculateCoverage } from './coverage/calculator.js';
 export { parseSpecs } from './openapi/parser.js';
+export { harToHits, calculateHarCoverage } from './har.js';
+export { diffSpecs } from './coverage/spec-diff.js';
+export { generateSpecDiffMarkdown } from './output/spec-diff.js';
+export type { SpecDiff, SpecChange } from './coverage/spec-diff.js';
+export { diffCoverageResults } from './coverage/coverage-diff.js';
+export { generateCoverageDiffMarkdown } from './output/coverage-diff.js';
+export type { CoverageDiff, CoverageItemChange } from './coverage/coverage-diff.js';
+export { findDeprecatedCalls } from './coverage/deprecated.js';
+export type { DeprecatedCall } from './coverage/deprecated.js';
+export { findUndocumentedStatusCodes } from './coverage/status-codes.js';
+export type { UndocumentedStatusCodeCall } from './coverage/status-codes.js';
+export { buildTestIndex } from './coverage/tests.js';
+export type { TestIndexEntry } from './coverage/tests.js';
+export { analyzeRedundancy } from './coverage/redundancy.js';
+export type { RedundancyAnalysis, RedundancyEntry, MinimalTestEntry } from './coverage/redundancy.js';
+export { selectTests, specDiffSelectors, grepPattern } from './coverage/select.js';
+export { inferSpec } from './openapi/infer.js';
+export type { TestSelection } from './coverage/select.js';
 
 export type {
   PlayswagConfiguration,
@@ -75,16 +93,37 @@ export type {
   CoverageResult,
   OperationCoverage,
   EndpointHit,
+  HitTestCase,
+  TestOutcome,
+  TestReference,
   CoverageSummary,
   CoverageSummaryItem,
   StatusCodeCoverage,
   ParamCoverage,
   BodyPropertyCoverage,
   ResponsePropertyCoverage,
+  ResponseConformanceCoverage,
+  ResponseSchemaViolation,
+  UndocumentedResponseProperty,
+  UndocumentedStatusCode,
+  InvalidRequestBody,
+  EnumValue,
+  EnumValueCoverage,
+  MediaTypeCoverage,
+  SecuritySchemeCoverage,
+  UnauthenticatedCoverage,
+  SchemaValidationError,
   ThresholdConfig,
+  DimensionThresholds,
   ThresholdEntry,
+  RatchetConfig,
+  ItemBaselineConfig,
   ConsoleOutputConfig,
   JsonOutputConfig,
+  HitsOutputConfig,
+  TestsOutputConfig,
+  RedundancyOutputConfig,
+  InferredSpecOutputConfig,
   HtmlOutputConfig,
   BadgeConfig,
   HistoryConfig,
@@ -93,7 +132,11 @@ export type {
   GitHubActionsOutputConfig,
   AcknowledgedService,
   AcknowledgedServiceHits,
+  DeprecatedOperationsPolicy,
   NormalizedSpec,
 } from './types.js';
 
 export type { HistoryEntry, CoverageDelta } from './output/history.js';
+export type { ItemBaseline } from './output/item-baseline.js';
+export type { TestIndexReport } from './output/tests.js';
+export type { RedundancyReport } from './output/redundancy.js';
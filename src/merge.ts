@@ -7,9 +7,21 @@ import type {
   ParamCoverage,
   BodyPropertyCoverage,
   ResponsePropertyCoverage,
+  ResponseConformanceCoverage,
+  ResponseSchemaViolation,
+  InvalidRequestBody,
+  EnumValueCoverage,
+  MediaTypeCoverage,
+  SecuritySchemeCoverage,
+  UnauthenticatedCoverage,
+  UndocumentedResponseProperty,
+  UndocumentedStatusCode,
   AcknowledgedServiceHits,
   EndpointHit,
+  TestReference,
 } from './types.js';
+import { splitDeprecated } from './coverage/deprecated.js';
+import { worseOutcome } from './coverage/tests.js';
 
 function makeItem(total: number, covered: number): CoverageSummaryItem {
   return { total, covered, percentage: total === 0 ? 100 : Math.round((covered / total) * 10000) / 100 };
@@ -84,6 +96,125 @@ function mergeResponseProps(a: ResponsePropertyCoverage[], b: ResponsePropertyCo
   return [...map.values()];
 }
 
+function mergeConformance(
+  a: ResponseConformanceCoverage[],
+  b: ResponseConformanceCoverage[]
+): ResponseConformanceCoverage[] {
+  const map = new Map<string, ResponseConformanceCoverage>();
+  for (const c of a) map.set(c.statusCode, { ...c });
+  for (const c of b) {
+    const existing = map.get(c.statusCode);
+    if (existing) {
+      existing.validated += c.validated;
+      existing.conforming = existing.conforming && c.conforming;
+    } else {
+      map.set(c.statusCode, { ...c });
+    }
+  }
+  return [...map.values()];
+}
+
+function mergeViolations<T extends ResponseSchemaViolation | InvalidRequestBody>(a: T[], b: T[]): T[] {
+  const map = new Map<string, T>();
+  for (const v of [...a, ...b]) {
+    const key = `${v.statusCode}:${v.testRef}`;
+    if (!map.has(key)) map.set(key, structuredClone(v));
+  }
+  return [...map.values()];
+}
+
+function mergeUndocumented(
+  a: UndocumentedResponseProperty[] | undefined,
+  b: UndocumentedResponseProperty[] | undefined
+): UndocumentedResponseProperty[] | undefined {
+  if (!a || !b) return a ?? b;
+  const map = new Map<string, UndocumentedResponseProperty>();
+  for (const u of [...a, ...b]) {
+    const key = `${u.statusCode}:${u.name}`;
+    const existing = map.get(key);
+    if (existing) existing.testRefs = [...new Set([...existing.testRefs, ...u.testRefs])];
+    else map.set(key, { ...u, testRefs: [...u.testRefs] });
+  }
+  return [...map.values()];
+}
+
+function mergeUndocumentedStatusCodes(
+  a: UndocumentedStatusCode[] | undefined,
+  b: UndocumentedStatusCode[] | undefined
+): UndocumentedStatusCode[] | undefined {
+  if (!a || !b) return a ?? b;
+  const map = new Map<string, UndocumentedStatusCode>();
+  for (const u of [...a, ...b]) {
+    const existing = map.get(u.statusCode);
+    if (existing) existing.testRefs = [...new Set([...existing.testRefs, ...u.testRefs])];
+    else map.set(u.statusCode, { ...u, testRefs: [...u.testRefs] });
+  }
+  return [...map.values()];
+}
+
+function mergeEnumValues(a: EnumValueCoverage[], b: EnumValueCoverage[]): EnumValueCoverage[] {
+  const key = (e: EnumValueCoverage) => `${e.in}:${e.statusCode ?? ''}:${e.name}:${JSON.stringify(e.value)}`;
+  const map = new Map<string, EnumValueCoverage>();
+  for (const e of a) map.set(key(e), { ...e });
+  for (const e of b) {
+    const existing = map.get(key(e));
+    if (existing) {
+      existing.covered = existing.covered || e.covered;
+    } else {
+      map.set(key(e), { ...e });
+    }
+  }
+  return [...map.values()];
+}
+
+function mergeMediaTypes(a: MediaTypeCoverage[], b: MediaTypeCoverage[]): MediaTypeCoverage[] {
+  const key = (m: MediaTypeCoverage) => `${m.direction}:${m.statusCode ?? ''}:${m.mediaType}`;
+  const map = new Map<string, MediaTypeCoverage>();
+  for (const m of a) map.set(key(m), { ...m });
+  for (const m of b) {
+    const existing = map.get(key(m));
+    if (existing) {
+      existing.covered = existing.covered || m.covered;
+    } else {
+      map.set(key(m), { ...m });
+    }
+  }
+  return [...map.values()];
+}
+
+function mergeSecuritySchemes(a: SecuritySchemeCoverage[], b: SecuritySchemeCoverage[]): SecuritySchemeCoverage[] {
+  const map = new Map<string, SecuritySchemeCoverage>();
+  for (const s of a) map.set(s.name, structuredClone(s));
+  for (const s of b) {
+    const existing = map.get(s.name);
+    if (!existing) {
+      map.set(s.name, structuredClone(s));
+      continue;
+    }
+    existing.covered = existing.covered || s.covered;
+    for (const scope of s.scopes ?? []) {
+      const existingScope = existing.scopes?.find((x) => x.name === scope.name);
+      if (existingScope) {
+        existingScope.covered = existingScope.covered || scope.covered;
+      } else {
+        (existing.scopes ??= []).push({ ...scope });
+      }
+    }
+  }
+  return [...map.values()];
+}
+
+function mergeUnauthenticated(
+  a: UnauthenticatedCoverage | undefined,
+  b: UnauthenticatedCoverage | undefined
+): UnauthenticatedCoverage | undefined {
+  if (!a || !b) return a ?? b;
+  return {
+    statusCodes: [...new Set([...a.statusCodes, ...b.statusCodes])],
+    rejected: a.rejected || b.rejected,
+  };
+}
+
 function mergeOperations(a: OperationCoverage, b: OperationCoverage): OperationCoverage {
   return {
     path: a.path,
@@ -96,29 +227,66 @@ function mergeOperations(a: OperationCoverage, b: OperationCoverage): OperationC
     parameters: mergeParams(a.parameters, b.parameters),
     bodyProperties: mergeBodyProps(a.bodyProperties, b.bodyProperties),
     responseProperties: mergeResponseProps(a.responseProperties, b.responseProperties),
+    responseConformance: mergeConformance(a.responseConformance ?? [], b.responseConformance ?? []),
+    responseViolations: mergeViolations(a.responseViolations ?? [], b.responseViolations ?? []),
+    invalidRequestBodies: mergeViolations(a.invalidRequestBodies ?? [], b.invalidRequestBodies ?? []),
+    enumValues: mergeEnumValues(a.enumValues ?? [], b.enumValues ?? []),
+    mediaTypes: mergeMediaTypes(a.mediaTypes ?? [], b.mediaTypes ?? []),
+    securitySchemes: mergeSecuritySchemes(a.securitySchemes ?? [], b.securitySchemes ?? []),
+    unauthenticated: mergeUnauthenticated(a.unauthenticated, b.unauthenticated),
+    ...((a.undocumentedResponseProperties ?? b.undocumentedResponseProperties) && {
+      undocumentedResponseProperties: mergeUndocumented(a.undocumentedResponseProperties, b.undocumentedResponseProperties),
+    }),
+    ...((a.undocumentedStatusCodes ?? b.undocumentedStatusCodes) && {
+      undocumentedStatusCodes: mergeUndocumentedStatusCodes(a.undocumentedStatusCodes, b.undocumentedStatusCodes),
+    }),
     testRefs: [...new Set([...a.testRefs, ...b.testRefs])],
+    ...((a.failingTestRefs ?? b.failingTestRefs) && {
+      failingTestRefs: [...new Set([...(a.failingTestRefs ?? []), ...(b.failingTestRefs ?? [])])],
+    }),
   };
 }
 
-function computeSummary(operations: OperationCoverage[]): CoverageSummary {
+/**
+ * Recompute every summary dimension from `operations`, e.g. a tag's or a single operation's.
+ * `item` builds each dimension; pass the calculator's to round like the rest of its summaries.
+ */
+export function computeSummary(
+  operations: OperationCoverage[],
+  item: (total: number, covered: number) => CoverageSummaryItem = makeItem
+): CoverageSummary {
   let totalSC = 0, covSC = 0, totalP = 0, covP = 0;
-  let totalB = 0, covB = 0, totalR = 0, covR = 0;
+  let totalB = 0, covB = 0, totalR = 0, covR = 0, totalRC = 0, covRC = 0, totalE = 0, covE = 0;
+  let totalM = 0, covM = 0, totalS = 0, covS = 0;
 
   for (const op of operations) {
     for (const sc of Object.values(op.statusCodes)) { totalSC++; if (sc.covered) covSC++; }
     for (const p of op.parameters) { totalP++; if (p.covered) covP++; }
     for (const b of op.bodyProperties) { totalB++; if (b.covered) covB++; }
     for (const r of op.responseProperties) { totalR++; if (r.covered) covR++; }
+    for (const rc of op.responseConformance ?? []) {
+      if (rc.validated === 0) continue;
+      totalRC++;
+      if (rc.conforming) covRC++;
+    }
+    for (const e of op.enumValues ?? []) { totalE++; if (e.covered) covE++; }
+    for (const m of op.mediaTypes ?? []) { totalM++; if (m.covered) covM++; }
+    for (const s of op.securitySchemes ?? []) { totalS++; if (s.covered) covS++; }
+    if (op.unauthenticated) { totalS++; if (op.unauthenticated.rejected) covS++; }
   }
 
   const coveredEndpoints = operations.filter((o) => o.covered).length;
 
   return {
-    endpoints: makeItem(operations.length, coveredEndpoints),
-    statusCodes: makeItem(totalSC, covSC),
-    parameters: makeItem(totalP, covP),
-    bodyProperties: makeItem(totalB, covB),
-    responseProperties: makeItem(totalR, covR),
+    endpoints: item(operations.length, coveredEndpoints),
+    statusCodes: item(totalSC, covSC),
+    parameters: item(totalP, covP),
+    bodyProperties: item(totalB, covB),
+    responseProperties: item(totalR, covR),
+    responseConformance: item(totalRC, covRC),
+    enumValues: item(totalE, covE),
+    mediaTypes: item(totalM, covM),
+    security: item(totalS, covS),
   };
 }
 
@@ -167,6 +335,22 @@ function mergeAcknowledgedHits(all: AcknowledgedServiceHits[][]): AcknowledgedSe
   return [...map.values()];
 }
 
+function mergeTestReferences(lists: Array<TestReference[] | undefined>): TestReference[] | undefined {
+  if (lists.every((list) => !list)) return undefined;
+  const map = new Map<string, TestReference>();
+  for (const ref of lists.flatMap((list) => list ?? [])) {
+    const existing = map.get(ref.id);
+    if (!existing) {
+      map.set(ref.id, structuredClone(ref));
+      continue;
+    }
+    existing.line ??= ref.line;
+    existing.projects = [...new Set([...existing.projects, ...ref.projects])];
+    existing.outcome = worseOutcome(existing.outcome, ref.outcome);
+  }
+  return [...map.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
 /**
  * Merge multiple `CoverageResult` objects into a single combined result.
  *
@@ -190,15 +374,20 @@ export function mergeCoverageResults(...results: CoverageResult[]): CoverageResu
   // Merge all operations by method+path key
   const opsMap = new Map<string, OperationCoverage>();
   for (const result of results) {
-    for (const op of [...result.operations, ...result.uncoveredOperations]) {
+    for (const op of [...result.operations, ...result.uncoveredOperations, ...(result.deprecatedOperations ?? [])]) {
       const key = opKey(op);
       const existing = opsMap.get(key);
       opsMap.set(key, existing ? mergeOperations(existing, op) : structuredClone(op));
     }
   }
 
-  const allOps = [...opsMap.values()];
+  // Keep deprecated operations apart when any input report did
+  const policy = results.some((r) => r.deprecatedSummary)
+    ? 'separate'
+    : results.some((r) => r.deprecatedOperations) ? 'exclude' : 'include';
+  const [allOps, deprecatedOps] = splitDeprecated([...opsMap.values()], policy);
   const uncoveredOps = allOps.filter((o) => !o.covered);
+  const tests = mergeTestReferences(results.map((r) => r.tests));
 
   return {
     specFiles: [...new Set(results.flatMap((r) => r.specFiles))],
@@ -212,5 +401,8 @@ export function mergeCoverageResults(...results: CoverageResult[]): CoverageResu
     uncoveredOperations: uncoveredOps,
     unmatchedHits: deduplicateHits(results.flatMap((r) => r.unmatchedHits)),
     acknowledgedHits: mergeAcknowledgedHits(results.map((r) => r.acknowledgedHits)),
+    ...(deprecatedOps.length > 0 && { deprecatedOperations: deprecatedOps }),
+    ...(policy === 'separate' && deprecatedOps.length > 0 && { deprecatedSummary: computeSummary(deprecatedOps) }),
+    ...(tests && { tests }),
   };
 }
@@ -0,0 +1,194 @@
+import type { OpenAPIV3_1 } from 'openapi-types';
+import type { EndpointHit } from '../types.js';
+import { stripToPath } from './matcher.js';
+
+const NUMERIC = /^\d+$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+type Schema = OpenAPIV3_1.SchemaObject;
+type SchemaType = OpenAPIV3_1.NonArraySchemaObjectType | OpenAPIV3_1.ArraySchemaObjectType;
+/** Format of an inferred path parameter; `'string'` when calls disagree. */
+type PathParamKind = 'integer' | 'uuid' | 'string';
+
+const PATH_PARAM_SCHEMAS: Record<PathParamKind, OpenAPIV3_1.ParameterObject['schema']> = {
+  integer: { type: 'integer' },
+  uuid: { type: 'string', format: 'uuid' },
+  string: { type: 'string' },
+};
+
+/**
+ * Infer a path template from a recorded path: numeric and UUID segments become path
+ * parameters, named `{id}`, `{id2}`, … in order. Returns the template and the format of
+ * each parameter, `'integer'` or `'uuid'`.
+ */
+export function inferPathTemplate(path: string): { template: string; params: Array<[name: string, kind: 'integer' | 'uuid']> } {
+  const params: Array<[string, 'integer' | 'uuid']> = [];
+  const template = path
+    .split('/')
+    .map((segment) => {
+      const kind = NUMERIC.test(segment) ? 'integer' : UUID.test(segment) ? 'uuid' : undefined;
+      if (!kind) return segment;
+      const name = params.length === 0 ? 'id' : `id${params.length + 1}`;
+      params.push([name, kind]);
+      return `{${name}}`;
+    })
+    .join('/');
+  return { template, params };
+}
+
+function typeOf(value: unknown): SchemaType | 'null' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'object') return 'object';
+  return 'string';
+}
+
+function stringFormat(values: string[]): string | undefined {
+  for (const [format, pattern] of [['uuid', UUID], ['date-time', DATE_TIME], ['date', DATE]] as const) {
+    if (values.every((v) => pattern.test(v))) return format;
+  }
+  return undefined;
+}
+
+/**
+ * Infer a JSON schema describing every observed value. Properties of objects are required
+ * when every observed object has them; values of several types get an OAS 3.1 type list,
+ * e.g. `['string', 'null']`. Integers seen alongside fractional numbers are `number`.
+ */
+export function inferSchema(values: unknown[]): Schema {
+  if (values.length === 0) return {};
+  const types = new Set(values.map(typeOf));
+  if (types.has('integer') && types.has('number')) types.delete('integer');
+
+  const schema: Record<string, unknown> = {};
+  const list = [...types];
+  schema['type'] = list.length === 1 ? list[0] : list;
+
+  if (types.has('string')) {
+    const format = stringFormat(values.filter((v): v is string => typeof v === 'string'));
+    if (format) schema['format'] = format;
+  }
+
+  if (types.has('object')) {
+    const objects = values.filter((v): v is Record<string, unknown> => typeOf(v) === 'object');
+    const keys = [...new Set(objects.flatMap((o) => Object.keys(o)))];
+    schema['properties'] = Object.fromEntries(
+      keys.map((key) => [key, inferSchema(objects.filter((o) => key in o).map((o) => o[key]))])
+    );
+    const required = keys.filter((key) => objects.every((o) => key in o));
+    if (required.length > 0) schema['required'] = required;
+  }
+
+  if (types.has('array')) {
+    schema['items'] = inferSchema(values.filter(Array.isArray).flat());
+  }
+
+  return schema as Schema;
+}
+
+/** Schema of query parameter values, which are always strings on the wire. */
+function inferQuerySchema(values: string[]): OpenAPIV3_1.ParameterObject['schema'] {
+  if (values.every((v) => /^-?\d+$/.test(v))) return { type: 'integer' };
+  if (values.every((v) => v !== '' && !Number.isNaN(Number(v)))) return { type: 'number' };
+  if (values.every((v) => v === 'true' || v === 'false')) return { type: 'boolean' };
+  const format = stringFormat(values);
+  return { type: 'string', ...(format && { format }) };
+}
+
+function content(hits: EndpointHit[], body: (hit: EndpointHit) => unknown, mediaType: (hit: EndpointHit) => string | undefined) {
+  const byMediaType = new Map<string, unknown[]>();
+  for (const hit of hits) {
+    const value = body(hit);
+    if (value === undefined) continue;
+    const type = mediaType(hit) ?? 'application/json';
+    byMediaType.set(type, [...byMediaType.get(type) ?? [], value]);
+  }
+  if (byMediaType.size === 0) return undefined;
+  return Object.fromEntries([...byMediaType].map(([type, values]) => [type, { schema: inferSchema(values) }]));
+}
+
+function inferOperation(hits: EndpointHit[], pathParams: Array<[string, PathParamKind]>): OpenAPIV3_1.OperationObject {
+  const parameters: OpenAPIV3_1.ParameterObject[] = pathParams.map(([name, kind]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { ...PATH_PARAM_SCHEMAS[kind] },
+  }));
+  const queryNames = [...new Set(hits.flatMap((h) => Object.keys(h.queryParams ?? {})))].sort();
+  for (const name of queryNames) {
+    const values = hits.flatMap((h) => h.queryParams?.[name] ?? []);
+    parameters.push({
+      name,
+      in: 'query',
+      required: hits.every((h) => h.queryParams?.[name] !== undefined),
+      schema: inferQuerySchema(values),
+    });
+  }
+
+  const operation: OpenAPIV3_1.OperationObject = {
+    ...(parameters.length > 0 && { parameters }),
+    responses: {},
+  };
+
+  const requestContent = content(hits, (h) => h.requestBody, (h) => h.requestContentType);
+  if (requestContent) operation.requestBody = { required: hits.every((h) => h.requestBody !== undefined), content: requestContent };
+
+  const statusCodes = [...new Set(hits.map((h) => h.statusCode))].sort((a, b) => a - b);
+  for (const code of statusCodes) {
+    const responseHits = hits.filter((h) => h.statusCode === code);
+    const responseContent = content(responseHits, (h) => h.responseBody, (h) => h.responseContentType);
+    operation.responses![String(code)] = {
+      description: `Observed in ${responseHits.length} call(s)`,
+      ...(responseContent && { content: responseContent }),
+    };
+  }
+  return operation;
+}
+
+/**
+ * Build an OpenAPI 3.1 document describing the calls of `hits`, usually the
+ * `unmatchedHits` of a coverage result, as a starting point for documenting them.
+ *
+ * Calls are grouped by method and inferred path template (see {@link inferPathTemplate}).
+ * A path parameter whose calls disagree on its format, e.g. `/orders/42` and a UUID, is
+ * a plain string. Each operation lists the path parameters, the query parameters seen
+ * (required when every call sent them), and request and response schemas inferred from
+ * the recorded bodies per media type and status code. The result is meant to be reviewed: names,
+ * descriptions and formats are guesses.
+ *
+ * @param hits    - Recorded calls.
+ * @param baseURL - Prefix stripped from the recorded URLs, as when matching.
+ */
+export function inferSpec(hits: EndpointHit[], baseURL?: string): OpenAPIV3_1.Document {
+  const groups = new Map<string, { params: Array<[string, PathParamKind]>; byMethod: Map<string, EndpointHit[]> }>();
+  for (const hit of hits) {
+    const { template, params } = inferPathTemplate(stripToPath(hit.url, baseURL));
+    let group = groups.get(template);
+    if (group) {
+      group.params = group.params.map(([name, kind], i) => [name, kind === params[i]![1] ? kind : 'string']);
+    } else {
+      group = { params, byMethod: new Map<string, EndpointHit[]>() };
+    }
+    const method = hit.method.toLowerCase();
+    group.byMethod.set(method, [...group.byMethod.get(method) ?? [], hit]);
+    groups.set(template, group);
+  }
+
+  const paths: OpenAPIV3_1.PathsObject = {};
+  for (const template of [...groups.keys()].sort()) {
+    const { params, byMethod } = groups.get(template)!;
+    paths[template] = Object.fromEntries(
+      [...byMethod.keys()].sort().map((method) => [method, inferOperation(byMethod.get(method)!, params)])
+    );
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Inferred from unmatched API calls', version: '0.0.0' },
+    paths,
+  };
+}
@@ -1,10 +1,12 @@
 import SwaggerParser from '@apidevtools/swagger-parser';
 import type { OpenAPI, OpenAPIV2, OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
 import type {
+  EnumValue,
   NormalizedOperation,
   NormalizedParameter,
   NormalizedResponse,
   NormalizedSchema,
+  NormalizedSecurityScheme,
   NormalizedSpec,
 } from '../types.js';
 import { log } from '../log.js';
@@ -19,7 +21,24 @@ function extractSchema(schema: unknown): NormalizedSchema | undefined {
   const s = schema as Record<string, unknown>;
   const result: NormalizedSchema = {};
 
-  if (typeof s['type'] === 'string') result.type = s['type'];
+  if (typeof s['type'] === 'string') {
+    result.type = s['type'];
+  } else if (Array.isArray(s['type'])) {
+    // OAS 3.1 allows `type: ['string', 'null']` in place of OAS 3.0's `nullable: true`
+    const types = (s['type'] as unknown[]).filter((t): t is string => typeof t === 'string');
+    const nonNull = types.filter((t) => t !== 'null');
+    if (nonNull.length === 1) result.type = nonNull[0];
+    if (types.includes('null')) result.nullable = true;
+  }
+
+  if (s['nullable'] === true || s['x-nullable'] === true) result.nullable = true;
+
+  if (Array.isArray(s['enum'])) {
+    const members = (s['enum'] as unknown[]).filter(
+      (v): v is EnumValue => v === null || ['string', 'number', 'boolean'].includes(typeof v)
+    );
+    if (members.length > 0) result.enum = members;
+  }
 
   if (s['properties'] && typeof s['properties'] === 'object') {
     const props: Record<string, NormalizedSchema> = {};
@@ -34,6 +53,13 @@ function extractSchema(schema: unknown): NormalizedSchema | undefined {
     result.required = s['required'] as string[];
   }
 
+  // `true` and an empty schema both declare an open object; keep either as `true`
+  if (s['additionalProperties'] === false || s['additionalProperties'] === true) {
+    result.additionalProperties = s['additionalProperties'];
+  } else if (s['additionalProperties'] && typeof s['additionalProperties'] === 'object') {
+    result.additionalProperties = extractSchema(s['additionalProperties']) ?? true;
+  }
+
   if (s['items']) {
     const items = extractSchema(s['items']);
     if (items) result.items = items;
@@ -78,9 +104,20 @@ function normalizeParameters(
   return result;
 }
 
-/** Extract responses from an operation, including response body schema. */
+/** Media type keys of an OAS3 `content` map, lower-cased. */
+function contentMediaTypes(content: unknown): string[] {
+  if (!content || typeof content !== 'object') return [];
+  return Object.keys(content).map((mt) => mt.toLowerCase());
+}
+
+/**
+ * Extract responses from an operation, including response body schema.
+ * `produces` supplies the Swagger 2.0 response media types, which apply to every
+ * response that declares a schema.
+ */
 function normalizeResponses(
-  rawResponses: unknown
+  rawResponses: unknown,
+  produces: string[] = []
 ): Record<string, NormalizedResponse> {
   if (!rawResponses || typeof rawResponses !== 'object') return {};
   const result: Record<string, NormalizedResponse> = {};
@@ -100,9 +137,12 @@ function normalizeResponses(
       }
     }
 
+    const mediaTypes = r['content'] ? contentMediaTypes(r['content']) : r['schema'] ? produces : [];
+
     result[String(code)] = {
       description: typeof r['description'] === 'string' ? r['description'] : undefined,
       schema,
+      ...(mediaTypes.length > 0 && { mediaTypes }),
     };
   }
 
@@ -127,6 +167,75 @@ function extractRequestBodySchema(requestBody: unknown): NormalizedSchema | unde
   return undefined;
 }
 
+type SecuritySchemeDefinition = Omit<NormalizedSecurityScheme, 'scopes'>;
+
+/** Normalize OAS3 `components.securitySchemes` or Swagger 2.0 `securityDefinitions` by name. */
+function normalizeSecuritySchemes(raw: unknown): Map<string, SecuritySchemeDefinition> {
+  const schemes = new Map<string, SecuritySchemeDefinition>();
+  if (!raw || typeof raw !== 'object') return schemes;
+
+  for (const [name, def] of Object.entries(raw as object)) {
+    if (!def || typeof def !== 'object') continue;
+    const d = def as Record<string, unknown>;
+    switch (d['type']) {
+      case 'basic':
+        schemes.set(name, { name, type: 'http', scheme: 'basic' });
+        break;
+      case 'http':
+        schemes.set(name, {
+          name,
+          type: 'http',
+          scheme: typeof d['scheme'] === 'string' ? d['scheme'].toLowerCase() : undefined,
+        });
+        break;
+      case 'apiKey':
+        if (d['in'] !== 'header' && d['in'] !== 'query' && d['in'] !== 'cookie') break;
+        schemes.set(name, {
+          name,
+          type: 'apiKey',
+          in: d['in'],
+          paramName: typeof d['name'] === 'string' ? d['name'] : undefined,
+        });
+        break;
+      case 'oauth2':
+      case 'openIdConnect':
+      case 'mutualTLS':
+        schemes.set(name, { name, type: d['type'] });
+        break;
+    }
+  }
+
+  return schemes;
+}
+
+/**
+ * Resolve a `security` requirement list against the declared schemes.
+ * An alternative that only names undeclared schemes is dropped rather than kept as `{}`,
+ * which would wrongly make authentication optional.
+ */
+function resolveSecurity(
+  requirements: unknown,
+  schemes: Map<string, SecuritySchemeDefinition>
+): NormalizedSecurityScheme[][] | undefined {
+  if (!Array.isArray(requirements)) return undefined;
+
+  return requirements
+    .filter((req): req is Record<string, unknown> => Boolean(req) && typeof req === 'object')
+    .flatMap((req) => {
+      const entries = Object.entries(req);
+      const resolved = entries.flatMap(([name, scopes]) => {
+        const scheme = schemes.get(name);
+        if (!scheme) {
+          log.warn(`Security requirement references undeclared scheme "${name}" — ignoring it.`);
+          return [];
+        }
+        const scopeList = Array.isArray(scopes) ? scopes.filter((s): s is string => typeof s === 'string') : [];
+        return [{ ...scheme, scopes: scopeList }];
+      });
+      return entries.length > 0 && resolved.length === 0 ? [] : [resolved];
+    });
+}
+
 /** Extract the base path from an OAS3 servers array (first entry only). */
 function extractServerBasePath(servers: unknown): string | undefined {
   if (!Array.isArray(servers) || servers.length === 0) return undefined;
@@ -163,6 +272,7 @@ function normalizeV3(
   doc: OpenAPIV3.Document | OpenAPIV3_1.Document
 ): NormalizedOperation[] {
   const operations: NormalizedOperation[] = [];
+  const securitySchemes = normalizeSecuritySchemes(doc.components?.securitySchemes);
 
   for (const [pathTemplate, pathItem] of Object.entries(doc.paths ?? {})) {
     if (!pathItem) continue;
@@ -195,7 +305,9 @@ function normalizeV3(
         deprecated: Boolean(operation.deprecated),
         parameters: Array.from(paramMap.values()),
         requestBodySchema: extractRequestBodySchema(operation.requestBody),
+        requestMediaTypes: contentMediaTypes((operation.requestBody as Record<string, unknown> | undefined)?.['content']),
         responses: normalizeResponses(operation.responses),
+        security: resolveSecurity(operation.security ?? doc.security, securitySchemes),
       });
     }
   }
@@ -206,6 +318,7 @@ function normalizeV3(
 function normalizeV2(doc: OpenAPIV2.Document): NormalizedOperation[] {
   const operations: NormalizedOperation[] = [];
   const methods = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+  const securitySchemes = normalizeSecuritySchemes(doc.securityDefinitions);
 
   for (const [pathTemplate, pathItem] of Object.entries(doc.paths ?? {})) {
     if (!pathItem) continue;
@@ -232,6 +345,14 @@ function normalizeV2(doc: OpenAPIV2.Document): NormalizedOperation[] {
         paramMap.set(`${p.in}:${p.name}`, p);
       }
 
+      // Swagger 2.0 declares media types once per operation, falling back to the document.
+      const consumes = (operation.consumes ?? doc.consumes ?? []).map((mt) => mt.toLowerCase());
+      const produces = (operation.produces ?? doc.produces ?? []).map((mt) => mt.toLowerCase());
+      const sendsBody = (operation.parameters as unknown[] | undefined)?.some((p) => {
+        const paramIn = typeof p === 'object' && p !== null ? (p as Record<string, unknown>)['in'] : undefined;
+        return paramIn === 'body' || paramIn === 'formData';
+      });
+
       operations.push({
         pathTemplate,
         method: method.toUpperCase(),
@@ -240,7 +361,9 @@ function normalizeV2(doc: OpenAPIV2.Document): NormalizedOperation[] {
         deprecated: Boolean((operation as Record<string, unknown>)['deprecated']),
         parameters: Array.from(paramMap.values()),
         requestBodySchema: bodyParam ? extractSchema(bodyParam.schema) : undefined,
-        responses: normalizeResponses(operation.responses),
+        requestMediaTypes: sendsBody ? consumes : [],
+        responses: normalizeResponses(operation.responses, produces),
+        security: resolveSecurity(operation.security ?? doc.security, securitySchemes),
       });
     }
   }
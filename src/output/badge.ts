@@ -23,7 +23,8 @@ function esc(s: string): string {
 export function generateBadgeSvg(result: CoverageResult, config: BadgeConfig = {}): string {
   const { dimension = 'endpoints', label = 'API Coverage' } = config;
 
-  const item = result.summary[dimension];
+  // Dimensions added after a report was produced are missing from its summary
+  const item = result.summary[dimension] ?? { total: 0, covered: 0, percentage: 100 };
   const pct = item.percentage;
   const valueText = `${pct.toFixed(1)}%`;
   const color = badgeColor(pct);
@@ -1,6 +1,12 @@
 import Table from 'cli-table3';
-import type { CoverageResult, OperationCoverage, ConsoleOutputConfig, ThresholdConfig, ThresholdEntry, CoverageDimension } from '../types.js';
+import picomatch from 'picomatch';
+import type { CoverageResult, CoverageSummary, OperationCoverage, ConsoleOutputConfig, ThresholdConfig, ThresholdEntry, CoverageDimension, EnumValueCoverage, DimensionThresholds } from '../types.js';
 import type { CoverageDelta } from './history.js';
+import { coverageDiffRows, formatCoverageItem, type CoverageDiff } from '../coverage/coverage-diff.js';
+import { computeSummary } from '../merge.js';
+import { findDeprecatedCalls } from '../coverage/deprecated.js';
+import { isCoveredOnlyByFailingTests } from '../coverage/tests.js';
+import { findUndocumentedStatusCodes } from '../coverage/status-codes.js';
 
 const TABLE_CHARS = {
   'top': '─', 'top-mid': '┬', 'top-left': '┌', 'top-right': '┐',
@@ -27,6 +33,23 @@ export interface ThresholdViolation {
    * Determined by the per-entry `fail` flag or the global `failOnThreshold` default.
    */
   fail: boolean;
+  /**
+   * The part of the API a tag or operation threshold was checked against, e.g.
+   * `tag payments` or `POST /payments`. Absent for run-wide thresholds.
+   */
+  scope?: string;
+}
+
+/** A tag or operation threshold from {@link ThresholdConfig}, with the coverage it was checked against. */
+export interface ScopedThresholdCheck {
+  /** `tag <name>` or `METHOD /path`. */
+  scope: string;
+  dimension: CoverageDimension;
+  /** Dimension label, e.g. `Endpoint`. */
+  label: string;
+  actual: number;
+  min: number;
+  fail: boolean;
 }
 
 /** Resolve a `number | ThresholdEntry` config value into `{ min, fail }` or `null`. */
@@ -67,6 +90,11 @@ function colorBool(c: ChalkInstance, val: boolean): string {
   return val ? c.green('✓') : c.red('✗');
 }
 
+/** ✓ / ✗ for an operation, or a yellow ! when only failing tests called it. */
+function colorOperation(c: ChalkInstance, op: OperationCoverage): string {
+  return isCoveredOnlyByFailingTests(op) ? c.yellow('!') : colorBool(c, op.covered);
+}
+
 function summaryCodes(c: ChalkInstance, codes: OperationCoverage['statusCodes']): string {
   return Object.entries(codes)
     .map(([code, sc]) => `${code} ${colorBool(c, sc.covered)}`)
@@ -89,6 +117,40 @@ function respRatio(op: OperationCoverage): string {
   return `${covered}/${total}`;
 }
 
+/** Field label for an enum entry, matching the prefixes used by the other expand rows. */
+function enumFieldLabel(e: EnumValueCoverage): string {
+  if (e.in === 'requestBody') return `body.${e.name}`;
+  if (e.in === 'responseBody') return `${e.statusCode} resp.${e.name}`;
+  return `${e.in}:${e.name}`;
+}
+
+/**
+ * The summary dimensions a run recorded, as `[dimension, percentage, label]` tuples.
+ * Optional dimensions are included only when present in `summary`.
+ */
+export function summaryDimensions(summary: CoverageSummary): [CoverageDimension, number, string][] {
+  const dims: [CoverageDimension, number, string][] = [
+    ['endpoints', summary.endpoints.percentage, 'Endpoint'],
+    ['statusCodes', summary.statusCodes.percentage, 'Status code'],
+    ['parameters', summary.parameters.percentage, 'Parameter'],
+    ['bodyProperties', summary.bodyProperties.percentage, 'Body property'],
+    ['responseProperties', summary.responseProperties.percentage, 'Response property'],
+  ];
+  if (summary.responseConformance) {
+    dims.push(['responseConformance', summary.responseConformance.percentage, 'Response schema conformance']);
+  }
+  if (summary.enumValues) {
+    dims.push(['enumValues', summary.enumValues.percentage, 'Enum value']);
+  }
+  if (summary.mediaTypes) {
+    dims.push(['mediaTypes', summary.mediaTypes.percentage, 'Media type']);
+  }
+  if (summary.security) {
+    dims.push(['security', summary.security.percentage, 'Security']);
+  }
+  return dims;
+}
+
 /**
  * Check whether any threshold is breached and return structured violation objects.
  *
@@ -106,16 +168,8 @@ export function checkThresholds(
 ): ThresholdViolation[] {
   const violations: ThresholdViolation[] = [];
 
-  const checks: [keyof ThresholdConfig, number, string][] = [
-    ['endpoints', result.summary.endpoints.percentage, 'Endpoint'],
-    ['statusCodes', result.summary.statusCodes.percentage, 'Status code'],
-    ['parameters', result.summary.parameters.percentage, 'Parameter'],
-    ['bodyProperties', result.summary.bodyProperties.percentage, 'Body property'],
-    ['responseProperties', result.summary.responseProperties.percentage, 'Response property'],
-  ];
-
-  for (const [key, actual, label] of checks) {
-    if (excludeDimensions?.includes(key as CoverageDimension)) continue;
+  for (const [key, actual, label] of summaryDimensions(result.summary)) {
+    if (excludeDimensions?.includes(key)) continue;
     const resolved = resolveEntry(threshold[key], globalFail);
     if (resolved !== null && actual < resolved.min) {
       violations.push({
@@ -125,9 +179,76 @@ export function checkThresholds(
     }
   }
 
+  for (const check of scopedThresholdChecks(result, threshold, globalFail, excludeDimensions)) {
+    if (check.actual < check.min) {
+      violations.push({
+        message: `${check.label} coverage of ${check.scope} ${check.actual.toFixed(1)}% is below threshold ${check.min}%`,
+        fail: check.fail,
+        scope: check.scope,
+      });
+    }
+  }
+
   return violations;
 }
 
+/** `'POST /payments'` → `['POST', '/payments']`; `undefined` for operationId globs. */
+function parseOperationKey(key: string): [method: string, path: string] | undefined {
+  const match = /^([A-Za-z]+)\s+(\/\S*)$/.exec(key.trim());
+  return match ? [match[1]!.toUpperCase(), match[2]!] : undefined;
+}
+
+function dimensionChecks(
+  scope: string,
+  summary: CoverageSummary,
+  thresholds: DimensionThresholds,
+  globalFail: boolean,
+  excludeDimensions: CoverageDimension[] | undefined
+): ScopedThresholdCheck[] {
+  const checks: ScopedThresholdCheck[] = [];
+  for (const [dimension, actual, label] of summaryDimensions(summary)) {
+    if (excludeDimensions?.includes(dimension)) continue;
+    const resolved = resolveEntry(thresholds[dimension], globalFail);
+    if (resolved !== null) checks.push({ scope, dimension, label, actual, ...resolved });
+  }
+  return checks;
+}
+
+/**
+ * Evaluate `threshold.tags` against `result.tagCoverage` and `threshold.operations` against
+ * the coverage of each matching operation. Returns every configured check, met or not, one
+ * per matching tag or operation and dimension.
+ */
+export function scopedThresholdChecks(
+  result: CoverageResult,
+  threshold: ThresholdConfig,
+  globalFail = false,
+  excludeDimensions?: CoverageDimension[]
+): ScopedThresholdCheck[] {
+  const checks: ScopedThresholdCheck[] = [];
+
+  for (const [pattern, thresholds] of Object.entries(threshold.tags ?? {})) {
+    const isMatch = picomatch(pattern);
+    for (const [tag, summary] of Object.entries(result.tagCoverage)) {
+      if (isMatch(tag)) checks.push(...dimensionChecks(`tag ${tag}`, summary, thresholds, globalFail, excludeDimensions));
+    }
+  }
+
+  for (const [key, thresholds] of Object.entries(threshold.operations ?? {})) {
+    const operation = parseOperationKey(key);
+    const isIdMatch = picomatch(key);
+    const isMatch = operation
+      ? (op: OperationCoverage) => op.method.toUpperCase() === operation[0] && op.path === operation[1]
+      : (op: OperationCoverage) => op.operationId !== undefined && isIdMatch(op.operationId);
+    for (const op of result.operations.filter(isMatch)) {
+      const scope = `${op.method.toUpperCase()} ${op.path}`;
+      checks.push(...dimensionChecks(scope, computeSummary([op]), thresholds, globalFail, excludeDimensions));
+    }
+  }
+
+  return checks;
+}
+
 
 
 /** Format an ISO timestamp as "04 Mar 2026 · 14:18:27". */
@@ -154,11 +275,166 @@ function printAcknowledgedHits(c: Awaited<ReturnType<typeof getChalk>>, result:
   }
 }
 
+/** Print every test that received a response body violating the declared schema. */
+function printSchemaViolations(c: ChalkInstance, result: CoverageResult): void {
+  const failing = result.operations.filter((op) => (op.responseViolations ?? []).length > 0);
+  if (failing.length === 0) return;
+  const total = failing.reduce((sum, op) => sum + op.responseViolations!.length, 0);
+  console.log('');
+  console.log(c.red(`  ✗ ${total} recorded response(s) did not conform to the spec schema:`));
+  for (const op of failing) {
+    for (const v of op.responseViolations!) {
+      console.log(`    ${c.bold(op.method)} ${op.path} ${c.dim(`[${v.statusCode}]`)}  ${c.dim(v.testRef)}`);
+      for (const err of v.errors.slice(0, 3)) {
+        console.log(c.dim(`      ${err.path}: ${err.message}`));
+      }
+      if (v.errors.length > 3) {
+        console.log(c.dim(`      … and ${v.errors.length - 3} more`));
+      }
+    }
+  }
+}
+
+/**
+ * Print the response properties the API returned but the spec does not declare, per
+ * operation and status code, with the first test that received each.
+ */
+function printSpecDrift(c: ChalkInstance, result: CoverageResult): void {
+  const drifted = result.operations.filter((op) => (op.undocumentedResponseProperties ?? []).length > 0);
+  if (drifted.length === 0) return;
+  const total = drifted.reduce((sum, op) => sum + op.undocumentedResponseProperties!.length, 0);
+  console.log('');
+  console.log(c.yellow(`  ⚠ Spec drift: ${total} undocumented response propert${total === 1 ? 'y' : 'ies'} in ${drifted.length} operation(s):`));
+  for (const op of drifted) {
+    for (const prop of op.undocumentedResponseProperties!) {
+      console.log(`    ${c.bold(op.method.toUpperCase())} ${op.path} ${c.dim(`[${prop.statusCode}]`)}  ${prop.name}  ${c.dim(prop.testRefs[0] ?? '')}`);
+    }
+  }
+}
+
+/** Sort key of a response key: a range such as `4XX` after its codes, `default` last. */
+function statusCodeOrder(code: string): number {
+  if (code === 'default') return Infinity;
+  return /^[1-5]XX$/i.test(code) ? Number(code[0]) * 100 + 99.5 : Number(code);
+}
+
+/** Print the status codes recorded calls received that their operations do not document. */
+function printUndocumentedStatusCodes(c: ChalkInstance, result: CoverageResult): void {
+  const calls = findUndocumentedStatusCodes(result);
+  if (calls.length === 0) return;
+  console.log('');
+  console.log(c.yellow(`  ⚠ ${calls.length} undocumented status code(s) received:`));
+  for (const call of calls) {
+    const code = call.statusCode.startsWith('5') ? c.red(call.statusCode) : call.statusCode;
+    console.log(`    ${c.bold(call.method)} ${call.path} ${c.dim('[')}${code}${c.dim(']')}  ${c.dim(call.testRefs.join(', '))}`);
+  }
+}
+
+/**
+ * Print every test that sent a request body violating the declared schema.
+ * Payloads the API rejected with a 4xx are listed separately from those it accepted,
+ * so deliberate negative tests can be told apart from accidental drift.
+ */
+function printInvalidPayloads(c: ChalkInstance, result: CoverageResult): void {
+  const entries = result.operations.flatMap((op) =>
+    (op.invalidRequestBodies ?? []).map((body) => ({ op, body }))
+  );
+  if (entries.length === 0) return;
+
+  const accepted = entries.filter((e) => !e.body.rejected);
+  const rejected = entries.filter((e) => e.body.rejected);
+  const printGroup = (group: typeof entries): void => {
+    for (const { op, body } of group) {
+      console.log(`    ${c.bold(op.method)} ${op.path} ${c.dim(`[${body.statusCode}]`)}  ${c.dim(body.testRef)}`);
+      for (const err of body.errors.slice(0, 3)) {
+        console.log(c.dim(`      ${err.path}: ${err.message}`));
+      }
+      if (body.errors.length > 3) {
+        console.log(c.dim(`      … and ${body.errors.length - 3} more`));
+      }
+    }
+  };
+
+  if (accepted.length > 0) {
+    console.log('');
+    console.log(c.yellow(`  ⚠ ${accepted.length} invalid request payload(s) were accepted by the API:`));
+    printGroup(accepted);
+  }
+  if (rejected.length > 0) {
+    console.log('');
+    console.log(c.dim(`  ℹ ${rejected.length} invalid request payload(s) were rejected with 4xx (likely negative tests):`));
+    printGroup(rejected);
+  }
+}
+
+/**
+ * Print secured operations that answered an unauthenticated call with a 2xx —
+ * either the spec over-declares security or the API fails to enforce it.
+ */
+function printUnauthenticatedAccess(c: ChalkInstance, result: CoverageResult): void {
+  const exposed = result.operations.filter((op) =>
+    (op.unauthenticated?.statusCodes ?? []).some((code) => code.startsWith('2'))
+  );
+  if (exposed.length === 0) return;
+
+  console.log('');
+  console.log(c.yellow(`  ⚠ ${exposed.length} secured operation(s) accepted a call without credentials:`));
+  for (const op of exposed) {
+    const codes = op.unauthenticated!.statusCodes.filter((code) => code.startsWith('2')).join(', ');
+    console.log(`    ${c.bold(op.method)} ${op.path} ${c.dim(`[${codes}]`)}`);
+  }
+}
+
+/** Print the coverage of deprecated operations kept apart by `deprecatedOperations: 'separate'`. */
+function printDeprecatedSummary(c: ChalkInstance, summary: CoverageSummary, excludeDimensions?: CoverageDimension[]): void {
+  console.log('');
+  console.log(c.bold('  Deprecated Operations') + c.dim('  not counted in the summary above'));
+  console.log('');
+  const table = new Table({
+    head: [c.bold('Dimension'), c.bold('Covered'), c.bold('%')],
+    style: { head: [], border: [] },
+    chars: TABLE_CHARS,
+  });
+  for (const [dim, pct, label] of summaryDimensions(summary)) {
+    if (excludeDimensions?.includes(dim)) continue;
+    const item = summary[dim]!;
+    table.push([label, `${item.covered}/${item.total}`, colorPercent(c, pct)]);
+  }
+  console.log(table.toString());
+}
+
+/** Warn about tests that still call operations marked `deprecated` in the spec. */
+function printDeprecatedCalls(c: ChalkInstance, result: CoverageResult): void {
+  const calls = findDeprecatedCalls(result);
+  if (calls.length === 0) return;
+
+  const tests = new Set(calls.flatMap((call) => call.testRefs));
+  console.log('');
+  console.log(c.yellow(`  ⚠ ${tests.size} test(s) still call ${calls.length} deprecated operation(s):`));
+  for (const call of calls) {
+    console.log(`    ${c.bold(call.method)} ${call.path}`);
+    for (const ref of call.testRefs) console.log(c.dim(`      ${ref}`));
+  }
+}
+
+function printFailingOnlyOperations(c: ChalkInstance, result: CoverageResult): void {
+  const ops = result.operations.filter(isCoveredOnlyByFailingTests);
+  if (ops.length === 0) return;
+
+  console.log('');
+  console.log(c.yellow(`  ⚠ ${ops.length} operation(s) covered only by failing tests:`));
+  for (const op of ops) {
+    console.log(`    ${c.bold(op.method.toUpperCase())} ${op.path}`);
+    for (const ref of op.failingTestRefs ?? []) console.log(c.dim(`      ${ref}`));
+  }
+}
+
 /**
  * Print the Playswag coverage report to stdout.
  *
  * The summary table is always shown. The operations table is controlled by
- * `config.showOperations` (default `true`).
+ * `config.showOperations` (default `true`). `extraViolations` (e.g. ratchet drops) are
+ * listed together with the threshold results.
  */
 export async function printConsoleReport(
   result: CoverageResult,
@@ -166,7 +442,8 @@ export async function printConsoleReport(
   threshold?: ThresholdConfig,
   globalFail = false,
   delta?: CoverageDelta,
-  excludeDimensions?: CoverageDimension[]
+  excludeDimensions?: CoverageDimension[],
+  extraViolations: ThresholdViolation[] = []
 ): Promise<void> {
   const c = await getChalk();
   const {
@@ -175,10 +452,17 @@ export async function printConsoleReport(
     showParams = false,
     showBodyProperties = false,
     showResponseProperties = false,
+    showEnumValues = false,
+    showSecurity = false,
     showTags = false,
     showOperationId = false,
     showStatusCodeBreakdown = false,
     showUnmatchedHits = true,
+    showSchemaViolations = true,
+    showInvalidPayloads = true,
+    showDeprecatedCalls = true,
+    showSpecDrift = true,
+    showUndocumentedStatusCodes = true,
   } = config;
 
   const SEP = c.dim('─'.repeat(80));
@@ -239,6 +523,46 @@ export async function printConsoleReport(
       'responseProperties',
     ],
   ];
+  if (result.summary.responseConformance) {
+    const rc = result.summary.responseConformance;
+    allSummaryRows.push([
+      'Conformance',
+      `${rc.covered}/${rc.total}`,
+      colorPercent(c, rc.percentage) + formatDelta(c, delta?.responseConformance),
+      progressBar(rc.percentage),
+      'responseConformance',
+    ]);
+  }
+  if (result.summary.enumValues) {
+    const ev = result.summary.enumValues;
+    allSummaryRows.push([
+      'Enum Values',
+      `${ev.covered}/${ev.total}`,
+      colorPercent(c, ev.percentage) + formatDelta(c, delta?.enumValues),
+      progressBar(ev.percentage),
+      'enumValues',
+    ]);
+  }
+  if (result.summary.mediaTypes) {
+    const mt = result.summary.mediaTypes;
+    allSummaryRows.push([
+      'Media Types',
+      `${mt.covered}/${mt.total}`,
+      colorPercent(c, mt.percentage) + formatDelta(c, delta?.mediaTypes),
+      progressBar(mt.percentage),
+      'mediaTypes',
+    ]);
+  }
+  if (result.summary.security) {
+    const sec = result.summary.security;
+    allSummaryRows.push([
+      'Security',
+      `${sec.covered}/${sec.total}`,
+      colorPercent(c, sec.percentage) + formatDelta(c, delta?.security),
+      progressBar(sec.percentage),
+      'security',
+    ]);
+  }
   const rows = allSummaryRows.filter(([,,,,dim]) => !excludeDimensions?.includes(dim));
 
   const summaryTable = new Table({
@@ -252,6 +576,10 @@ export async function printConsoleReport(
   console.log(c.dim('  ●') + ' ' + c.cyan('observed') + c.dim('  response field returned by API (test may not assert)'));
   console.log(c.dim('  ●') + ' ' + c.dim('missing') + c.dim('   never seen in any recorded call'));
 
+  if (result.deprecatedSummary) {
+    printDeprecatedSummary(c, result.deprecatedSummary, excludeDimensions);
+  }
+
   // ── Status code breakdown ────────────────────────────────────────────────────
   if (showStatusCodeBreakdown) {
     const scAgg = new Map<string, { total: number; covered: number }>();
@@ -263,7 +591,7 @@ export async function printConsoleReport(
         if (sc.covered) entry.covered++;
       }
     }
-    const sorted = [...scAgg.entries()].sort(([a], [b]) => Number(a) - Number(b));
+    const sorted = [...scAgg.entries()].sort(([a], [b]) => statusCodeOrder(a) - statusCodeOrder(b));
     if (sorted.length > 0) {
       console.log('');
       console.log(c.bold('  Status Codes by Code'));
@@ -291,8 +619,15 @@ export async function printConsoleReport(
       ['Parameters',   'parameters',         tc => colorPercent(c, tc.parameters.percentage)],
       ['Body Props',   'bodyProperties',     tc => colorPercent(c, tc.bodyProperties.percentage)],
       ['Resp Props',   'responseProperties', tc => colorPercent(c, tc.responseProperties.percentage)],
+      ['Conformance',  'responseConformance', tc => tc.responseConformance ? colorPercent(c, tc.responseConformance.percentage) : c.dim('—')],
+      ['Enums',        'enumValues',         tc => tc.enumValues ? colorPercent(c, tc.enumValues.percentage) : c.dim('—')],
+      ['Media Types',  'mediaTypes',         tc => tc.mediaTypes ? colorPercent(c, tc.mediaTypes.percentage) : c.dim('—')],
+      ['Security',     'security',           tc => tc.security ? colorPercent(c, tc.security.percentage) : c.dim('—')],
     ];
-    const activeDims = tagDimDefs.filter(([, key]) => !excludeDimensions?.includes(key));
+    // Optional dimensions are only shown when the report recorded them.
+    const activeDims = tagDimDefs.filter(([, key]) =>
+      !excludeDimensions?.includes(key) && result.summary[key] !== undefined
+    );
     const tagTable = new Table({
       head: [c.bold('Tag'), ...activeDims.map(([label]) => c.bold(label))],
       style: { head: [], border: [] },
@@ -305,8 +640,11 @@ export async function printConsoleReport(
   }
 
   // ── Threshold results ────────────────────────────────────────────────────────
-  if (threshold) {
-    const violations = checkThresholds(result, threshold, globalFail, excludeDimensions);
+  if (threshold || extraViolations.length > 0) {
+    const violations = [
+      ...(threshold ? checkThresholds(result, threshold, globalFail, excludeDimensions) : []),
+      ...extraViolations,
+    ];
     if (violations.length > 0) {
       console.log('');
       for (const v of violations) {
@@ -318,6 +656,32 @@ export async function printConsoleReport(
     }
   }
 
+  if (showSchemaViolations && !excludeDimensions?.includes('responseConformance')) {
+    printSchemaViolations(c, result);
+  }
+
+  if (showUndocumentedStatusCodes) {
+    printUndocumentedStatusCodes(c, result);
+  }
+
+  if (showSpecDrift) {
+    printSpecDrift(c, result);
+  }
+
+  if (showInvalidPayloads) {
+    printInvalidPayloads(c, result);
+  }
+
+  if (!excludeDimensions?.includes('security')) {
+    printUnauthenticatedAccess(c, result);
+  }
+
+  if (showDeprecatedCalls) {
+    printDeprecatedCalls(c, result);
+  }
+
+  printFailingOnlyOperations(c, result);
+
   if (!showOperations) {
     if (showUnmatchedHits && result.unmatchedHits.length > 0) {
       console.log('');
@@ -383,7 +747,7 @@ export async function printConsoleReport(
   });
 
   for (const op of opsToShow) {
-    const methodColor = op.covered ? c.green(op.method) : c.red(op.method);
+    const methodColor = op.covered ? c.green(op.method) : isCoveredOnlyByFailingTests(op) ? c.yellow(op.method) : c.red(op.method);
     let pathLabel = op.deprecated ? `${op.path} ${c.dim('[deprecated]')}` : op.path;
     if (showOperationId && op.operationId) pathLabel += ` ${c.dim(op.operationId)}`;
     opsTable.push([
@@ -392,7 +756,7 @@ export async function printConsoleReport(
       summaryCodes(c, op.statusCodes),
       paramRatio(op),
       respRatio(op),
-      colorBool(c, op.covered),
+      colorOperation(c, op),
     ]);
 
     if (showParams && op.parameters.length > 0) {
@@ -424,6 +788,35 @@ export async function printConsoleReport(
       }
       opsTable.push([{ content: lines.join('\n'), colSpan: 6 }]);
     }
+
+    if (showEnumValues && (op.enumValues ?? []).length > 0 && !excludeDimensions?.includes('enumValues')) {
+      const grouped = new Map<string, NonNullable<typeof op.enumValues>>();
+      for (const e of op.enumValues!) {
+        const field = enumFieldLabel(e);
+        if (!grouped.has(field)) grouped.set(field, []);
+        grouped.get(field)!.push(e);
+      }
+      const lines: string[] = [];
+      for (const [field, members] of grouped) {
+        const values = members.map((e) => `${colorBool(c, e.covered)} ${JSON.stringify(e.value)}`).join('  ');
+        lines.push(`  ${field}: ${values}`);
+      }
+      opsTable.push([{ content: lines.join('\n'), colSpan: 6 }]);
+    }
+
+    const hasSecurity = (op.securitySchemes ?? []).length > 0 || op.unauthenticated !== undefined;
+    if (showSecurity && hasSecurity && !excludeDimensions?.includes('security')) {
+      const lines: string[] = [];
+      for (const s of op.securitySchemes ?? []) {
+        const scopes = (s.scopes ?? []).map((scope) => `${colorBool(c, scope.covered)} ${scope.name}`).join('  ');
+        lines.push(`  ${colorBool(c, s.covered)} ${s.name} ${c.dim(`(${s.type})`)}${scopes ? `  ${scopes}` : ''}`);
+      }
+      if (op.unauthenticated) {
+        const codes = op.unauthenticated.statusCodes.join(', ');
+        lines.push(`  ${colorBool(c, op.unauthenticated.rejected)} unauthenticated${codes ? c.dim(` [${codes}]`) : ''}`);
+      }
+      opsTable.push([{ content: lines.join('\n'), colSpan: 6 }]);
+    }
   }
 
   console.log(opsTable.toString());
@@ -445,4 +838,48 @@ export async function printConsoleReport(
   console.log('');
   console.log(SEP);
   console.log('');
-}
\ No newline at end of file
+}
+
+/**
+ * Print a {@link CoverageDiff} to stdout: the per-dimension change between the two runs,
+ * then every item that lost coverage and every item that gained it.
+ */
+export async function printCoverageDiff(diff: CoverageDiff): Promise<void> {
+  const c = await getChalk();
+  const SEP = c.dim('─'.repeat(80));
+
+  console.log('');
+  console.log(SEP);
+  console.log(`  ${c.bold(c.cyan('playswag'))}  ${c.dim('▸')}  ${c.bold('API Coverage Diff')}`);
+  console.log(SEP);
+  console.log('');
+
+  const table = new Table({
+    head: [c.bold('Dimension'), c.bold('Base'), c.bold('Head'), c.bold('Change')],
+    style: { head: [], border: [] },
+    chars: TABLE_CHARS,
+  });
+  for (const row of coverageDiffRows(diff)) {
+    table.push([row.label, colorPercent(c, row.base), colorPercent(c, row.head), formatDelta(c, row.change).trim() || c.dim('–')]);
+  }
+  console.log(table.toString());
+
+  if (diff.newlyUncovered.length > 0) {
+    console.log('');
+    console.log(c.red(`  ✗ ${diff.newlyUncovered.length} item(s) lost coverage:`));
+    for (const item of diff.newlyUncovered) console.log(`    ${formatCoverageItem(item)}`);
+  }
+  if (diff.newlyCovered.length > 0) {
+    console.log('');
+    console.log(c.green(`  ✓ ${diff.newlyCovered.length} item(s) newly covered:`));
+    for (const item of diff.newlyCovered) console.log(c.dim(`    ${formatCoverageItem(item)}`));
+  }
+  if (diff.newlyUncovered.length === 0 && diff.newlyCovered.length === 0) {
+    console.log('');
+    console.log(c.dim('  No item changed coverage'));
+  }
+
+  console.log('');
+  console.log(SEP);
+  console.log('');
+}
@@ -0,0 +1,46 @@
+import { coverageDiffRows, formatCoverageItem, type CoverageDiff } from '../coverage/coverage-diff.js';
+
+function signed(value: number): string {
+  if (value === 0) return '±0.0';
+  return value > 0 ? `+${value.toFixed(1)}` : value.toFixed(1);
+}
+
+/**
+ * Render a {@link CoverageDiff} as Markdown suitable for a pull request comment: the
+ * per-dimension change followed by the items that lost and gained coverage.
+ */
+export function generateCoverageDiffMarkdown(diff: CoverageDiff, title = 'API Coverage Diff'): string {
+  const lines: string[] = [
+    `## ${title}`,
+    '',
+    '| Dimension | Base | Head | Change |',
+    '|-----------|-----:|-----:|-------:|',
+    ...coverageDiffRows(diff).map((r) => `| ${r.label} | ${r.base.toFixed(1)}% | ${r.head.toFixed(1)}% | ${signed(r.change)} |`),
+    '',
+  ];
+
+  if (diff.newlyUncovered.length === 0 && diff.newlyCovered.length === 0) {
+    lines.push('No operation, status code, parameter or property changed coverage.', '');
+    return lines.join('\n');
+  }
+
+  if (diff.newlyUncovered.length > 0) {
+    lines.push(`### 🔴 Lost coverage (${diff.newlyUncovered.length})`, '');
+    for (const item of diff.newlyUncovered) lines.push(`- \`${formatCoverageItem(item)}\``);
+    lines.push('');
+  }
+
+  if (diff.newlyCovered.length > 0) {
+    lines.push(
+      '<details>',
+      `<summary>🟢 Newly covered (${diff.newlyCovered.length})</summary>`,
+      '',
+      ...diff.newlyCovered.map((item) => `- \`${formatCoverageItem(item)}\``),
+      '',
+      '</details>',
+      '',
+    );
+  }
+
+  return lines.join('\n');
+}
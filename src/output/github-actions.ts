@@ -4,6 +4,7 @@ import type { ThresholdViolation } from './console.js';
 import type { CoverageDelta } from './history.js';
 import type { CoverageSummary } from '../types.js';
 import { log } from '../log.js';
+import { findUndocumentedStatusCodes } from '../coverage/status-codes.js';
 
 /**
  * Whether the current process is running inside GitHub Actions.
@@ -44,6 +45,10 @@ const ALL_DIMENSIONS: DimensionMeta[] = [
   { key: 'parameters',         label: 'Parameters',          short: 'Parameters',  dim: 'parameters' },
   { key: 'bodyProperties',     label: 'Body Properties',     short: 'Body Props',  dim: 'bodyProperties' },
   { key: 'responseProperties', label: 'Response Properties', short: 'Resp Props',  dim: 'responseProperties' },
+  { key: 'responseConformance', label: 'Response Conformance', short: 'Conformance', dim: 'responseConformance' },
+  { key: 'enumValues',         label: 'Enum Values',         short: 'Enums',       dim: 'enumValues' },
+  { key: 'mediaTypes',         label: 'Media Types',         short: 'Media Types', dim: 'mediaTypes' },
+  { key: 'security',           label: 'Security',            short: 'Security',    dim: 'security' },
 ];
 
 function badge(pct: number): string {
@@ -77,7 +82,7 @@ export async function writeStepSummary(
 
   const { summary } = result;
   const excluded = new Set(excludeDimensions ?? []);
-  const activeDimensions = ALL_DIMENSIONS.filter((d) => !excluded.has(d.dim));
+  const activeDimensions = ALL_DIMENSIONS.filter((d) => !excluded.has(d.dim) && summary[d.key] !== undefined);
 
   const lines: string[] = [
     '## playswag — API Coverage Report',
@@ -87,7 +92,7 @@ export async function writeStepSummary(
   ];
 
   for (const { key, label, dim } of activeDimensions) {
-    const s = summary[key];
+    const s = summary[key]!;
     const d = delta?.[dim as keyof CoverageDelta];
     lines.push(`| ${label} | ${s.covered} | ${s.total} | ${badge(s.percentage)} ${pct(s.percentage)}${deltaStr(d)} |`);
   }
@@ -103,7 +108,10 @@ export async function writeStepSummary(
     lines.push(`| Tag | ${tagCols.map((c) => c.short).join(' | ')} |`);
     lines.push(`|-----|${tagCols.map(() => '---:').join('|')}|`);
     for (const [tag, tc] of tags) {
-      const cells = tagCols.map((c) => `${badge(tc[c.key].percentage)} ${pct(tc[c.key].percentage)}`);
+      const cells = tagCols.map((c) => {
+        const item = tc[c.key];
+        return item ? `${badge(item.percentage)} ${pct(item.percentage)}` : '—';
+      });
       lines.push(`| \`${tag}\` | ${cells.join(' | ')} |`);
     }
     lines.push('');
@@ -120,6 +128,21 @@ export async function writeStepSummary(
     lines.push('');
   }
 
+  const undocumented = findUndocumentedStatusCodes(result);
+  if (undocumented.length > 0) {
+    lines.push('<details>');
+    lines.push(`<summary>Undocumented status codes (${undocumented.length})</summary>`);
+    lines.push('');
+    lines.push('| Method | Path | Status | Tests |');
+    lines.push('|--------|------|--------|-------|');
+    for (const call of undocumented) {
+      lines.push(`| \`${call.method}\` | \`${call.path}\` | ${call.statusCode} | ${call.testRefs.join('<br>')} |`);
+    }
+    lines.push('');
+    lines.push('</details>');
+    lines.push('');
+  }
+
   // Uncovered operations (opt-in)
   if (config.showUncoveredOperations && result.uncoveredOperations.length > 0) {
     lines.push('<details>');
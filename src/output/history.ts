@@ -21,6 +21,14 @@ export interface CoverageDelta {
   parameters: number;
   bodyProperties: number;
   responseProperties: number;
+  /** Present only when both runs recorded response schema conformance. */
+  responseConformance?: number;
+  /** Present only when both runs recorded enum value coverage. */
+  enumValues?: number;
+  /** Present only when both runs recorded media type coverage. */
+  mediaTypes?: number;
+  /** Present only when both runs recorded security coverage. */
+  security?: number;
 }
 
 const DEFAULT_FILE_NAME = 'playswag-history.json';
@@ -105,11 +113,24 @@ export function compareCoverage(
   current: CoverageSummary,
   previous: CoverageSummary
 ): CoverageDelta {
-  return {
+  const delta: CoverageDelta = {
     endpoints:          Math.round((current.endpoints.percentage          - previous.endpoints.percentage)          * 10) / 10,
     statusCodes:        Math.round((current.statusCodes.percentage        - previous.statusCodes.percentage)        * 10) / 10,
     parameters:         Math.round((current.parameters.percentage         - previous.parameters.percentage)         * 10) / 10,
     bodyProperties:     Math.round((current.bodyProperties.percentage     - previous.bodyProperties.percentage)     * 10) / 10,
     responseProperties: Math.round(((current.responseProperties?.percentage ?? 0) - (previous.responseProperties?.percentage ?? 0)) * 10) / 10,
   };
+  if (current.responseConformance && previous.responseConformance) {
+    delta.responseConformance = Math.round((current.responseConformance.percentage - previous.responseConformance.percentage) * 10) / 10;
+  }
+  if (current.enumValues && previous.enumValues) {
+    delta.enumValues = Math.round((current.enumValues.percentage - previous.enumValues.percentage) * 10) / 10;
+  }
+  if (current.mediaTypes && previous.mediaTypes) {
+    delta.mediaTypes = Math.round((current.mediaTypes.percentage - previous.mediaTypes.percentage) * 10) / 10;
+  }
+  if (current.security && previous.security) {
+    delta.security = Math.round((current.security.percentage - previous.security.percentage) * 10) / 10;
+  }
+  return delta;
 }
@@ -0,0 +1,46 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import type { EndpointHit, HitsOutputConfig } from '../types.js';
+
+/**
+ * Write raw endpoint hits as JSON Lines — one hit per line — so coverage can later be
+ * recomputed with `playswag report` against a different spec or config without rerunning tests.
+ */
+export async function writeHitsFile(
+  hits: EndpointHit[],
+  outputDir: string,
+  config: HitsOutputConfig = {}
+): Promise<string> {
+  const { fileName = 'playswag-hits.jsonl' } = config;
+
+  const outputPath = join(outputDir, fileName);
+
+  await mkdir(dirname(outputPath), { recursive: true });
+
+  const content = hits.map((hit) => JSON.stringify(hit)).join('\n');
+  await writeFile(outputPath, hits.length > 0 ? `${content}\n` : '', 'utf8');
+
+  return outputPath;
+}
+
+/**
+ * Read a hits file written by {@link writeHitsFile}. Blank lines are ignored.
+ *
+ * @throws {Error} If a line is not valid JSON, naming the file and line number.
+ */
+export async function readHitsFile(filePath: string): Promise<EndpointHit[]> {
+  const raw = await readFile(filePath, 'utf8');
+  const hits: EndpointHit[] = [];
+  raw.split('\n').forEach((line, i) => {
+    if (line.trim() === '') return;
+    try {
+      hits.push(JSON.parse(line) as EndpointHit);
+    } catch (err) {
+      throw new Error(
+        `[playswag] Invalid JSON on line ${i + 1} of "${filePath}": ${(err as Error).message}`,
+        { cause: err }
+      );
+    }
+  });
+  return hits;
+}
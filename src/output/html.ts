@@ -1,8 +1,10 @@
 import { mkdir, writeFile, readFile } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import type { CoverageResult, HtmlOutputConfig, OperationCoverage, CoverageDimension } from '../types.js';
+import type { CoverageResult, CoverageSummary, HtmlOutputConfig, OperationCoverage, CoverageDimension } from '../types.js';
 import type { HistoryEntry } from './history.js';
+import { buildTestIndex, isCoveredOnlyByFailingTests, type TestIndexEntry } from '../coverage/tests.js';
+import { findUndocumentedStatusCodes } from '../coverage/status-codes.js';
 import { log } from '../log.js';
 
 async function loadLogoDataUrl(): Promise<string> {
@@ -86,6 +88,36 @@ function responseBadges(op: OperationCoverage): string {
   }).join(' ');
 }
 
+function enumBadges(op: OperationCoverage): string {
+  return (op.enumValues ?? []).map((e) => {
+    const where = e.in === 'requestBody' ? 'body' : e.in === 'responseBody' ? `response ${e.statusCode}` : e.in;
+    return `<span class="badge ${e.covered ? 'green' : 'grey'}" title="${esc(where)}">${esc(e.name)}=${esc(JSON.stringify(e.value))}</span>`;
+  }).join(' ');
+}
+
+function mediaTypeBadges(op: OperationCoverage): string {
+  return (op.mediaTypes ?? []).map((m) => {
+    const where = m.direction === 'request' ? 'request body' : `response ${m.statusCode}`;
+    const prefix = m.direction === 'request' ? 'req' : m.statusCode;
+    return `<span class="badge ${m.covered ? 'green' : 'grey'}" title="${esc(where)}">${esc(prefix ?? '')} ${esc(m.mediaType)}</span>`;
+  }).join(' ');
+}
+
+function securityBadges(op: OperationCoverage): string {
+  const badges = (op.securitySchemes ?? []).map((s) => {
+    const scopes = (s.scopes ?? []).map((scope) =>
+      `<span class="badge ${scope.covered ? 'green' : 'grey'}" title="scope of ${esc(s.name)}">${esc(scope.name)}</span>`
+    );
+    return [`<span class="badge ${s.covered ? 'green' : 'grey'}" title="${esc(s.type)}">${esc(s.name)}</span>`, ...scopes].join(' ');
+  });
+  if (op.unauthenticated) {
+    const codes = op.unauthenticated.statusCodes.join(', ');
+    const title = codes ? `unauthenticated calls returned ${codes}` : 'no unauthenticated call recorded';
+    badges.push(`<span class="badge ${op.unauthenticated.rejected ? 'green' : 'grey'}" title="${esc(title)}">unauthenticated → 401/403</span>`);
+  }
+  return badges.join(' ');
+}
+
 /** Combined coverage percentage for a single operation across all sub-dimensions. */
 function operationCoveragePct(op: OperationCoverage, respWeight = 0.5): number {
   const scCovered = Object.values(op.statusCodes).filter((s) => s.covered).length;
@@ -100,9 +132,11 @@ function operationCoveragePct(op: OperationCoverage, respWeight = 0.5): number {
   return denominator === 0 ? (op.covered ? 100 : 0) : (numerator / denominator) * 100;
 }
 
-function miniProgressBar(pct: number, covered: boolean): string {
+function miniProgressBar(pct: number, covered: boolean, failingOnly = false): string {
   const cls = pct >= 80 ? 'green' : pct >= 50 ? 'yellow' : 'red';
-  const icon = covered ? '<span class="tick green">✓</span>' : '<span class="tick red">✗</span>';
+  const icon = covered
+    ? '<span class="tick green">✓</span>'
+    : failingOnly ? '<span class="tick yellow" title="Covered only by failing tests">!</span>' : '<span class="tick red">✗</span>';
   return `<div class="mini-bar-wrap">
           <div class="mini-bar-track"><div class="mini-bar ${cls}" style="width:${Math.min(pct, 100).toFixed(1)}%"></div></div>
           ${icon}
@@ -118,6 +152,7 @@ function operationBlock(op: OperationCoverage, i: number, gid: number, respWeigh
     ? (op.tags ?? []).map((t) => `<span class="tag-badge">${esc(t)}</span>`).join('')
     : '';
   const covPct = operationCoveragePct(op, respWeight);
+  const failingOnly = isCoveredOnlyByFailingTests(op);
 
   return `<div class="op-block${op.deprecated ? ' deprecated' : ''}" data-covered="${op.covered}" data-tags="${esc(tags)}" data-idx="${i}" data-gid="${gid}">
       <div class="op-row m-${op.method.toLowerCase()}">
@@ -125,11 +160,12 @@ function operationBlock(op: OperationCoverage, i: number, gid: number, respWeigh
           <span class="method m-${op.method.toLowerCase()}">${esc(op.method)}</span>
           <span class="op-path${op.deprecated ? ' op-path-deprecated' : ''}">${esc(op.path)}</span>
           ${op.deprecated ? '<span class="deprecated-badge">deprecated</span>' : ''}
+          ${failingOnly ? '<span class="failing-badge">failing tests only</span>' : ''}
           ${op.operationId ? `<span class="opid">${esc(op.operationId)}</span>` : ''}
           ${tagBadges ? `<span class="tag-wrap">${tagBadges}</span>` : ''}
         </div>
         <div class="op-row-right">
-          ${miniProgressBar(covPct, op.covered)}
+          ${miniProgressBar(covPct, op.covered, failingOnly)}
           <span class="chevron" id="chev-${i}">›</span>
         </div>
       </div>
@@ -151,10 +187,26 @@ function operationBlock(op: OperationCoverage, i: number, gid: number, respWeigh
             <div class="detail-label">Response Properties <span class="observed-label" title="These fields were observed in the response body. The test may not have explicitly asserted their values.">observed</span></div>
             <div class="detail-content">${responseBadges(op)}</div>
           </div>
+          ${(op.enumValues ?? []).length > 0 ? `<div class="detail-section">
+            <div class="detail-label">Enum Values</div>
+            <div class="detail-content">${enumBadges(op)}</div>
+          </div>` : ''}
+          ${(op.mediaTypes ?? []).length > 0 ? `<div class="detail-section">
+            <div class="detail-label">Media Types</div>
+            <div class="detail-content">${mediaTypeBadges(op)}</div>
+          </div>` : ''}
+          ${(op.securitySchemes ?? []).length > 0 ? `<div class="detail-section">
+            <div class="detail-label">Security</div>
+            <div class="detail-content">${securityBadges(op)}</div>
+          </div>` : ''}
           <div class="detail-section detail-tests">
             <div class="detail-label">Tests <span class="detail-count">${op.testRefs.length}</span></div>
             <div class="detail-content">${testRefsHtml}</div>
           </div>
+          ${(op.failingTestRefs ?? []).length > 0 ? `<div class="detail-section detail-tests">
+            <div class="detail-label">Failing Tests <span class="detail-count">${op.failingTestRefs!.length}</span></div>
+            <div class="detail-content">${op.failingTestRefs!.map((r) => `<span class="testref">${esc(r)}</span>`).join('')}</div>
+          </div>` : ''}
         </div>
       </div>
     </div>`;
@@ -250,6 +302,165 @@ function unmatchedSection(result: CoverageResult): string {
   </div>`;
 }
 
+function schemaViolationsSection(result: CoverageResult): string {
+  const rows = result.operations.flatMap((op) =>
+    (op.responseViolations ?? []).map((v) =>
+      `<tr>
+      <td class="td-method"><span class="method m-${op.method.toLowerCase()}">${esc(op.method)}</span></td>
+      <td class="td-mono">${esc(op.path)}</td>
+      <td class="td-center"><span class="status-code">${esc(v.statusCode)}</span></td>
+      <td class="td-test">${esc(v.testRef)}</td>
+      <td class="td-mono">${v.errors.map((e) => `${esc(e.path)}: ${esc(e.message)}`).join('<br>')}</td>
+    </tr>`
+    )
+  );
+  if (rows.length === 0) return '';
+  return `<div class="section section-error">
+    <div class="section-head">
+      <div class="section-head-left">
+        <span class="warn-icon">✗</span>
+        <span class="section-title">Response Schema Violations</span>
+        <span class="count">${rows.length}</span>
+      </div>
+      <span class="muted section-hint">Recorded responses whose body does not conform to the spec schema</span>
+    </div>
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Method</th><th>Path</th><th style="text-align:center">Status</th><th>Test</th><th>Violations</th></tr></thead>
+        <tbody>${rows.join('\n        ')}</tbody>
+      </table>
+    </div>
+  </div>`;
+}
+
+function undocumentedStatusCodesSection(result: CoverageResult): string {
+  const calls = findUndocumentedStatusCodes(result);
+  if (calls.length === 0) return '';
+  const rows = calls.map((call) =>
+    `<tr>
+      <td class="td-method"><span class="method m-${call.method.toLowerCase()}">${esc(call.method)}</span></td>
+      <td class="td-mono">${esc(call.path)}</td>
+      <td class="td-center"><span class="status-code${call.statusCode.startsWith('5') ? ' status-5xx' : ''}">${esc(call.statusCode)}</span></td>
+      <td class="td-test">${call.testRefs.map(esc).join('<br>')}</td>
+    </tr>`
+  );
+  return `<div class="section${calls.some((call) => call.statusCode.startsWith('5')) ? ' section-error' : ' section-warn'}">
+    <div class="section-head">
+      <div class="section-head-left">
+        <span class="warn-icon">⚠</span>
+        <span class="section-title">Undocumented Status Codes</span>
+        <span class="count">${calls.length}</span>
+      </div>
+      <span class="muted section-hint">Status codes received that the spec does not declare for the operation</span>
+    </div>
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Method</th><th>Path</th><th style="text-align:center">Status</th><th>Tests</th></tr></thead>
+        <tbody>${rows.join('\n        ')}</tbody>
+      </table>
+    </div>
+  </div>`;
+}
+
+function specDriftSection(result: CoverageResult): string {
+  const rows = result.operations.flatMap((op) =>
+    (op.undocumentedResponseProperties ?? []).map((prop) =>
+      `<tr>
+      <td class="td-method"><span class="method m-${op.method.toLowerCase()}">${esc(op.method.toUpperCase())}</span></td>
+      <td class="td-mono">${esc(op.path)}</td>
+      <td class="td-center"><span class="status-code">${esc(prop.statusCode)}</span></td>
+      <td class="td-mono">${esc(prop.name)}</td>
+      <td class="td-test">${prop.testRefs.map(esc).join('<br>')}</td>
+    </tr>`
+    )
+  );
+  if (rows.length === 0) return '';
+  return `<div class="section section-warn">
+    <div class="section-head">
+      <div class="section-head-left">
+        <span class="warn-icon">⚠</span>
+        <span class="section-title">Spec Drift</span>
+        <span class="count">${rows.length}</span>
+      </div>
+      <span class="muted section-hint">Response properties the API returned but the spec does not declare</span>
+    </div>
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Method</th><th>Path</th><th style="text-align:center">Status</th><th>Property</th><th>Tests</th></tr></thead>
+        <tbody>${rows.join('\n        ')}</tbody>
+      </table>
+    </div>
+  </div>`;
+}
+
+function invalidPayloadsSection(result: CoverageResult): string {
+  const entries = result.operations.flatMap((op) =>
+    (op.invalidRequestBodies ?? []).map((body) => ({ op, body }))
+  );
+  if (entries.length === 0) return '';
+  // Accepted payloads first — those are the ones pointing at drift.
+  entries.sort((x, y) => Number(x.body.rejected) - Number(y.body.rejected));
+  const accepted = entries.filter((e) => !e.body.rejected).length;
+  const rows = entries.map(({ op, body }) =>
+    `<tr>
+      <td class="td-method"><span class="method m-${op.method.toLowerCase()}">${esc(op.method)}</span></td>
+      <td class="td-mono">${esc(op.path)}</td>
+      <td class="td-center"><span class="status-code">${esc(body.statusCode)}</span></td>
+      <td>${body.rejected ? '<span class="muted">Rejected — negative test</span>' : 'Accepted — drift'}</td>
+      <td class="td-test">${esc(body.testRef)}</td>
+      <td class="td-mono">${body.errors.map((e) => `${esc(e.path)}: ${esc(e.message)}`).join('<br>')}</td>
+    </tr>`
+  ).join('\n        ');
+  return `<div class="section${accepted > 0 ? ' section-warn' : ''}">
+    <div class="section-head">
+      <div class="section-head-left">
+        <span class="warn-icon">${accepted > 0 ? '⚠' : 'ℹ'}</span>
+        <span class="section-title">Invalid Request Payloads</span>
+        <span class="count">${entries.length}</span>
+      </div>
+      <span class="muted section-hint">Request bodies that do not conform to the spec schema — 4xx responses usually mean a deliberate negative test</span>
+    </div>
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Method</th><th>Path</th><th style="text-align:center">Status</th><th>Outcome</th><th>Test</th><th>Violations</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  </div>`;
+}
+
+function testsSection(entries: TestIndexEntry[]): string {
+  const redundant = entries.filter((e) => e.uniqueOperations.length === 0 && e.uniqueStatusCodes.length === 0).length;
+  const rows = entries.map((e) => {
+    const unique = [...e.uniqueOperations, ...e.uniqueStatusCodes];
+    const outcome = e.outcome ?? '';
+    const outcomeClass = outcome === 'unexpected' ? 'red' : outcome === 'flaky' ? 'yellow' : outcome === 'expected' ? 'green' : 'grey';
+    return `<tr data-redundant="${unique.length === 0}">
+      <td>${esc(e.titlePath.join(' › '))}<br><span class="td-mono muted">${esc(e.file)}${e.line !== undefined ? `:${e.line}` : ''}</span></td>
+      <td class="td-test">${esc(e.projects.join(', '))}</td>
+      <td>${outcome ? `<span class="badge ${outcomeClass}">${esc(outcome)}</span>` : ''}</td>
+      <td class="td-center">${e.operations.length}</td>
+      <td class="td-center">${e.statusCodes.length}</td>
+      <td class="td-mono">${unique.length > 0 ? unique.map(esc).join('<br>') : '<span class="badge grey">redundant</span>'}</td>
+    </tr>`;
+  }).join('\n        ');
+  return `<div class="section">
+    <div class="section-head">
+      <div class="section-head-left">
+        <span class="section-title">Tests</span>
+        <span class="count">${entries.length}</span>
+      </div>
+      <span class="muted section-hint">${redundant} test${redundant !== 1 ? 's' : ''} cover no operation or status code on their own</span>
+    </div>
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Test</th><th>Projects</th><th>Outcome</th><th style="text-align:center">Operations</th><th style="text-align:center">Status Codes</th><th>Covered only by this test</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  </div>`;
+}
+
 /**
  * Generate a standalone HTML coverage report string.
  * Pure function — no I/O, easy to snapshot-test.
@@ -281,6 +492,18 @@ export function generateHtmlReport(
     ['bodyProperties',     result.summary.bodyProperties.percentage],
     ['responseProperties', result.summary.responseProperties.percentage],
   ];
+  if (result.summary.responseConformance) {
+    dimScores.push(['responseConformance', result.summary.responseConformance.percentage]);
+  }
+  if (result.summary.enumValues) {
+    dimScores.push(['enumValues', result.summary.enumValues.percentage]);
+  }
+  if (result.summary.mediaTypes) {
+    dimScores.push(['mediaTypes', result.summary.mediaTypes.percentage]);
+  }
+  if (result.summary.security) {
+    dimScores.push(['security', result.summary.security.percentage]);
+  }
   const includedScores = dimScores.filter(([dim]) => !excludeDimensions?.includes(dim));
   const overallPct = includedScores.reduce((sum, [, pct]) => sum + pct, 0) / (includedScores.length || 1);
 
@@ -400,6 +623,7 @@ main { max-width: 1280px; margin: 0 auto; padding: 28px 32px; }
 /* ── Section wrapper ── */
 .section { background: var(--surface); border: 1px solid var(--border); border-radius: var(--radius); margin-bottom: 20px; overflow: hidden; box-shadow: var(--shadow); }
 .section-warn { border-color: var(--warn-border); background: var(--warn-bg); }
+.section-error { border-color: var(--red); background: var(--red-bg); }
 .section-head { padding: 14px 20px; border-bottom: 1px solid var(--border); display: flex; align-items: center; justify-content: space-between; gap: 16px; flex-wrap: wrap; }
 .section-head-left { display: flex; align-items: center; gap: 10px; flex-wrap: wrap; }
 .section-title { font-size: 14px; font-weight: 700; color: var(--text); }
@@ -410,6 +634,13 @@ main { max-width: 1280px; margin: 0 auto; padding: 28px 32px; }
 .filter-btn { background: var(--surface2); border: 1px solid var(--border); border-radius: 20px; padding: 4px 13px; cursor: pointer; font-size: 12px; font-weight: 500; color: var(--text2); transition: all .15s; }
 .filter-btn.active, .filter-btn:hover { background: var(--blue); border-color: var(--blue); color: #fff; }
 
+/* ── Operations / Tests tabs ── */
+.tab-bar { display: flex; gap: 6px; margin-bottom: 12px; }
+.tab-btn { background: var(--surface); border: 1px solid var(--border); border-radius: 6px; padding: 6px 16px; cursor: pointer; font-size: 13px; font-weight: 600; color: var(--text2); }
+.tab-btn.active { background: var(--blue); border-color: var(--blue); color: #fff; }
+.tab-panel { display: none; }
+.tab-panel.active { display: block; }
+
 /* ── Swagger-style ops list ── */
 .ops-list { padding: 12px 16px; display: flex; flex-direction: column; gap: 6px; }
 
@@ -468,6 +699,7 @@ main { max-width: 1280px; margin: 0 auto; padding: 28px 32px; }
 .opid { font-size: 10px; color: var(--muted); }
 .tag-wrap { display: inline-flex; flex-wrap: wrap; gap: 3px; }
 .tag-badge { background: var(--blue-bg); color: var(--blue); border-radius: 10px; padding: 1px 7px; font-size: 10px; font-weight: 600; }
+.failing-badge { background: var(--red-bg); color: var(--red); border: 1px solid var(--red); border-radius: 10px; padding: 1px 8px; font-size: 10px; font-weight: 700; letter-spacing: .03em; font-family: ui-sans-serif, system-ui, sans-serif; }
 .deprecated-badge { background: var(--yellow-bg); color: var(--yellow); border: 1px solid var(--yellow); border-radius: 10px; padding: 1px 8px; font-size: 10px; font-weight: 700; letter-spacing: .03em; font-family: ui-sans-serif, system-ui, sans-serif; }
 
 /* ── Detail inner (expanded panel) ── */
@@ -499,6 +731,7 @@ main { max-width: 1280px; margin: 0 auto; padding: 28px 32px; }
 .tick { font-size: 16px; font-weight: 800; }
 .tick.green { color: var(--green); }
 .tick.red { color: var(--red); }
+.tick.yellow { color: var(--yellow); }
 
 /* ── Sparklines ── */
 .sparkline { display: block; margin-top: 6px; overflow: visible; }
@@ -527,6 +760,7 @@ td { padding: 10px 16px; border-bottom: 1px solid var(--border); vertical-align:
 .td-mono { font-family: ui-monospace, monospace; word-break: break-all; font-size: 12px; }
 .td-test { color: var(--text2); font-size: 12px; }
 .status-code { background: var(--grey-bg); border-radius: 4px; padding: 2px 7px; font-family: ui-monospace, monospace; font-size: 12px; }
+.status-code.status-5xx { background: var(--red-bg); color: var(--red); }
 
 /* ── Misc ── */
 .muted { color: var(--muted); }
@@ -608,6 +842,17 @@ footer { text-align: center; padding: 24px 32px; color: var(--muted); font-size:
     });
   });
 
+  // Operations / Tests tabs
+  var tabBtns=document.querySelectorAll('.tab-btn');
+  tabBtns.forEach(function(b){
+    b.addEventListener('click',function(){
+      tabBtns.forEach(function(x){x.classList.toggle('active',x===b);});
+      document.querySelectorAll('.tab-panel').forEach(function(p){
+        p.classList.toggle('active',p.id==='tab-'+b.getAttribute('data-tab'));
+      });
+    });
+  });
+
   // Operation expand/collapse
   opBlocks.forEach(function(block){
     var row=block.querySelector('.op-row');
@@ -625,16 +870,19 @@ footer { text-align: center; padding: 24px 32px; color: var(--muted); font-size:
 })();`.trim();
 
   // Extract sparkline history values per dimension (include current run at the end)
-  function sparkVals(dim: 'endpoints' | 'statusCodes' | 'parameters' | 'bodyProperties' | 'responseProperties'): number[] | undefined {
-    if (historyEntries.length === 0) return undefined;
+  function sparkVals(dim: keyof CoverageSummary): number[] | undefined {
+    const current = result.summary[dim];
+    if (historyEntries.length === 0 || !current) return undefined;
     const vals = historyEntries.map((e) => (e.summary[dim]?.percentage ?? 0));
     // Append current run if it differs from last history entry (current run hasn't been appended yet)
-    if (vals[vals.length - 1] !== result.summary[dim].percentage) {
-      vals.push(result.summary[dim].percentage);
+    if (vals[vals.length - 1] !== current.percentage) {
+      vals.push(current.percentage);
     }
     return vals.length >= 2 ? vals : undefined;
   }
 
+  const testIndex = buildTestIndex(result);
+
   const overallClass = overallPct >= 80 ? 'green' : overallPct >= 50 ? 'yellow' : 'red';
 
   return `<!DOCTYPE html>
@@ -675,6 +923,10 @@ footer { text-align: center; padding: 24px 32px; color: var(--muted); font-size:
     ${!excludeDimensions?.includes('parameters') ? summaryCard('Parameters', result.summary.parameters.covered, result.summary.parameters.total, result.summary.parameters.percentage, sparkVals('parameters')) : ''}
     ${!excludeDimensions?.includes('bodyProperties') ? summaryCard('Body Properties', result.summary.bodyProperties.covered, result.summary.bodyProperties.total, result.summary.bodyProperties.percentage, sparkVals('bodyProperties')) : ''}
     ${!excludeDimensions?.includes('responseProperties') ? summaryCard('Response Properties', result.summary.responseProperties.covered, result.summary.responseProperties.total, result.summary.responseProperties.percentage, sparkVals('responseProperties')) : ''}
+    ${result.summary.responseConformance && !excludeDimensions?.includes('responseConformance') ? summaryCard('Response Conformance', result.summary.responseConformance.covered, result.summary.responseConformance.total, result.summary.responseConformance.percentage, sparkVals('responseConformance')) : ''}
+    ${result.summary.enumValues && !excludeDimensions?.includes('enumValues') ? summaryCard('Enum Values', result.summary.enumValues.covered, result.summary.enumValues.total, result.summary.enumValues.percentage, sparkVals('enumValues')) : ''}
+    ${result.summary.mediaTypes && !excludeDimensions?.includes('mediaTypes') ? summaryCard('Media Types', result.summary.mediaTypes.covered, result.summary.mediaTypes.total, result.summary.mediaTypes.percentage, sparkVals('mediaTypes')) : ''}
+    ${result.summary.security && !excludeDimensions?.includes('security') ? summaryCard('Security', result.summary.security.covered, result.summary.security.total, result.summary.security.percentage, sparkVals('security')) : ''}
   </div>
 
   <div class="coverage-legend">
@@ -684,24 +936,40 @@ footer { text-align: center; padding: 24px 32px; color: var(--muted); font-size:
     <span class="legend-item"><span class="badge grey legend-badge">missing</span> Never seen in any test run</span>
   </div>
 
-  <div class="section">
-    <div class="section-head">
-      <div class="section-head-left">
-        <span class="section-title">Operations</span>
-        <span class="count">${result.operations.length}</span>
-        <div class="filter-bar">
-          <button class="filter-btn active" data-filter="all">All</button>
-          <button class="filter-btn" data-filter="covered">Covered</button>
-          <button class="filter-btn" data-filter="uncovered">Uncovered</button>
-          ${tagFilterButtons(result.operations)}
+  ${testIndex.length > 0 ? `<div class="tab-bar">
+    <button class="tab-btn active" data-tab="operations">Operations</button>
+    <button class="tab-btn" data-tab="tests">Tests</button>
+  </div>` : ''}
+
+  <div class="tab-panel active" id="tab-operations">
+    <div class="section">
+      <div class="section-head">
+        <div class="section-head-left">
+          <span class="section-title">Operations</span>
+          <span class="count">${result.operations.length}</span>
+          <div class="filter-bar">
+            <button class="filter-btn active" data-filter="all">All</button>
+            <button class="filter-btn" data-filter="covered">Covered</button>
+            <button class="filter-btn" data-filter="uncovered">Uncovered</button>
+            ${tagFilterButtons(result.operations)}
+          </div>
         </div>
       </div>
-    </div>
-    <div class="ops-list">
-      ${tagGroupedBlocks(result.operations, responsePropertiesWeight)}
+      <div class="ops-list">
+        ${tagGroupedBlocks(result.operations, responsePropertiesWeight)}
+      </div>
     </div>
   </div>
 
+  ${testIndex.length > 0 ? `<div class="tab-panel" id="tab-tests">
+    ${testsSection(testIndex)}
+  </div>` : ''}
+
+  ${!excludeDimensions?.includes('responseConformance') ? schemaViolationsSection(result) : ''}
+  ${undocumentedStatusCodesSection(result)}
+  ${specDriftSection(result)}
+  ${invalidPayloadsSection(result)}
+
   ${unmatchedSection(result)}
 </main>
 <footer>
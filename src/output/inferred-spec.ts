@@ -0,0 +1,68 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import type { EndpointHit, InferredSpecOutputConfig } from '../types.js';
+import { inferSpec } from '../openapi/infer.js';
+
+/** Plain YAML scalars that do not need quoting: no indicators, not a number, boolean or null. */
+const PLAIN = /^[A-Za-z_/][\w./-]*$/;
+const RESERVED = /^(true|false|null|yes|no|on|off|y|n|~)$/i;
+
+function scalar(value: unknown): string {
+  if (typeof value === 'string') return PLAIN.test(value) && !RESERVED.test(value) ? value : JSON.stringify(value);
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Serialize JSON-compatible data as block-style YAML. Strings that could be read as
+ * another type or contain indicators are double-quoted, which YAML reads as JSON strings.
+ */
+export function toYaml(value: unknown, indent = ''): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return value
+      .map((item) => {
+        const nested = toYaml(item, `${indent}  `);
+        return isBlock(item) ? `${indent}- ${nested.trimStart()}` : `${indent}- ${nested}`;
+      })
+      .join('\n');
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    return entries
+      .map(([key, item]) => isBlock(item)
+        ? `${indent}${scalar(key)}:\n${toYaml(item, `${indent}  `)}`
+        : `${indent}${scalar(key)}: ${toYaml(item, `${indent}  `)}`)
+      .join('\n');
+  }
+  return scalar(value);
+}
+
+/** Whether `value` is a non-empty object or array, written on the lines below its key. */
+function isBlock(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && Object.keys(value).length > 0;
+}
+
+/**
+ * Write an OpenAPI 3.1 document inferred from `hits` — usually the unmatched ones — for
+ * review before pasting it into the spec. Written as YAML, or as JSON when `fileName`
+ * ends with `.json`.
+ */
+export async function writeInferredSpec(
+  hits: EndpointHit[],
+  outputDir: string,
+  config: InferredSpecOutputConfig = {},
+  baseURL?: string
+): Promise<string> {
+  const { fileName = 'playswag-inferred-spec.yaml' } = config;
+
+  const outputPath = join(outputDir, fileName);
+
+  await mkdir(dirname(outputPath), { recursive: true });
+
+  const doc = inferSpec(hits, baseURL);
+  const content = fileName.endsWith('.json') ? JSON.stringify(doc, null, 2) : toYaml(doc);
+  await writeFile(outputPath, `${content}\n`, 'utf8');
+
+  return outputPath;
+}
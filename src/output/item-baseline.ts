@@ -0,0 +1,92 @@
+import { readFile, mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { CoverageDimension, CoverageResult, ItemBaselineConfig } from '../types.js';
+import { coveredItemKeys, findLostCoverage, formatCoverageItem, type CoverageItemChange } from '../coverage/coverage-diff.js';
+import type { ThresholdViolation } from './console.js';
+import { log } from '../log.js';
+
+/** Contents of an item baseline file. */
+export interface ItemBaseline {
+  timestamp: string;
+  specFiles: string[];
+  /** Keys of the covered items, see `coverageItemKey`. */
+  coveredItems: string[];
+}
+
+const ELEMENT_DIMENSIONS: Record<CoverageItemChange['element'], CoverageDimension> = {
+  operation: 'endpoints',
+  statusCode: 'statusCodes',
+  parameter: 'parameters',
+  bodyProperty: 'bodyProperties',
+  responseProperty: 'responseProperties',
+};
+
+/**
+ * Read an item baseline file. Returns `undefined` when the file does not exist yet.
+ *
+ * @throws {Error} If the file cannot be read or parsed, or lists no covered items.
+ */
+export async function readItemBaseline(path: string): Promise<ItemBaseline | undefined> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw new Error(`[playswag] Could not read item baseline ${path}: ${(err as Error).message}`, { cause: err });
+  }
+
+  if (!Array.isArray((parsed as Partial<ItemBaseline> | null)?.coveredItems)) {
+    throw new Error(`[playswag] Item baseline ${path} has no coveredItems list`);
+  }
+  return parsed as ItemBaseline;
+}
+
+/**
+ * Return one violation per item that is covered in `baseline` but not in `result`.
+ * Items of dimensions in `excludeDimensions` are skipped.
+ */
+export function checkItemBaseline(
+  result: CoverageResult,
+  baseline: ItemBaseline,
+  config: Pick<ItemBaselineConfig, 'fail'> = {},
+  excludeDimensions?: CoverageDimension[]
+): ThresholdViolation[] {
+  const { fail = true } = config;
+  return findLostCoverage(result, baseline.coveredItems)
+    .filter((item) => !excludeDimensions?.includes(ELEMENT_DIMENSIONS[item.element]))
+    .map((item) => ({ message: `${formatCoverageItem(item)} is no longer covered (covered in the item baseline)`, fail }));
+}
+
+/**
+ * Check `result` against `config.file` and, when `config.update` is set, no item was lost
+ * and the covered set changed, write the items covered by this run back to it.
+ *
+ * @param result            - The run to check.
+ * @param config            - Item baseline configuration.
+ * @param excludeDimensions - Dimensions whose items are not compared.
+ * @returns Violations to report alongside threshold violations.
+ * @throws {Error} If the baseline file cannot be read.
+ */
+export async function applyItemBaseline(
+  result: CoverageResult,
+  config: ItemBaselineConfig,
+  excludeDimensions?: CoverageDimension[]
+): Promise<ThresholdViolation[]> {
+  const baseline = await readItemBaseline(config.file);
+  const violations = baseline ? checkItemBaseline(result, baseline, config, excludeDimensions) : [];
+
+  if (config.update && violations.length === 0) {
+    const coveredItems = coveredItemKeys(result);
+    // Leave the file untouched when the covered set did not change, to avoid commit noise
+    if (coveredItems.join('\n') !== baseline?.coveredItems.join('\n')) {
+      const entry: ItemBaseline = { timestamp: result.timestamp, specFiles: result.specFiles, coveredItems };
+      await mkdir(dirname(config.file), { recursive: true });
+      await writeFile(config.file, JSON.stringify(entry, null, 2), 'utf8');
+      log.info(`Item baseline updated → ${config.file}`);
+    }
+  } else if (!baseline) {
+    log.warn(`Item baseline ${config.file} does not exist yet — set itemBaseline.update to create it`);
+  }
+
+  return violations;
+}
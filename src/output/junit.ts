@@ -1,6 +1,8 @@
 import { mkdir, writeFile } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
-import type { CoverageResult, JUnitOutputConfig, ThresholdConfig, CoverageDimension } from '../types.js';
+import type { CoverageResult, JUnitOutputConfig, ThresholdConfig, DimensionThresholds, CoverageDimension } from '../types.js';
+import { scopedThresholdChecks, type ThresholdViolation } from './console.js';
+import { findUndocumentedStatusCodes } from '../coverage/status-codes.js';
 
 function xmlEscape(value: string): string {
   return value
@@ -46,6 +48,9 @@ function buildTestCase(tc: DimensionCase): string {
  * Write a JUnit-compatible XML report that represents coverage threshold checks as test cases.
  * One `<testcase>` per coverage dimension; failures are marked when a threshold is violated.
  * If no threshold is configured for a dimension, the testcase always passes.
+ * Tag and operation thresholds add one `<testcase>` per matching tag or operation and dimension.
+ * Each of `extraViolations` (e.g. ratchet drops) is added as a testcase: failed when the violation
+ * fails the run, passing with the message in `<system-out>` when it only warns.
  *
  * Compatible with Jenkins, Azure Pipelines, and GitHub Actions test reporters.
  */
@@ -54,25 +59,32 @@ export async function writeJUnitReport(
   outputDir: string,
   threshold: ThresholdConfig | undefined,
   config: JUnitOutputConfig = {},
-  excludeDimensions?: CoverageDimension[]
+  excludeDimensions?: CoverageDimension[],
+  extraViolations: ThresholdViolation[] = []
 ): Promise<string> {
   const { fileName = 'playswag-junit.xml' } = config;
   const outputPath = join(outputDir, fileName);
 
-  function resolveMin(key: keyof ThresholdConfig): number | null {
+  function resolveMin(key: keyof DimensionThresholds): number | null {
     const entry = threshold?.[key];
     if (entry === undefined) return null;
     return typeof entry === 'number' ? entry : entry.min;
   }
 
-  const allDimensions: Array<{ label: string; key: keyof ThresholdConfig; actual: number }> = [
+  const allDimensions: Array<{ label: string; key: keyof DimensionThresholds; actual: number | undefined }> = [
     { label: 'Endpoint Coverage',          key: 'endpoints',          actual: result.summary.endpoints.percentage },
     { label: 'Status Code Coverage',       key: 'statusCodes',        actual: result.summary.statusCodes.percentage },
     { label: 'Parameter Coverage',         key: 'parameters',         actual: result.summary.parameters.percentage },
     { label: 'Body Property Coverage',     key: 'bodyProperties',     actual: result.summary.bodyProperties.percentage },
     { label: 'Response Property Coverage', key: 'responseProperties', actual: result.summary.responseProperties.percentage },
+    { label: 'Response Schema Conformance', key: 'responseConformance', actual: result.summary.responseConformance?.percentage },
+    { label: 'Enum Value Coverage',        key: 'enumValues',         actual: result.summary.enumValues?.percentage },
+    { label: 'Media Type Coverage',        key: 'mediaTypes',         actual: result.summary.mediaTypes?.percentage },
+    { label: 'Security Coverage',          key: 'security',           actual: result.summary.security?.percentage },
   ];
-  const dimensions = allDimensions.filter(d => !excludeDimensions?.includes(d.key as CoverageDimension));
+  const dimensions = allDimensions
+    .filter(d => !excludeDimensions?.includes(d.key as CoverageDimension))
+    .filter((d): d is { label: string; key: keyof DimensionThresholds; actual: number } => d.actual !== undefined);
 
   let failures = 0;
   const cases: DimensionCase[] = dimensions.map(({ label, key, actual }) => {
@@ -81,17 +93,44 @@ export async function writeJUnitReport(
     if (violated) failures++;
     return { name: label, classname: 'playswag.coverage', actual, threshold: min, violated };
   });
+  for (const check of threshold ? scopedThresholdChecks(result, threshold, false, excludeDimensions) : []) {
+    const violated = check.actual < check.min;
+    if (violated) failures++;
+    cases.push({
+      name: `${check.label} coverage (${check.scope})`,
+      classname: 'playswag.coverage',
+      actual: check.actual,
+      threshold: check.min,
+      violated,
+    });
+  }
 
   const now = new Date(result.timestamp);
   const timestamp = now.toISOString().replace('Z', '');
 
-  const testCaseLines = cases.map(buildTestCase).join('\n');
+  failures += extraViolations.filter((v) => v.fail).length;
+  const extraCases = extraViolations.map((v) => {
+    const msg = xmlEscape(v.message);
+    if (!v.fail) {
+      return `    <testcase name="${msg}" classname="playswag.coverage" time="0">\n      <system-out>${msg}</system-out>\n    </testcase>`;
+    }
+    return `    <testcase name="${msg}" classname="playswag.coverage" time="0">\n      <failure message="${msg}" type="ThresholdViolation">${msg}</failure>\n    </testcase>`;
+  });
+  const testCaseLines = [...cases.map(buildTestCase), ...extraCases].join('\n');
+  const total = cases.length + extraCases.length;
+
+  // Listed for information; failing on undocumented 5xx arrives as an extra violation
+  const undocumented = findUndocumentedStatusCodes(result).map((call) =>
+    xmlEscape(`Undocumented status code: ${call.method} ${call.path} ${call.statusCode} (${call.testRefs.join(', ')})`)
+  );
+  const systemOut = undocumented.length > 0 ? [`    <system-out>${undocumented.join('\n')}</system-out>`] : [];
 
   const xml = [
     '<?xml version="1.0" encoding="UTF-8"?>',
-    `<testsuites name="playswag API Coverage" tests="${cases.length}" failures="${failures}" time="0">`,
-    `  <testsuite name="API Coverage Thresholds" tests="${cases.length}" failures="${failures}" timestamp="${timestamp}" hostname="playswag">`,
+    `<testsuites name="playswag API Coverage" tests="${total}" failures="${failures}" time="0">`,
+    `  <testsuite name="API Coverage Thresholds" tests="${total}" failures="${failures}" timestamp="${timestamp}" hostname="playswag">`,
     testCaseLines,
+    ...systemOut,
     '  </testsuite>',
     '</testsuites>',
     '',
@@ -2,6 +2,10 @@ import { mkdir, writeFile } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
 import type { CoverageResult, MarkdownOutputConfig, CoverageDimension } from '../types.js';
 import type { CoverageDelta } from './history.js';
+import { summaryDimensions } from './console.js';
+import { findDeprecatedCalls } from '../coverage/deprecated.js';
+import { isCoveredOnlyByFailingTests } from '../coverage/tests.js';
+import { findUndocumentedStatusCodes } from '../coverage/status-codes.js';
 
 function badge(pct: number): string {
   if (pct >= 80) return '🟢';
@@ -41,6 +45,22 @@ export function generateMarkdownReport(
     [`| Body Properties | ${summary.bodyProperties.covered} | ${summary.bodyProperties.total} | ${badge(summary.bodyProperties.percentage)} ${pct(summary.bodyProperties.percentage)} | ${deltaStr(delta?.bodyProperties)} |`, 'Body Properties', 'bodyProperties'],
     [`| Response Properties | ${summary.responseProperties.covered} | ${summary.responseProperties.total} | ${badge(summary.responseProperties.percentage)} ${pct(summary.responseProperties.percentage)} | ${deltaStr(delta?.responseProperties)} |`, 'Response Properties', 'responseProperties'],
   ];
+  if (summary.responseConformance) {
+    const rc = summary.responseConformance;
+    summaryDefs.push([`| Response Conformance | ${rc.covered} | ${rc.total} | ${badge(rc.percentage)} ${pct(rc.percentage)} | ${deltaStr(delta?.responseConformance)} |`, 'Response Conformance', 'responseConformance']);
+  }
+  if (summary.enumValues) {
+    const ev = summary.enumValues;
+    summaryDefs.push([`| Enum Values | ${ev.covered} | ${ev.total} | ${badge(ev.percentage)} ${pct(ev.percentage)} | ${deltaStr(delta?.enumValues)} |`, 'Enum Values', 'enumValues']);
+  }
+  if (summary.mediaTypes) {
+    const mt = summary.mediaTypes;
+    summaryDefs.push([`| Media Types | ${mt.covered} | ${mt.total} | ${badge(mt.percentage)} ${pct(mt.percentage)} | ${deltaStr(delta?.mediaTypes)} |`, 'Media Types', 'mediaTypes']);
+  }
+  if (summary.security) {
+    const sec = summary.security;
+    summaryDefs.push([`| Security | ${sec.covered} | ${sec.total} | ${badge(sec.percentage)} ${pct(sec.percentage)} | ${deltaStr(delta?.security)} |`, 'Security', 'security']);
+  }
   const activeSummaryRows = summaryDefs
     .filter(([, , dim]) => !dim || !excludeDimensions?.includes(dim))
     .map(([row]) => row);
@@ -64,8 +84,15 @@ export function generateMarkdownReport(
       ['Parameters',   'parameters',         tc => `${badge(tc.parameters.percentage)} ${pct(tc.parameters.percentage)}`],
       ['Body Props',   'bodyProperties',     tc => `${badge(tc.bodyProperties.percentage)} ${pct(tc.bodyProperties.percentage)}`],
       ['Resp Props',   'responseProperties', tc => `${badge(tc.responseProperties.percentage)} ${pct(tc.responseProperties.percentage)}`],
+      ['Conformance',  'responseConformance', tc => tc.responseConformance ? `${badge(tc.responseConformance.percentage)} ${pct(tc.responseConformance.percentage)}` : '—'],
+      ['Enums',        'enumValues',         tc => tc.enumValues ? `${badge(tc.enumValues.percentage)} ${pct(tc.enumValues.percentage)}` : '—'],
+      ['Media Types',  'mediaTypes',         tc => tc.mediaTypes ? `${badge(tc.mediaTypes.percentage)} ${pct(tc.mediaTypes.percentage)}` : '—'],
+      ['Security',     'security',           tc => tc.security ? `${badge(tc.security.percentage)} ${pct(tc.security.percentage)}` : '—'],
     ];
-    const activeDims = tagDimDefs.filter(([, key]) => !excludeDimensions?.includes(key));
+    // Optional dimensions are only shown when the report recorded them.
+    const activeDims = tagDimDefs.filter(([, key]) =>
+      !excludeDimensions?.includes(key) && summary[key] !== undefined
+    );
 
     lines.push('## Coverage by Tag');
     lines.push('');
@@ -86,7 +113,48 @@ export function generateMarkdownReport(
       lines.push('| Method | Path |');
       lines.push('|--------|------|');
       for (const op of uncovered) {
-        lines.push(`| \`${op.method}\` | \`${op.path}\` |`);
+        const note = isCoveredOnlyByFailingTests(op) ? ' ⚠️ covered only by failing tests' : '';
+        lines.push(`| \`${op.method}\` | \`${op.path}\`${note} |`);
+      }
+      lines.push('');
+    }
+  }
+
+  const undocumented = findUndocumentedStatusCodes(result);
+  if (undocumented.length > 0) {
+    lines.push('## Undocumented Status Codes');
+    lines.push('');
+    lines.push('| Method | Path | Status | Tests |');
+    lines.push('|--------|------|-------:|-------|');
+    for (const call of undocumented) {
+      lines.push(`| \`${call.method}\` | \`${call.path}\` | ${call.statusCode} | ${call.testRefs.join('<br>')} |`);
+    }
+    lines.push('');
+  }
+
+  // Deprecated operations: their separate coverage and the tests that still call them
+  const deprecatedCalls = findDeprecatedCalls(result);
+  if (result.deprecatedSummary || deprecatedCalls.length > 0) {
+    lines.push('## Deprecated Operations');
+    lines.push('');
+    if (result.deprecatedSummary) {
+      const deprecated = result.deprecatedSummary;
+      lines.push('Not counted in the summary above.');
+      lines.push('');
+      lines.push('| Dimension | Covered | Total | Coverage |');
+      lines.push('|-----------|--------:|------:|---------:|');
+      for (const [dim, percentage, label] of summaryDimensions(deprecated)) {
+        if (excludeDimensions?.includes(dim)) continue;
+        const item = deprecated[dim]!;
+        lines.push(`| ${label} | ${item.covered} | ${item.total} | ${badge(percentage)} ${pct(percentage)} |`);
+      }
+      lines.push('');
+    }
+    if (deprecatedCalls.length > 0) {
+      lines.push('| Method | Path | Tests still calling it |');
+      lines.push('|--------|------|------------------------|');
+      for (const call of deprecatedCalls) {
+        lines.push(`| \`${call.method}\` | \`${call.path}\` | ${call.testRefs.join('<br>')} |`);
       }
       lines.push('');
     }
@@ -0,0 +1,132 @@
+import { readFile, mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { CoverageDimension, CoverageResult, CoverageSummary, RatchetConfig } from '../types.js';
+import type { HistoryEntry } from './history.js';
+import { summaryDimensions, type ThresholdViolation } from './console.js';
+import { log } from '../log.js';
+
+/** Normalize `PlayswagConfig.ratchet`; `undefined` when the ratchet is off. */
+export function resolveRatchetConfig(ratchet: boolean | RatchetConfig | undefined): RatchetConfig | undefined {
+  if (!ratchet) return undefined;
+  return ratchet === true ? {} : ratchet;
+}
+
+/**
+ * Read the coverage summary of a committed baseline file: a playswag JSON report, a
+ * history entry, or a history file (its last entry). Returns `undefined` when the file
+ * does not exist yet.
+ *
+ * @throws {Error} If the file cannot be read or parsed, or holds no coverage summary.
+ */
+export async function readBaselineFile(path: string): Promise<CoverageSummary | undefined> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw new Error(`[playswag] Could not read ratchet baseline ${path}: ${(err as Error).message}`, { cause: err });
+  }
+
+  const entry: unknown = Array.isArray(parsed) ? parsed[parsed.length - 1] : parsed;
+  const summary = (entry as { summary?: CoverageSummary } | undefined)?.summary;
+  if (!summary?.endpoints) {
+    throw new Error(`[playswag] Ratchet baseline ${path} has no coverage summary`);
+  }
+  return summary;
+}
+
+/**
+ * Compare a run against its baseline and return one violation per dimension that dropped
+ * by more than `config.tolerance` percentage points. Dimensions missing from either summary
+ * or listed in `excludeDimensions` are skipped.
+ */
+export function checkRatchet(
+  summary: CoverageSummary,
+  baseline: CoverageSummary,
+  config: RatchetConfig = {},
+  excludeDimensions?: CoverageDimension[]
+): ThresholdViolation[] {
+  const { tolerance = 0, fail = true } = config;
+  const before = new Map(summaryDimensions(baseline).map(([dim, pct]) => [dim, pct]));
+  const violations: ThresholdViolation[] = [];
+
+  for (const [dim, actual, label] of summaryDimensions(summary)) {
+    if (excludeDimensions?.includes(dim)) continue;
+    const base = before.get(dim);
+    if (base === undefined) continue;
+    // Round like compareCoverage so floating-point noise never counts as a drop.
+    const drop = Math.round((base - actual) * 10) / 10;
+    if (drop > tolerance) {
+      violations.push({
+        message: `${label} coverage ${actual.toFixed(1)}% dropped ${drop.toFixed(1)} points below the baseline ${base.toFixed(1)}%`,
+        fail,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Per dimension, keep the better of the run and the baseline.
+ * Returns `undefined` when no dimension improved, i.e. there is nothing to write.
+ */
+export function raiseBaseline(summary: CoverageSummary, baseline: CoverageSummary | undefined): CoverageSummary | undefined {
+  if (!baseline) return summary;
+
+  const raised: CoverageSummary = { ...baseline };
+  let improved = false;
+  for (const [dim, actual] of summaryDimensions(summary)) {
+    const previous = baseline[dim];
+    if (!previous || actual > previous.percentage) {
+      Object.assign(raised, { [dim]: summary[dim] });
+      improved = true;
+    }
+  }
+  return improved ? raised : undefined;
+}
+
+/**
+ * The ratchet baseline taken from the history when no `baselineFile` is set: the last entry,
+ * or with `historyBaseline: 'best'` the best summary per dimension across the entries.
+ * Returns `undefined` for an empty history.
+ */
+export function historyBaselineSummary(entries: HistoryEntry[], config: RatchetConfig): CoverageSummary | undefined {
+  if (config.historyBaseline !== 'best') return entries[entries.length - 1]?.summary;
+  let best: CoverageSummary | undefined;
+  for (const entry of entries) best = raiseBaseline(entry.summary, best) ?? best;
+  return best;
+}
+
+/**
+ * Check `result` against the ratchet baseline and, when `config.updateBaseline` is set and
+ * nothing failed, write the raised baseline back to `config.baselineFile`.
+ *
+ * @param result            - The run to check.
+ * @param config            - Resolved ratchet configuration.
+ * @param historyBaseline   - Baseline from the history (see {@link historyBaselineSummary}), used when no `baselineFile` is set.
+ * @param excludeDimensions - Dimensions that are not compared.
+ * @returns Violations to report alongside threshold violations.
+ * @throws {Error} If the baseline file cannot be read.
+ */
+export async function applyRatchet(
+  result: CoverageResult,
+  config: RatchetConfig,
+  historyBaseline: CoverageSummary | undefined,
+  excludeDimensions?: CoverageDimension[]
+): Promise<ThresholdViolation[]> {
+  const baseline = config.baselineFile ? await readBaselineFile(config.baselineFile) : historyBaseline;
+  const violations = baseline ? checkRatchet(result.summary, baseline, config, excludeDimensions) : [];
+
+  if (config.updateBaseline && config.baselineFile && !violations.some((v) => v.fail)) {
+    const raised = raiseBaseline(result.summary, baseline);
+    if (raised) {
+      const entry: HistoryEntry = { timestamp: result.timestamp, specFiles: result.specFiles, summary: raised };
+      await mkdir(dirname(config.baselineFile), { recursive: true });
+      await writeFile(config.baselineFile, JSON.stringify(entry, null, 2), 'utf8');
+      log.info(`Ratchet baseline raised → ${config.baselineFile}`);
+    }
+  }
+
+  return violations;
+}
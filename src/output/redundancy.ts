@@ -0,0 +1,32 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import type { CoverageResult, RedundancyOutputConfig } from '../types.js';
+import type { RedundancyAnalysis } from '../coverage/redundancy.js';
+
+/** Contents of `playswag-redundancy.json`. */
+export interface RedundancyReport extends RedundancyAnalysis {
+  timestamp: string;
+  specFiles: string[];
+}
+
+/**
+ * Write a redundancy analysis (see `analyzeRedundancy`) as JSON, next to the coverage
+ * report of the same run.
+ */
+export async function writeRedundancyReport(
+  analysis: RedundancyAnalysis,
+  result: CoverageResult,
+  outputDir: string,
+  config: RedundancyOutputConfig = {}
+): Promise<string> {
+  const { fileName = 'playswag-redundancy.json' } = config;
+
+  const outputPath = join(outputDir, fileName);
+
+  await mkdir(dirname(outputPath), { recursive: true });
+
+  const report: RedundancyReport = { timestamp: result.timestamp, specFiles: result.specFiles, ...analysis };
+  await writeFile(outputPath, JSON.stringify(report, null, 2), 'utf8');
+
+  return outputPath;
+}
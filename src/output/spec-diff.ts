@@ -0,0 +1,83 @@
+import type { SpecChange, SpecDiff } from '../coverage/spec-diff.js';
+
+/** One-line description of a change, without the operation. */
+function describeSpecChange(change: SpecChange): string {
+  const action = change.kind === 'changed'
+    ? change.detail ?? 'changed'
+    : change.detail ? `${change.kind} (${change.detail})` : change.kind;
+  switch (change.element) {
+    case 'operation':        return `Operation ${action}`;
+    case 'parameter':        return `Parameter \`${change.name}\` ${action}`;
+    case 'statusCode':       return `Response \`${change.name}\` ${action}`;
+    case 'requestProperty':  return `Request body property \`${change.name}\` ${action}`;
+    case 'responseProperty': return `Response \`${change.statusCode}\` property \`${change.name}\` ${action}`;
+  }
+}
+
+const KIND_ICONS: Record<SpecChange['kind'], string> = { added: '➕', removed: '➖', changed: '✏️' };
+
+function changeRow(change: SpecChange, withTested: boolean): string {
+  const tested = change.covered === undefined ? '' : change.covered ? '✅' : '❌';
+  const cells = [
+    KIND_ICONS[change.kind],
+    `\`${change.method} ${change.path}\``,
+    describeSpecChange(change),
+    change.breaking ? '⚠️' : '',
+    ...(withTested ? [tested] : []),
+  ];
+  return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * Render a {@link SpecDiff} as Markdown suitable for a pull request comment: a count
+ * table, the breaking changes, the new surface without tests (when coverage was given)
+ * and every change in a collapsible section.
+ */
+export function generateSpecDiffMarkdown(diff: SpecDiff, title = 'API Spec Changes'): string {
+  const { changes } = diff;
+  const lines: string[] = [`## ${title}`, ''];
+  const sources = (s: string[]): string => s.map((x) => `\`${x}\``).join(', ');
+  lines.push(`${sources(diff.oldSources)} → ${sources(diff.newSources)}`, '');
+
+  if (changes.length === 0) {
+    lines.push('No changes to operations, parameters, status codes or schema properties.', '');
+    return lines.join('\n');
+  }
+
+  const withTested = changes.some((c) => c.covered !== undefined);
+  const breaking = changes.filter((c) => c.breaking);
+  const untested = changes.filter((c) => c.covered === false);
+  const count = (kind: SpecChange['kind']): number => changes.filter((c) => c.kind === kind).length;
+
+  lines.push(
+    `| Added | Removed | Changed | Breaking |${withTested ? ' Untested additions |' : ''}`,
+    `|------:|--------:|--------:|---------:|${withTested ? '-------------------:|' : ''}`,
+    `| ${count('added')} | ${count('removed')} | ${count('changed')} | ${breaking.length} |${withTested ? ` ${untested.length} |` : ''}`,
+    '',
+  );
+
+  if (breaking.length > 0) {
+    lines.push('### ⚠️ Breaking changes', '', '| Operation | Change |', '|-----------|--------|');
+    for (const c of breaking) lines.push(`| \`${c.method} ${c.path}\` | ${describeSpecChange(c)} |`);
+    lines.push('');
+  }
+
+  if (untested.length > 0) {
+    lines.push('### ❌ New surface without tests', '', '| Operation | Change |', '|-----------|--------|');
+    for (const c of untested) lines.push(`| \`${c.method} ${c.path}\` | ${describeSpecChange(c)} |`);
+    lines.push('');
+  }
+
+  lines.push(
+    `<details><summary>All changes (${changes.length})</summary>`,
+    '',
+    `| | Operation | Change | Breaking |${withTested ? ' Tested |' : ''}`,
+    `|-|-----------|--------|:--------:|${withTested ? ':------:|' : ''}`,
+    ...changes.map((c) => changeRow(c, withTested)),
+    '',
+    '</details>',
+    '',
+  );
+
+  return lines.join('\n');
+}
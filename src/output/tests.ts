@@ -0,0 +1,36 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import type { CoverageResult, TestsOutputConfig } from '../types.js';
+import { buildTestIndex, type TestIndexEntry } from '../coverage/tests.js';
+
+/** Contents of `playswag-tests.json`. */
+export interface TestIndexReport {
+  timestamp: string;
+  specFiles: string[];
+  tests: TestIndexEntry[];
+}
+
+/**
+ * Write the reverse test index of `result` (see {@link buildTestIndex}) as JSON, so tests
+ * that cover nothing on their own can be found and deleted.
+ */
+export async function writeTestIndex(
+  result: CoverageResult,
+  outputDir: string,
+  config: TestsOutputConfig = {}
+): Promise<string> {
+  const { fileName = 'playswag-tests.json' } = config;
+
+  const outputPath = join(outputDir, fileName);
+
+  await mkdir(dirname(outputPath), { recursive: true });
+
+  const report: TestIndexReport = {
+    timestamp: result.timestamp,
+    specFiles: result.specFiles,
+    tests: buildTestIndex(result),
+  };
+  await writeFile(outputPath, JSON.stringify(report, null, 2), 'utf8');
+
+  return outputPath;
+}
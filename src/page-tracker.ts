@@ -0,0 +1,87 @@
+import type { Request, Response, TestInfo } from '@playwright/test';
+import type { EndpointHit } from './types.js';
+import { normalizeMediaType } from './coverage/media-types.js';
+import { extractTokenScopes, redactHeaders, redactQueryParams, redactUrl } from './coverage/security.js';
+
+/**
+ * Resource types recorded from browser traffic. Documents, scripts, stylesheets, images
+ * and the like are page assets rather than API calls, so they are ignored.
+ */
+const TRACKED_RESOURCE_TYPES = new Set(['fetch', 'xhr']);
+
+/** Parse a request's post data: JSON (or form fields) as an object, anything else as the raw string. */
+function parsePostData(request: Request): unknown {
+  const raw = request.postData();
+  if (raw === null) return undefined;
+  try {
+    return request.postDataJSON() ?? raw;
+  } catch {
+    // Not JSON — keep the raw payload so request body validation can skip it.
+    return raw;
+  }
+}
+
+/**
+ * Build an {@link EndpointHit} from a response the browser received while a test drove
+ * the UI. Returns `undefined` for anything that is not a `fetch` / XHR call, and when the
+ * page or context closed before the request headers could be read.
+ *
+ * Headers are the ones the browser actually sent (`allHeaders()`, which unlike `headers()`
+ * includes `Cookie` and other security-related headers), so session cookies and tokens added
+ * by the frontend are seen by security coverage; they are redacted like `request` fixture hits.
+ */
+export async function buildPageHit(
+  response: Response,
+  testInfo: Pick<TestInfo, 'titlePath' | 'title'>,
+  captureResponseBody = true
+): Promise<EndpointHit | undefined> {
+  const request = response.request();
+  if (!TRACKED_RESOURCE_TYPES.has(request.resourceType())) return undefined;
+
+  let queryParams: Record<string, string> | undefined;
+  try {
+    const urlSearchParams = new URL(response.url()).searchParams;
+    if (urlSearchParams.size > 0) {
+      queryParams = {};
+      urlSearchParams.forEach((value, key) => { queryParams![key] = value; });
+    }
+  } catch {
+    // Invalid URL — skip URL param extraction
+  }
+
+  let headers: Record<string, string>;
+  try {
+    headers = await request.allHeaders();
+  } catch {
+    // The page or context closed before the request finished — drop the call
+    return undefined;
+  }
+  const responseHeaders = response.headers();
+
+  let responseBody: unknown | undefined;
+  if (captureResponseBody) {
+    try {
+      const raw = await response.body();
+      if (raw.length > 0) {
+        responseBody = JSON.parse(raw.toString('utf8'));
+      }
+    } catch {
+      // Non-JSON body, redirect, or the page navigated away before the body was read
+    }
+  }
+
+  return {
+    method: request.method().toUpperCase(),
+    url: redactUrl(response.url()),
+    statusCode: response.status(),
+    requestBody: parsePostData(request),
+    responseBody,
+    requestContentType: normalizeMediaType(headers['content-type']),
+    responseContentType: normalizeMediaType(responseHeaders['content-type']),
+    authScopes: extractTokenScopes(headers['authorization']),
+    queryParams: queryParams && redactQueryParams(queryParams),
+    headers: redactHeaders(headers),
+    testFile: testInfo.titlePath[0] ?? '',
+    testTitle: testInfo.title,
+  };
+}
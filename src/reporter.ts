@@ -1,8 +1,7 @@
 import { readFileSync } from 'node:fs';
 import { createRequire } from 'node:module';
-import { resolve, dirname, join } from 'node:path';
+import { resolve, dirname, join, basename } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import picomatch from 'picomatch';
 import { log } from './log.js';
 import type {
   Reporter,
@@ -12,12 +11,15 @@ import type {
   TestResult,
   FullResult,
 } from '@playwright/test/reporter';
-import type { AcknowledgedService, EndpointHit, PlayswagConfig, CoverageResult, NormalizedSpec } from './types.js';
+import type { AcknowledgedService, EndpointHit, HitTestCase, PlayswagConfig, CoverageResult, NormalizedSpec } from './types.js';
 import type { HistoryEntry, CoverageDelta } from './output/history.js';
 import { ATTACHMENT_NAME } from './constants.js';
 import { parseSpecs } from './openapi/parser.js';
 import { calculateCoverage } from './coverage/calculator.js';
-import { printConsoleReport, checkThresholds } from './output/console.js';
+import { analyzeRedundancy, type RedundancyAnalysis } from './coverage/redundancy.js';
+import { checkUndocumentedServerErrors } from './coverage/status-codes.js';
+import { apiKeyParamNames, redactHit } from './coverage/security.js';
+import { printConsoleReport, checkThresholds, type ThresholdViolation } from './output/console.js';
 import { writeJsonReport } from './output/json.js';
 import { writeHtmlReport } from './output/html.js';
 import { writeBadge } from './output/badge.js';
@@ -25,7 +27,14 @@ import { writeJUnitReport } from './output/junit.js';
 import { appendToHistory, loadLastEntry, loadAllEntries, compareCoverage } from './output/history.js';
 import { isGitHubActions, emitAnnotations, writeStepSummary } from './output/github-actions.js';
 import { writeMarkdownReport } from './output/markdown.js';
+import { applyRatchet, historyBaselineSummary, resolveRatchetConfig } from './output/ratchet.js';
+import { applyItemBaseline } from './output/item-baseline.js';
+import { writeHitsFile } from './output/hits.js';
+import { writeTestIndex } from './output/tests.js';
+import { writeRedundancyReport } from './output/redundancy.js';
+import { writeInferredSpec } from './output/inferred-spec.js';
 import { startProgress } from './output/progress.js';
+import { filterHitsByPath, filterOperationsByTags } from './filters.js';
 
 
 
@@ -63,6 +72,24 @@ function readPlayswagVersion(): string {
   }
 }
 
+/** Titles of the `describe` blocks around `test`, followed by its own title. */
+function describeTitlePath(test: TestCase): string[] {
+  const titles = [test.title];
+  for (let suite: Suite | undefined = test.parent; suite?.type === 'describe'; suite = suite.parent) {
+    titles.unshift(suite.title);
+  }
+  return titles;
+}
+
+/**
+ * Key a committed baseline file by project, the way the project's output directory is keyed:
+ * `baselines/ratchet.json` becomes `baselines/<project>/ratchet.json` for a `projectOverrides`
+ * group, so groups do not overwrite each other's baseline. The global group keeps the path as is.
+ */
+function projectBaselinePath(file: string, projectName: string | undefined): string {
+  return projectName ? join(dirname(file), projectName, basename(file)) : file;
+}
+
 
 
 /**
@@ -89,6 +116,8 @@ class PlayswagReporter implements Reporter {
   private readonly projectOverrides = new Map<string, { specs: string | string[]; baseURL?: string; acknowledgedServices?: AcknowledgedService[] }>();
   private baseURL: string | undefined;
   private totalTestCount = 0;
+  /** `apiKey` header and query parameter names of the specs parsed so far. */
+  private readonly sensitiveNames = new Set<string>();
 
   constructor(config: PlayswagConfig) {
     this.config = {
@@ -151,10 +180,19 @@ class PlayswagReporter implements Reporter {
         this.projectOverrides.set(proj.name, { specs: projSpecs, baseURL: projBaseURL, acknowledgedServices: projAcknowledgedServices });
       }
 
+      const testCase: HitTestCase = {
+        line: test.location.line,
+        titlePath: describeTitlePath(test),
+        outcome: test.outcome(),
+        status: result.status,
+        retry: result.retry,
+      };
+
       for (const hit of hits) {
         if (!hit.testFile) hit.testFile = test.location.file;
         if (!hit.testTitle) hit.testTitle = test.title;
         hit.projectName = proj?.name;
+        hit.testCase = testCase;
       }
 
       this.aggregatedHits.push(...hits);
@@ -162,6 +200,16 @@ class PlayswagReporter implements Reporter {
   }
 
   async onEnd(_result: FullResult): Promise<{ status?: FullResult['status'] } | void> {
+    const result = await this.runCoverage();
+    // Written after coverage so the apiKey names declared by the parsed specs are redacted too
+    if (this.config.outputFormats.includes('hits')) {
+      const sensitiveNames = [...this.sensitiveNames];
+      await this.emitHitsOutput(this.aggregatedHits.map((hit) => redactHit(hit, sensitiveNames)));
+    }
+    return result;
+  }
+
+  private async runCoverage(): Promise<{ status?: FullResult['status'] } | void> {
     const stopProgress = startProgress('Calculating coverage…');
 
     if (this.projectOverrides.size > 0) {
@@ -214,7 +262,9 @@ class PlayswagReporter implements Reporter {
         ...(this.config.acknowledgedServices ?? []),
         ...(override.acknowledgedServices ?? []),
       ];
-      const failed = await this.runOutputsForGroup(projectHits, override.specs, projectBaseURL, projectOutputDir, projectAcknowledgedServices);
+      const failed = await this.runOutputsForGroup(
+        projectHits, override.specs, projectBaseURL, projectOutputDir, projectAcknowledgedServices, projectName,
+      );
       if (failed) anyFailed = true;
     }
 
@@ -244,6 +294,42 @@ class PlayswagReporter implements Reporter {
     }
   }
 
+  private async emitHitsOutput(hits: EndpointHit[]): Promise<void> {
+    try {
+      const path = await writeHitsFile(hits, this.config.outputDir, this.config.hitsOutput);
+      log.info(`Raw hits written to ${path}`);
+    } catch (err) {
+      log.error(`Failed to write raw hits: ${(err as Error).message}`);
+    }
+  }
+
+  private async emitTestsOutput(result: CoverageResult, outputDir: string): Promise<void> {
+    try {
+      const path = await writeTestIndex(result, outputDir, this.config.testsOutput);
+      log.info(`Test index written to ${path}`);
+    } catch (err) {
+      log.error(`Failed to write test index: ${(err as Error).message}`);
+    }
+  }
+
+  private async emitRedundancyOutput(analysis: RedundancyAnalysis, result: CoverageResult, outputDir: string): Promise<void> {
+    try {
+      const path = await writeRedundancyReport(analysis, result, outputDir, this.config.redundancyOutput);
+      log.info(`Redundancy report written to ${path} — ${analysis.redundantTests.length} of ${analysis.totalTests} tests add no coverage`);
+    } catch (err) {
+      log.error(`Failed to write redundancy report: ${(err as Error).message}`);
+    }
+  }
+
+  private async emitInferredSpecOutput(hits: EndpointHit[], outputDir: string, baseURL: string | undefined): Promise<void> {
+    try {
+      const path = await writeInferredSpec(hits, outputDir, this.config.inferredSpecOutput, baseURL);
+      log.info(`Inferred spec for ${hits.length} unmatched call(s) written to ${path}`);
+    } catch (err) {
+      log.error(`Failed to write inferred spec: ${(err as Error).message}`);
+    }
+  }
+
   private async emitHtmlOutput(
     result: CoverageResult,
     outputDir: string,
@@ -268,11 +354,17 @@ class PlayswagReporter implements Reporter {
     }
   }
 
-  private async emitJUnitOutput(result: CoverageResult, outputDir: string): Promise<void> {
+  private async emitJUnitOutput(
+    result: CoverageResult,
+    outputDir: string,
+    extraViolations: ThresholdViolation[],
+  ): Promise<void> {
     const junitConfig = { enabled: true, ...this.config.junitOutput };
     if (junitConfig.enabled === false) return;
     try {
-      const path = await writeJUnitReport(result, outputDir, this.config.threshold, junitConfig, this.config.excludeDimensions);
+      const path = await writeJUnitReport(
+        result, outputDir, this.config.threshold, junitConfig, this.config.excludeDimensions, extraViolations,
+      );
       log.info(`JUnit report written to ${path}`);
     } catch (err) {
       log.error(`Failed to write JUnit report: ${(err as Error).message}`);
@@ -310,6 +402,7 @@ class PlayswagReporter implements Reporter {
     baseURL: string | undefined,
     outputDir: string,
     acknowledgedServices?: AcknowledgedService[],
+    projectName?: string,
   ): Promise<boolean> {
     let spec;
     try {
@@ -323,17 +416,22 @@ class PlayswagReporter implements Reporter {
       log.warn('No operations found in the provided spec(s). Coverage cannot be calculated.');
       return false;
     }
+    for (const name of apiKeyParamNames(spec.operations)) this.sensitiveNames.add(name);
 
     spec = this.filterOperationsByTags(spec);
 
-    const coverageResult = calculateCoverage(filteredHits, spec, {
+    const coverageOptions = {
       baseURL,
       playwrightVersion: tryReadVersion('@playwright/test'),
       playswagVersion: readPlayswagVersion(),
       totalTestCount: this.totalTestCount,
       requiredParamsOnly: this.config.requiredParamsOnly,
       acknowledgedServices: acknowledgedServices ?? this.config.acknowledgedServices,
-    });
+      deprecatedOperations: this.config.deprecatedOperations,
+      countFailedTests: this.config.countFailedTests,
+      countDefaultResponses: this.config.countDefaultResponses,
+    };
+    const coverageResult = calculateCoverage(filteredHits, spec, coverageOptions);
 
     const historyConfig = this.config.history ? { enabled: true, ...this.config.history } : undefined;
     const historyEnabled = historyConfig?.enabled !== false;
@@ -351,27 +449,70 @@ class PlayswagReporter implements Reporter {
       }
     }
 
+    // Ratchet drops and items lost since the item baseline are reported everywhere
+    // threshold violations are
+    let ratchetViolations: ThresholdViolation[] = [];
+    let ratchetConfig = resolveRatchetConfig(this.config.ratchet);
+    if (ratchetConfig?.baselineFile) {
+      ratchetConfig = { ...ratchetConfig, baselineFile: projectBaselinePath(ratchetConfig.baselineFile, projectName) };
+    }
+    if (ratchetConfig) {
+      try {
+        ratchetViolations = await applyRatchet(
+          coverageResult, ratchetConfig, historyBaselineSummary(historyEntries, ratchetConfig), this.config.excludeDimensions,
+        );
+      } catch (err) {
+        log.warn(`Could not check coverage ratchet: ${(err as Error).message}`);
+      }
+    }
+
+    let itemViolations: ThresholdViolation[] = [];
+    if (this.config.itemBaseline) {
+      const itemBaseline = { ...this.config.itemBaseline, file: projectBaselinePath(this.config.itemBaseline.file, projectName) };
+      try {
+        itemViolations = await applyItemBaseline(coverageResult, itemBaseline, this.config.excludeDimensions);
+      } catch (err) {
+        log.warn(`Could not check item baseline: ${(err as Error).message}`);
+      }
+    }
+    const serverErrorViolations = this.config.failOnUndocumentedServerErrors ? checkUndocumentedServerErrors(coverageResult) : [];
+    const extraViolations = [...ratchetViolations, ...itemViolations, ...serverErrorViolations];
+
     const formats = this.config.outputFormats;
 
     if (formats.includes('console')) {
       const consoleConfig = { enabled: true, ...this.config.consoleOutput };
       if (consoleConfig.enabled !== false) {
-        await printConsoleReport(coverageResult, consoleConfig, this.config.threshold, this.config.failOnThreshold, delta, this.config.excludeDimensions);
+        await printConsoleReport(
+          coverageResult, consoleConfig, this.config.threshold, this.config.failOnThreshold, delta,
+          this.config.excludeDimensions, extraViolations,
+        );
       }
     }
 
     if (formats.includes('json'))     await this.emitJsonOutput(coverageResult, outputDir);
     if (formats.includes('html'))     await this.emitHtmlOutput(coverageResult, outputDir, historyEntries);
     if (formats.includes('badge'))    await this.emitBadgeOutput(coverageResult, outputDir);
-    if (formats.includes('junit'))    await this.emitJUnitOutput(coverageResult, outputDir);
+    if (formats.includes('junit'))    await this.emitJUnitOutput(coverageResult, outputDir, extraViolations);
     if (formats.includes('markdown')) await this.emitMarkdownOutput(coverageResult, outputDir, delta);
+    if (formats.includes('tests'))    await this.emitTestsOutput(coverageResult, outputDir);
+    if (formats.includes('redundancy')) {
+      await this.emitRedundancyOutput(analyzeRedundancy(filteredHits, spec, coverageOptions, this.config.excludeDimensions), coverageResult, outputDir);
+    }
+    if (formats.includes('inferred-spec')) await this.emitInferredSpecOutput(coverageResult.unmatchedHits, outputDir, baseURL);
 
-    // Append to history after all reports are written
-    if (historyEnabled) await this.saveHistoryData(coverageResult, outputDir, historyConfig ?? {});
+    // Append to history after all reports are written. A run that failed the ratchet is
+    // left out, otherwise it would become the baseline the next run is compared against.
+    if (historyEnabled && !ratchetViolations.some((v) => v.fail)) {
+      await this.saveHistoryData(coverageResult, outputDir, historyConfig ?? {});
+    }
 
-    const violations = this.config.threshold
-      ? checkThresholds(coverageResult, this.config.threshold, this.config.failOnThreshold, this.config.excludeDimensions)
-      : [];
+    const violations = [
+      ...(this.config.threshold
+        ? checkThresholds(coverageResult, this.config.threshold, this.config.failOnThreshold, this.config.excludeDimensions)
+        : []),
+      ...extraViolations,
+    ];
 
     if (isGitHubActions()) {
       if (violations.length > 0) emitAnnotations(violations);
@@ -434,49 +575,11 @@ class PlayswagReporter implements Reporter {
 
 
   private filterOperationsByTags(spec: NormalizedSpec): NormalizedSpec {
-    const { includeTags, excludeTags } = this.config;
-    if (!includeTags?.length && !excludeTags?.length) return spec;
-
-    const operations = spec.operations.filter((op) => {
-      const tags = op.tags ?? [];
-      if (includeTags?.length) {
-        const included = tags.some((t) => includeTags.some((p) => picomatch.isMatch(t, p)));
-        if (!included) return false;
-      }
-      if (excludeTags?.length) {
-        const excluded = tags.some((t) => excludeTags.some((p) => picomatch.isMatch(t, p)));
-        if (excluded) return false;
-      }
-      return true;
-    });
-
-    return { ...spec, operations };
+    return filterOperationsByTags(spec, this.config);
   }
 
   private filterHits(hits: EndpointHit[]): EndpointHit[] {
-    const { includePatterns, excludePatterns } = this.config;
-    if (!includePatterns?.length && !excludePatterns?.length) return hits;
-
-    return hits.filter((hit) => {
-      let path: string;
-      try {
-        path = new URL(hit.url).pathname;
-      } catch {
-        path = hit.url;
-      }
-
-      if (includePatterns?.length) {
-        const included = includePatterns.some((p) => picomatch.isMatch(path, p));
-        if (!included) return false;
-      }
-
-      if (excludePatterns?.length) {
-        const excluded = excludePatterns.some((p) => picomatch.isMatch(path, p));
-        if (excluded) return false;
-      }
-
-      return true;
-    });
+    return filterHitsByPath(hits, this.config);
   }
 }
 
@@ -10,6 +10,18 @@ export interface EndpointHit {
   requestBody?: unknown;
   /** Parsed JSON response body, populated when captureResponseBody is enabled. */
   responseBody?: unknown;
+  /**
+   * Media type of the request body, e.g. `application/json` — taken from an explicit
+   * `Content-Type` header or inferred from the `data` / `form` / `multipart` option.
+   */
+  requestContentType?: string;
+  /** Media type of the response, taken from its `Content-Type` header without parameters. */
+  responseContentType?: string;
+  /**
+   * OAuth scopes carried by the bearer token, read from the JWT `scope` / `scp` claim
+   * before the `Authorization` header is redacted. Absent for opaque tokens.
+   */
+  authScopes?: string[];
   queryParams?: Record<string, string>;
   /** Path parameters extracted from the URL, e.g. { id: '123' } */
   pathParams?: Record<string, string>;
@@ -21,6 +33,47 @@ export interface EndpointHit {
    * Set automatically by the reporter — do not populate manually.
    */
   projectName?: string;
+  /**
+   * Structured details of the Playwright test that made the call.
+   * Set automatically by the reporter — do not populate manually.
+   */
+  testCase?: HitTestCase;
+}
+
+/** Outcome of a Playwright test, as returned by `TestCase.outcome()`. */
+export type TestOutcome = 'expected' | 'unexpected' | 'flaky' | 'skipped';
+
+/** The Playwright test attempt that recorded a hit. */
+export interface HitTestCase {
+  /** Line of the test declaration in `testFile`. */
+  line: number;
+  /** Titles of the enclosing `describe` blocks, followed by the test title. */
+  titlePath: string[];
+  /** Outcome of the test once this attempt finished. */
+  outcome: TestOutcome;
+  /** Status of this attempt: `passed`, `failed`, `timedOut`, `skipped` or `interrupted`. */
+  status: string;
+  /** Zero-based retry index of this attempt. */
+  retry: number;
+}
+
+/**
+ * A test that recorded at least one hit. `id` is the `file > title` string used in `testRefs`.
+ */
+export interface TestReference {
+  id: string;
+  file: string;
+  /** Line of the test declaration. Absent for hits recorded outside the reporter. */
+  line?: number;
+  /** Titles of the enclosing `describe` blocks, followed by the test title. */
+  titlePath: string[];
+  /** Playwright projects the test ran in. */
+  projects: string[];
+  /**
+   * Outcome of the last recorded attempt. When the test ran in several projects, the worst one:
+   * `unexpected`, then `flaky`, `expected` and `skipped`.
+   */
+  outcome?: TestOutcome;
 }
 
 /**
@@ -31,6 +84,16 @@ export interface StatusCodeCoverage {
   testRefs: string[];
 }
 
+/**
+ * A status code an operation returned that its responses do not document — neither by
+ * the exact code, nor by a range such as `5XX`, nor by `default`.
+ */
+export interface UndocumentedStatusCode {
+  statusCode: string;
+  /** Tests that received the status code (`file > title`). */
+  testRefs: string[];
+}
+
 /**
  * Coverage result for a single parameter (query / path / header / cookie).
  */
@@ -69,8 +132,176 @@ export interface OperationCoverage {
   bodyProperties: BodyPropertyCoverage[];
   /** Response body schema properties per status code and whether they were observed */
   responseProperties: ResponsePropertyCoverage[];
+  /**
+   * Schema conformance of recorded response bodies, one entry per status code whose
+   * schema was validated against at least one captured body.
+   * Absent in reports produced before contract validation was introduced.
+   */
+  responseConformance?: ResponseConformanceCoverage[];
+  /** Recorded responses whose body violated the declared response schema. */
+  responseViolations?: ResponseSchemaViolation[];
+  /** Recorded requests whose body violated the declared request body schema. */
+  invalidRequestBodies?: InvalidRequestBody[];
+  /**
+   * Enum members declared on parameters and request/response body fields, and whether
+   * each one was observed in a recorded call.
+   * Absent in reports produced before enum coverage was introduced.
+   */
+  enumValues?: EnumValueCoverage[];
+  /**
+   * Declared request and response media types and whether a recorded call used each one.
+   * Absent in reports produced before media type coverage was introduced.
+   */
+  mediaTypes?: MediaTypeCoverage[];
+  /**
+   * Declared security schemes and whether a recorded call presented credentials for each.
+   * Absent in reports produced before security coverage was introduced.
+   */
+  securitySchemes?: SecuritySchemeCoverage[];
+  /**
+   * Calls made without credentials for any declared scheme. Only set for operations
+   * that require authentication.
+   */
+  unauthenticated?: UnauthenticatedCoverage;
+  /**
+   * Response body properties the API returned but the response schema does not declare.
+   * Only set when a captured response body had one.
+   */
+  undocumentedResponseProperties?: UndocumentedResponseProperty[];
+  /** Status codes returned by recorded calls that the spec does not document. Only set when there are some. */
+  undocumentedStatusCodes?: UndocumentedStatusCode[];
   /** Test references that hit this operation */
   testRefs: string[];
+  /**
+   * Failing tests that hit this operation. Only set when `countFailedTests` is `false`;
+   * their calls are not counted in any other field.
+   */
+  failingTestRefs?: string[];
+}
+
+/** A primitive value allowed by an `enum` schema keyword. */
+export type EnumValue = string | number | boolean | null;
+
+/**
+ * Coverage result for a single enum member of a parameter or body field.
+ */
+export interface EnumValueCoverage {
+  /** Parameter name, or dot-notation property path for body fields. */
+  name: string;
+  /** Where the enum-constrained value lives. */
+  in: 'query' | 'path' | 'header' | 'cookie' | 'requestBody' | 'responseBody';
+  /** The HTTP status code the field belongs to — only set for `responseBody` entries. */
+  statusCode?: string;
+  /** The enum member. */
+  value: EnumValue;
+  covered: boolean;
+}
+
+/**
+ * Coverage result for a single declared request or response media type.
+ */
+export interface MediaTypeCoverage {
+  /** Whether the media type is accepted in the request body or produced in a response. */
+  direction: 'request' | 'response';
+  /** The HTTP status code the media type belongs to — only set for `response` entries. */
+  statusCode?: string;
+  /** The declared media type, e.g. `multipart/form-data`. May be a range such as `image/*`. */
+  mediaType: string;
+  covered: boolean;
+}
+
+/**
+ * Coverage result for a single security scheme declared on an operation.
+ */
+export interface SecuritySchemeCoverage {
+  /** Scheme name as declared in `securitySchemes` / `securityDefinitions`. */
+  name: string;
+  type: NormalizedSecurityScheme['type'];
+  /** Whether a recorded call presented credentials for this scheme. */
+  covered: boolean;
+  /**
+   * Scopes the operation requires from this scheme and whether a recorded bearer token
+   * carried each one. Informational — scopes do not count towards the `security` dimension.
+   */
+  scopes?: Array<{ name: string; covered: boolean }>;
+}
+
+/**
+ * How an operation that requires authentication responded to calls without credentials.
+ */
+export interface UnauthenticatedCoverage {
+  /** Status codes received by calls that presented no credentials for any declared scheme. */
+  statusCodes: string[];
+  /**
+   * Whether such a call received a 401 or 403 that the operation documents, exactly, by a
+   * `4XX` range or by a `default` response.
+   */
+  rejected: boolean;
+}
+
+/**
+ * A single schema rule broken by a recorded request or response body.
+ */
+export interface SchemaValidationError {
+  /** JSON path of the offending value, e.g. `$.items[0].id`. */
+  path: string;
+  /** Human-readable description of the broken rule. */
+  message: string;
+}
+
+/**
+ * Schema conformance of the recorded response bodies for one status code.
+ */
+export interface ResponseConformanceCoverage {
+  /** The HTTP status code whose response schema was validated, e.g. '200'. */
+  statusCode: string;
+  /** Number of recorded response bodies validated against the schema. */
+  validated: number;
+  /** `true` when every validated response body conformed to the schema. */
+  conforming: boolean;
+}
+
+/**
+ * A recorded response whose body did not conform to the declared response schema.
+ */
+export interface ResponseSchemaViolation {
+  /** The HTTP status code the response was validated against. */
+  statusCode: string;
+  /** The test that received the non-conforming response (`file > title`). */
+  testRef: string;
+  /** Schema rules broken by the response body. */
+  errors: SchemaValidationError[];
+}
+
+/**
+ * A property found in recorded response bodies that the response schema does not declare —
+ * the spec has drifted from the API.
+ */
+export interface UndocumentedResponseProperty {
+  /** The HTTP status code of the responses that carried the property. */
+  statusCode: string;
+  /** Dot-notation path of the property; array elements are written `[]`, e.g. `items[].sku`. */
+  name: string;
+  /** Tests that received a response with the property (`file > title`). */
+  testRefs: string[];
+}
+
+/**
+ * A recorded request whose body did not conform to the declared request body schema.
+ */
+export interface InvalidRequestBody {
+  /** The test that sent the invalid payload (`file > title`). */
+  testRef: string;
+  /** The HTTP status code the API answered with. */
+  statusCode: string;
+  /**
+   * `true` when the API rejected the payload with a 4xx status — most likely a deliberate
+   * negative test. `false` means the API accepted a payload the spec does not allow,
+   * which usually points at drift between the tests, the API and the spec.
+   */
+  rejected: boolean;
+  /** Schema rules broken by the request body. */
+  errors: SchemaValidationError[];
 }
 
 /**
@@ -92,8 +323,32 @@ export interface CoverageSummary {
   bodyProperties: CoverageSummaryItem;
   /** Response body property coverage — only populated when specs define response schemas. */
   responseProperties: CoverageSummaryItem;
+  /**
+   * Contract validation — share of exercised status codes whose recorded response bodies
+   * all conformed to the declared schema. Absent in reports produced before this dimension existed.
+   */
+  responseConformance?: CoverageSummaryItem;
+  /**
+   * Share of declared enum members (parameters and body fields) observed in recorded calls.
+   * Absent in reports produced before this dimension existed.
+   */
+  enumValues?: CoverageSummaryItem;
+  /**
+   * Share of declared request and response media types used by recorded calls.
+   * Absent in reports produced before this dimension existed.
+   */
+  mediaTypes?: CoverageSummaryItem;
+  /**
+   * Declared security schemes exercised per operation, plus one check per secured operation
+   * that an unauthenticated call produced a documented 401/403.
+   * Absent in reports produced before this dimension existed.
+   */
+  security?: CoverageSummaryItem;
 }
 
+/** See {@link PlayswagConfig.deprecatedOperations}. */
+export type DeprecatedOperationsPolicy = 'include' | 'exclude' | 'separate';
+
 /**
  * The complete coverage result produced after a test run.
  */
@@ -119,6 +374,18 @@ export interface CoverageResult {
    * (only services that actually received calls are included).
    */
   acknowledgedHits: AcknowledgedServiceHits[];
+  /**
+   * Operations marked `deprecated` in the spec, when `deprecatedOperations` is `'exclude'` or
+   * `'separate'`. They are left out of `summary`, `tagCoverage` and `operations`.
+   */
+  deprecatedOperations?: OperationCoverage[];
+  /** Coverage of `deprecatedOperations`, when `deprecatedOperations` is `'separate'`. */
+  deprecatedSummary?: CoverageSummary;
+  /**
+   * Tests that recorded hits, with their location and outcome.
+   * Absent when no hit carries test details, e.g. hits recorded before they were captured.
+   */
+  tests?: TestReference[];
 }
 
 /**
@@ -161,7 +428,15 @@ export interface NormalizedOperation {
   deprecated?: boolean;
   parameters: NormalizedParameter[];
   requestBodySchema?: NormalizedSchema;
+  /** Media types the request body may be sent as, e.g. `['application/json', 'multipart/form-data']`. */
+  requestMediaTypes?: string[];
   responses: Record<string, NormalizedResponse>;
+  /**
+   * Security requirements. Each entry is one alternative; every scheme inside an alternative
+   * must be satisfied together. `undefined` when no security is declared, `[]` when the
+   * operation is explicitly public, and an empty alternative means authentication is optional.
+   */
+  security?: NormalizedSecurityScheme[][];
   /**
    * The base path prefix extracted from this operation's source spec server definition.
    * E.g. `/modeling-service` or `/dmn-service`. Stripped from recorded URLs before matching.
@@ -176,6 +451,24 @@ export interface NormalizedParameter {
   schema?: NormalizedSchema;
 }
 
+/**
+ * A security scheme referenced by an operation's security requirement.
+ * Swagger 2.0 `basic` schemes are normalized to `type: 'http', scheme: 'basic'`.
+ */
+export interface NormalizedSecurityScheme {
+  /** Scheme name as declared in `securitySchemes` / `securityDefinitions`. */
+  name: string;
+  type: 'http' | 'apiKey' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  /** HTTP authentication scheme for `http` schemes, lower-cased, e.g. `bearer` or `basic`. */
+  scheme?: string;
+  /** Where an `apiKey` is sent. */
+  in?: 'header' | 'query' | 'cookie';
+  /** Header, query parameter or cookie name of an `apiKey`. */
+  paramName?: string;
+  /** Scopes the requirement asks for (OAuth2 / OpenID Connect). */
+  scopes: string[];
+}
+
 export interface NormalizedResponse {
   description?: string;
   /**
@@ -183,6 +476,8 @@ export interface NormalizedResponse {
    * Used to track response body property coverage.
    */
   schema?: NormalizedSchema;
+  /** Media types this response may be returned as. */
+  mediaTypes?: string[];
 }
 
 /**
@@ -198,8 +493,14 @@ export interface ResponsePropertyCoverage {
 
 export interface NormalizedSchema {
   type?: string;
+  /** Whether `null` is an accepted value (OAS 3.0 `nullable` or an OAS 3.1 `['T', 'null']` type). */
+  nullable?: boolean;
+  /** Allowed values — only primitive members are preserved. */
+  enum?: EnumValue[];
   properties?: Record<string, NormalizedSchema>;
   required?: string[];
+  /** `false` forbids undeclared properties; a schema constrains their values. */
+  additionalProperties?: boolean | NormalizedSchema;
   items?: NormalizedSchema;
   allOf?: NormalizedSchema[];
   anyOf?: NormalizedSchema[];
@@ -243,14 +544,23 @@ export interface ThresholdEntry {
  * A single coverage dimension tracked by playswag.
  * Used in {@link PlayswagConfig.excludeDimensions} to opt out of specific dimensions.
  */
-export type CoverageDimension = 'endpoints' | 'statusCodes' | 'parameters' | 'bodyProperties' | 'responseProperties';
+export type CoverageDimension =
+  | 'endpoints'
+  | 'statusCodes'
+  | 'parameters'
+  | 'bodyProperties'
+  | 'responseProperties'
+  | 'responseConformance'
+  | 'enumValues'
+  | 'mediaTypes'
+  | 'security';
 
 /**
- * Threshold configuration for coverage dimensions.
+ * Minimum coverage per dimension.
  * Each key accepts either a plain number (minimum %) or a {@link ThresholdEntry} for
  * fine-grained per-dimension fail control.
  */
-export interface ThresholdConfig {
+export interface DimensionThresholds {
   /** Minimum endpoint coverage percentage, or a {@link ThresholdEntry} */
   endpoints?: number | ThresholdEntry;
   /** Minimum status code coverage percentage, or a {@link ThresholdEntry} */
@@ -261,6 +571,41 @@ export interface ThresholdConfig {
   bodyProperties?: number | ThresholdEntry;
   /** Minimum response body property coverage percentage, or a {@link ThresholdEntry} */
   responseProperties?: number | ThresholdEntry;
+  /** Minimum response schema conformance percentage, or a {@link ThresholdEntry} */
+  responseConformance?: number | ThresholdEntry;
+  /** Minimum enum value coverage percentage, or a {@link ThresholdEntry} */
+  enumValues?: number | ThresholdEntry;
+  /** Minimum media type coverage percentage, or a {@link ThresholdEntry} */
+  mediaTypes?: number | ThresholdEntry;
+  /** Minimum security coverage percentage, or a {@link ThresholdEntry} */
+  security?: number | ThresholdEntry;
+}
+
+/**
+ * Threshold configuration for coverage dimensions.
+ * The dimension keys apply to the whole run; `tags` and `operations` set stricter or looser
+ * minimums for a subset of the API.
+ *
+ * @example
+ * ```ts
+ * threshold: {
+ *   endpoints: 70,
+ *   tags: { payments: { endpoints: 100, statusCodes: 90 }, 'internal-*': { endpoints: 30 } },
+ *   operations: { 'POST /payments': { bodyProperties: 100 }, 'refund*': { statusCodes: 100 } },
+ * }
+ * ```
+ */
+export interface ThresholdConfig extends DimensionThresholds {
+  /**
+   * Thresholds per tag, keyed by tag name or glob. Every matching tag is checked separately
+   * against its entry in `tagCoverage`; untagged operations are under `'(untagged)'`.
+   */
+  tags?: Record<string, DimensionThresholds>;
+  /**
+   * Thresholds per operation, keyed by `'METHOD /path'` (the spec path template) or an
+   * `operationId` glob. Every matching operation is checked separately.
+   */
+  operations?: Record<string, DimensionThresholds>;
 }
 
 /**
@@ -310,6 +655,18 @@ export interface ConsoleOutputConfig {
    * @default false
    */
   showResponseProperties?: boolean;
+  /**
+   * Expand enum value coverage per operation, listing every declared enum member
+   * of parameters and request/response body fields.
+   * @default false
+   */
+  showEnumValues?: boolean;
+  /**
+   * Expand security coverage per operation: which declared schemes (and scopes) were
+   * exercised, and how the operation answered calls without credentials.
+   * @default false
+   */
+  showSecurity?: boolean;
   /**
    * Print a per-tag summary table after the overall summary, showing coverage
    * percentages for each OpenAPI tag across all five dimensions.
@@ -334,6 +691,33 @@ export interface ConsoleOutputConfig {
    * @default true
    */
   showUnmatchedHits?: boolean;
+  /**
+   * Show the response schema violations section, listing every test that received a
+   * response body which does not conform to the declared schema.
+   * @default true
+   */
+  showSchemaViolations?: boolean;
+  /**
+   * List tests that sent a request body which does not conform to the declared
+   * request body schema, split into payloads the API rejected (4xx) and payloads it accepted.
+   * @default true
+   */
+  showInvalidPayloads?: boolean;
+  /**
+   * Warn about tests that still call operations marked `deprecated` in the spec.
+   * @default true
+   */
+  showDeprecatedCalls?: boolean;
+  /**
+   * List the response properties the API returned but the response schemas do not declare.
+   * @default true
+   */
+  showSpecDrift?: boolean;
+  /**
+   * List the status codes recorded calls received that their operations do not document.
+   * @default true
+   */
+  showUndocumentedStatusCodes?: boolean;
 }
 
 /**
@@ -358,6 +742,63 @@ export interface JsonOutputConfig {
   pretty?: boolean;
 }
 
+/**
+ * Raw hits output configuration (`outputFormats: ['hits']`).
+ *
+ * Every recorded {@link EndpointHit} is written as one JSON line, before any path or
+ * tag filtering, so `playswag report` can recompute coverage later with another spec or config.
+ */
+export interface HitsOutputConfig {
+  /**
+   * Output file name inside `outputDir`.
+   * @default 'playswag-hits.jsonl'
+   */
+  fileName?: string;
+}
+
+/**
+ * Test index output configuration (`outputFormats: ['tests']`).
+ *
+ * Lists every test with the operations and status codes it covers, and which of them no
+ * other test covers, to find redundant tests.
+ */
+export interface TestsOutputConfig {
+  /**
+   * Output file name inside `outputDir`.
+   * @default 'playswag-tests.json'
+   */
+  fileName?: string;
+}
+
+/**
+ * Redundancy report output configuration (`outputFormats: ['redundancy']`).
+ *
+ * Picks a minimal set of tests that covers every item all tests cover together and lists
+ * the remaining tests as redundant, with the items each test covers on its own.
+ */
+export interface RedundancyOutputConfig {
+  /**
+   * Output file name inside `outputDir`.
+   * @default 'playswag-redundancy.json'
+   */
+  fileName?: string;
+}
+
+/**
+ * Inferred spec output configuration (`outputFormats: ['inferred-spec']`).
+ *
+ * Writes an OpenAPI 3.1 document describing the calls that matched no spec operation,
+ * with path templates, parameters and schemas inferred from the recorded calls.
+ */
+export interface InferredSpecOutputConfig {
+  /**
+   * Output file name inside `outputDir`. Written as JSON when it ends with `.json`,
+   * as YAML otherwise.
+   * @default 'playswag-inferred-spec.yaml'
+   */
+  fileName?: string;
+}
+
 /**
  * HTML report output configuration.
  *
@@ -405,6 +846,75 @@ export interface HistoryConfig {
   maxEntries?: number;
 }
 
+/**
+ * Ratchet configuration: coverage may not drop below the recorded baseline.
+ *
+ * The baseline is the last entry of the history file, or `baselineFile` when set.
+ * Dimensions listed in `excludeDimensions` are not compared.
+ */
+export interface RatchetConfig {
+  /**
+   * Path (relative to cwd) of a committed baseline JSON: a playswag JSON report, a single
+   * history entry, or a history file (its last entry is used). When omitted, the history file
+   * is the baseline (see `historyBaseline`), so `history` must not be disabled.
+   * Projects with their own `playswagSpecs` use `<dir>/<projectName>/<file>` instead.
+   */
+  baselineFile?: string;
+  /**
+   * Which history value each dimension is compared with when no `baselineFile` is set.
+   * `'last'` uses the last entry. `'best'` uses the best value per dimension across the entries
+   * kept by `history.maxEntries`, so drops within `tolerance` cannot add up over several runs;
+   * a lower best value only ages out of the history, e.g. after the spec grew.
+   * @default 'last'
+   */
+  historyBaseline?: 'last' | 'best';
+  /**
+   * Percentage points a dimension may drop below the baseline before it is a violation.
+   * @default 0
+   */
+  tolerance?: number;
+  /**
+   * Whether a drop fails the run. Set to `false` to only warn.
+   * @default true
+   */
+  fail?: boolean;
+  /**
+   * Rewrite `baselineFile` when a dimension improved and no drop failed the run, so the
+   * baseline only ever moves up. Dimensions that dropped within the tolerance keep their
+   * previous baseline value. Creates the file when it does not exist yet.
+   * @default false
+   */
+  updateBaseline?: boolean;
+}
+
+/**
+ * Item-level coverage baseline configuration.
+ *
+ * The baseline file snapshots which operations, status codes, parameters and request /
+ * response body properties were covered. A run fails when any of them is no longer covered,
+ * even if a percentage stayed the same because other items gained coverage.
+ * Items of dimensions listed in `excludeDimensions`, and items removed from the spec,
+ * are not compared.
+ */
+export interface ItemBaselineConfig {
+  /**
+   * Path (relative to cwd) of the committed snapshot, e.g. `'./playswag-items.json'`.
+   * Projects with their own `playswagSpecs` use `<dir>/<projectName>/<file>` instead.
+   */
+  file: string;
+  /**
+   * Whether a previously covered item that lost coverage fails the run. Set to `false` to only warn.
+   * @default true
+   */
+  fail?: boolean;
+  /**
+   * Rewrite `file` with the items covered by this run when none lost coverage, and create it
+   * when it does not exist yet.
+   * @default false
+   */
+  update?: boolean;
+}
+
 /**
  * JUnit XML output configuration.
  *
@@ -494,7 +1004,7 @@ export interface BadgeConfig {
    * Which coverage dimension to reflect in the badge value.
    * @default 'endpoints'
    */
-  dimension?: 'endpoints' | 'statusCodes' | 'parameters' | 'bodyProperties' | 'responseProperties';
+  dimension?: 'endpoints' | 'statusCodes' | 'parameters' | 'bodyProperties' | 'responseProperties' | 'responseConformance' | 'enumValues' | 'mediaTypes' | 'security';
   /**
    * Label text on the left side of the badge.
    * @default 'API Coverage'
@@ -558,7 +1068,7 @@ export interface PlayswagConfig {
    * Which output formats to produce.
    * @default ['console', 'json']
    */
-  outputFormats?: Array<'console' | 'json' | 'html' | 'badge' | 'junit' | 'markdown'>;
+  outputFormats?: Array<'console' | 'json' | 'html' | 'badge' | 'junit' | 'markdown' | 'hits' | 'tests' | 'redundancy' | 'inferred-spec'>;
 
   /**
    * Base URL of the API under test. Used to strip the host portion when
@@ -614,6 +1124,43 @@ export interface PlayswagConfig {
    */
   requiredParamsOnly?: boolean;
 
+  /**
+   * How operations marked `deprecated` in the spec count towards coverage:
+   * - `'include'` — like every other operation
+   * - `'exclude'` — left out of the summary, tag coverage, operations table and thresholds;
+   *   listed under `deprecatedOperations` in the JSON report
+   * - `'separate'` — like `'exclude'`, and their coverage is reported as its own summary
+   *
+   * Tests calling deprecated operations are listed in the console and Markdown reports with
+   * any policy.
+   * @default 'include'
+   */
+  deprecatedOperations?: DeprecatedOperationsPolicy;
+
+  /**
+   * Whether calls made by failing tests count towards coverage. Either way only the last
+   * attempt of a retried test is used and calls of skipped tests are dropped. With `false`,
+   * calls of tests whose last attempt failed or timed out are left out of every dimension and
+   * recorded as `failingTestRefs` instead. Operations called only by failing tests are reported as such.
+   * @default true
+   */
+  countFailedTests?: boolean;
+
+  /**
+   * Whether `default` responses count toward the status code total. A recorded code that
+   * no declared code or `4XX`-style range matches covers the `default` response; with
+   * `false` it is only treated as documented.
+   * @default true
+   */
+  countDefaultResponses?: boolean;
+
+  /**
+   * Fail the run when a recorded call received a 5xx status code its operation does not
+   * document. Undocumented status codes are reported either way.
+   * @default false
+   */
+  failOnUndocumentedServerErrors?: boolean;
+
   /**
    * Weight applied to the response-properties dimension when computing per-operation
    * coverage percentages in the HTML report. A value of `1.0` treats response
@@ -643,6 +1190,18 @@ export interface PlayswagConfig {
   /** JSON file output options */
   jsonOutput?: JsonOutputConfig;
 
+  /** Raw hits (`playswag-hits.jsonl`) output options */
+  hitsOutput?: HitsOutputConfig;
+
+  /** Test index (`playswag-tests.json`) output options */
+  testsOutput?: TestsOutputConfig;
+
+  /** Redundancy report (`playswag-redundancy.json`) output options */
+  redundancyOutput?: RedundancyOutputConfig;
+
+  /** Inferred spec (`playswag-inferred-spec.yaml`) output options */
+  inferredSpecOutput?: InferredSpecOutputConfig;
+
   /** HTML report output options */
   htmlOutput?: HtmlOutputConfig;
 
@@ -672,6 +1231,19 @@ export interface PlayswagConfig {
    * @default false — thresholds are informational only
    */
   failOnThreshold?: boolean;
+
+  /**
+   * Fail the run when a dimension drops below the recorded baseline.
+   * `true` uses the defaults of {@link RatchetConfig}: the last history entry as baseline,
+   * no tolerance, and failing on any drop.
+   */
+  ratchet?: boolean | RatchetConfig;
+
+  /**
+   * Fail the run when an item covered in a committed snapshot is no longer covered.
+   * See {@link ItemBaselineConfig}.
+   */
+  itemBaseline?: ItemBaselineConfig;
 }
 
 /**
@@ -722,6 +1294,13 @@ export interface PlayswagFixtureOptions {
    * @default true
    */
   captureResponseBody: boolean;
+  /**
+   * Set to true to also record the `fetch` / XHR calls made by pages in the test's browser
+   * context, so UI end-to-end suites contribute to the same coverage report. Only tests that
+   * use `page` or `context` are affected.
+   * @default false
+   */
+  playswagTrackPage?: boolean;
   /**
    * Per-project OpenAPI / Swagger spec override.
    *
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { calculateCoverage } from '../../src/coverage/calculator.js';
+import { findDeprecatedCalls } from '../../src/coverage/deprecated.js';
 import type { NormalizedSpec, EndpointHit } from '../../src/types.js';
 
 const spec: NormalizedSpec = {
@@ -69,6 +70,103 @@ describe('calculateCoverage', () => {
     expect(result.uncoveredOperations).toContain(deleteOp);
   });
 
+  it('records status codes the spec does not document with the tests that received them', () => {
+    const result = calculateCoverage(
+      [
+        hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 500 }),
+        hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 500, testTitle: 'other' }),
+        hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 200 }),
+      ],
+      spec,
+      { baseURL }
+    );
+    const op = result.operations.find((o) => o.method === 'GET' && o.path === '/api/users');
+    expect(op?.undocumentedStatusCodes).toEqual([
+      { statusCode: '500', testRefs: ['test.spec.ts > test title', 'test.spec.ts > other'] },
+    ]);
+    expect(result.operations.find((o) => o.method === 'POST')?.undocumentedStatusCodes).toBeUndefined();
+  });
+
+  it('treats status codes matched by a range or default response as documented', () => {
+    const ranged: NormalizedSpec = {
+      sources: ['test-spec.yaml'],
+      operations: [
+        { pathTemplate: '/api/users', method: 'GET', parameters: [], responses: { '200': {}, '4xx': {} } },
+        { pathTemplate: '/api/users', method: 'POST', parameters: [], responses: { '201': {}, default: {} } },
+      ],
+    };
+    const result = calculateCoverage(
+      [
+        hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 404 }),
+        hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 503 }),
+        hit({ method: 'POST', url: `${baseURL}/api/users`, statusCode: 500 }),
+      ],
+      ranged,
+      { baseURL }
+    );
+    expect(result.operations[0]!.undocumentedStatusCodes).toEqual([{ statusCode: '503', testRefs: ['test.spec.ts > test title'] }]);
+    expect(result.operations[1]!.undocumentedStatusCodes).toBeUndefined();
+  });
+
+  it('covers range and default responses with the codes they document, exact codes first', () => {
+    const ranged: NormalizedSpec = {
+      sources: ['test-spec.yaml'],
+      operations: [
+        { pathTemplate: '/api/users', method: 'GET', parameters: [], responses: { '200': {}, '404': {}, '4XX': {}, default: {} } },
+      ],
+    };
+    const result = calculateCoverage(
+      [
+        hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 404 }),
+        hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 409, testTitle: 'conflict' }),
+        hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 503, testTitle: 'unavailable' }),
+      ],
+      ranged,
+      { baseURL }
+    );
+    const codes = result.operations[0]!.statusCodes;
+    expect(codes['404']).toEqual({ covered: true, testRefs: ['test.spec.ts > test title'] });
+    expect(codes['4XX']).toEqual({ covered: true, testRefs: ['test.spec.ts > conflict'] });
+    expect(codes['default']).toEqual({ covered: true, testRefs: ['test.spec.ts > unavailable'] });
+    expect(codes['200']?.covered).toBe(false);
+    expect(result.summary.statusCodes).toMatchObject({ total: 4, covered: 3 });
+  });
+
+  it('leaves default responses out of the total when countDefaultResponses is false', () => {
+    const withDefault: NormalizedSpec = {
+      sources: ['test-spec.yaml'],
+      operations: [{ pathTemplate: '/api/users', method: 'GET', parameters: [], responses: { '200': {}, default: {} } }],
+    };
+    const result = calculateCoverage(
+      [hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 500 })],
+      withDefault,
+      { baseURL, countDefaultResponses: false }
+    );
+    expect(Object.keys(result.operations[0]!.statusCodes)).toEqual(['200']);
+    expect(result.summary.statusCodes).toMatchObject({ total: 1, covered: 0 });
+    expect(result.operations[0]!.undocumentedStatusCodes).toBeUndefined();
+  });
+
+  it('tracks response properties of the range response documenting the code', () => {
+    const ranged: NormalizedSpec = {
+      sources: ['test-spec.yaml'],
+      operations: [{
+        pathTemplate: '/api/users',
+        method: 'GET',
+        parameters: [],
+        responses: { '200': {}, '4XX': { schema: { type: 'object', properties: { error: { type: 'string' } } } } },
+      }],
+    };
+    const result = calculateCoverage(
+      [hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 400, responseBody: { error: 'bad limit' } })],
+      ranged,
+      { baseURL }
+    );
+    expect(result.operations[0]!.responseProperties).toEqual([
+      expect.objectContaining({ statusCode: '4XX', name: 'error', covered: true }),
+    ]);
+  });
+
   it('tracks exercised status codes', () => {
     const result = calculateCoverage(
       [hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 400 })],
@@ -564,3 +662,454 @@ describe('response property coverage', () => {
   });
 });
 
+
+describe('calculateCoverage — response schema conformance', () => {
+  const baseURL = 'https://api.example.com';
+  const contractSpec: NormalizedSpec = {
+    sources: ['contract.yaml'],
+    operations: [
+      {
+        pathTemplate: '/api/users/{id}',
+        method: 'GET',
+        parameters: [{ name: 'id', in: 'path', required: true }],
+        responses: {
+          '200': {
+            schema: {
+              type: 'object',
+              required: ['id', 'name'],
+              additionalProperties: false,
+              properties: { id: { type: 'integer' }, name: { type: 'string' } },
+            },
+          },
+          '404': {},
+        },
+      },
+    ],
+  };
+
+  it('marks a status code as conforming when every recorded body matches the schema', () => {
+    const result = calculateCoverage(
+      [
+        hit({ method: 'GET', url: `${baseURL}/api/users/1`, statusCode: 200, responseBody: { id: 1, name: 'Ada' } }),
+        hit({ method: 'GET', url: `${baseURL}/api/users/2`, statusCode: 200, responseBody: { id: 2, name: 'Bob' } }),
+      ],
+      contractSpec,
+      { baseURL }
+    );
+    const op = result.operations[0]!;
+    expect(op.responseConformance).toEqual([{ statusCode: '200', validated: 2, conforming: true }]);
+    expect(op.responseViolations).toEqual([]);
+    expect(result.summary.responseConformance).toEqual({ total: 1, covered: 1, percentage: 100 });
+  });
+
+  it('records a violation with the test reference when a body breaks the schema', () => {
+    const result = calculateCoverage(
+      [
+        hit({ method: 'GET', url: `${baseURL}/api/users/1`, statusCode: 200, responseBody: { id: 1, name: 'Ada' } }),
+        hit({
+          method: 'GET',
+          url: `${baseURL}/api/users/2`,
+          statusCode: 200,
+          responseBody: { id: '2', extra: true },
+          testTitle: 'returns a broken user',
+        }),
+      ],
+      contractSpec,
+      { baseURL }
+    );
+    const op = result.operations[0]!;
+    expect(op.responseConformance).toEqual([{ statusCode: '200', validated: 2, conforming: false }]);
+    expect(op.responseViolations).toHaveLength(1);
+    expect(op.responseViolations![0]!.testRef).toBe('test.spec.ts > returns a broken user');
+    expect(op.responseViolations![0]!.errors.map((e) => e.path)).toEqual(['$.name', '$.id', '$.extra']);
+    expect(result.summary.responseConformance).toEqual({ total: 1, covered: 0, percentage: 0 });
+  });
+
+  it('skips validation for status codes without a schema or hits without a captured body', () => {
+    const result = calculateCoverage(
+      [
+        hit({ method: 'GET', url: `${baseURL}/api/users/1`, statusCode: 404, responseBody: { anything: 1 } }),
+        hit({ method: 'GET', url: `${baseURL}/api/users/1`, statusCode: 200 }),
+      ],
+      contractSpec,
+      { baseURL }
+    );
+    expect(result.operations[0]!.responseConformance).toEqual([]);
+    expect(result.summary.responseConformance).toEqual({ total: 0, covered: 0, percentage: 100 });
+  });
+
+  it('records one violation per test and status code', () => {
+    const broken = hit({ method: 'GET', url: `${baseURL}/api/users/1`, statusCode: 200, responseBody: { id: 'x', name: 'A' } });
+    const result = calculateCoverage([broken, broken], contractSpec, { baseURL });
+    expect(result.operations[0]!.responseViolations).toHaveLength(1);
+    expect(result.operations[0]!.responseConformance![0]!.validated).toBe(2);
+  });
+
+  it('records undocumented response properties per status code with the tests that received them', () => {
+    const result = calculateCoverage(
+      [
+        hit({ method: 'GET', url: `${baseURL}/api/users/1`, statusCode: 200, responseBody: { id: 1, name: 'Ada', nickname: 'A' } }),
+        hit({ method: 'GET', url: `${baseURL}/api/users/2`, statusCode: 200, responseBody: { id: 2, name: 'Bo', nickname: 'B' }, testTitle: 'other' }),
+        hit({ method: 'GET', url: `${baseURL}/api/users/3`, statusCode: 200, responseBody: { id: 3, name: 'Cy' } }),
+      ],
+      contractSpec,
+      { baseURL }
+    );
+    expect(result.operations[0]!.undocumentedResponseProperties).toEqual([
+      { statusCode: '200', name: 'nickname', testRefs: ['test.spec.ts > test title', 'test.spec.ts > other'] },
+    ]);
+  });
+
+  it('aggregates conformance per tag', () => {
+    const tagged: NormalizedSpec = {
+      ...contractSpec,
+      operations: contractSpec.operations.map((op) => ({ ...op, tags: ['users'] })),
+    };
+    const result = calculateCoverage(
+      [hit({ method: 'GET', url: `${baseURL}/api/users/1`, statusCode: 200, responseBody: { id: 1, name: 'Ada' } })],
+      tagged,
+      { baseURL }
+    );
+    expect(result.tagCoverage['users']?.responseConformance).toEqual({ total: 1, covered: 1, percentage: 100 });
+  });
+});
+
+describe('calculateCoverage — invalid request payloads', () => {
+  const baseURL = 'https://api.example.com';
+  const postUsers = (result: ReturnType<typeof calculateCoverage>) =>
+    result.operations.find((o) => o.method === 'POST' && o.path === '/api/users')!;
+
+  it('records nothing when the request body conforms to the schema', () => {
+    const result = calculateCoverage(
+      [hit({ method: 'POST', url: `${baseURL}/api/users`, statusCode: 201, requestBody: { name: 'Ada' } })],
+      spec,
+      { baseURL }
+    );
+    expect(postUsers(result).invalidRequestBodies).toEqual([]);
+  });
+
+  it('does not validate bodies sent as form or multipart fields', () => {
+    const result = calculateCoverage(
+      [
+        hit({ method: 'POST', url: `${baseURL}/api/users`, statusCode: 201, requestBody: { email: 'a@b.c' }, requestContentType: 'application/x-www-form-urlencoded' }),
+        hit({ method: 'POST', url: `${baseURL}/api/users`, statusCode: 201, requestBody: { email: 'a@b.c' }, requestContentType: 'multipart/form-data' }),
+      ],
+      spec,
+      { baseURL }
+    );
+    expect(postUsers(result).invalidRequestBodies).toEqual([]);
+  });
+
+  it('validates bodies sent as a JSON media type', () => {
+    const result = calculateCoverage(
+      [hit({ method: 'POST', url: `${baseURL}/api/users`, statusCode: 201, requestBody: { email: 'a@b.c' }, requestContentType: 'application/merge-patch+json' })],
+      spec,
+      { baseURL }
+    );
+    expect(postUsers(result).invalidRequestBodies).toHaveLength(1);
+  });
+
+  it('flags a payload rejected with 4xx as a likely negative test', () => {
+    const result = calculateCoverage(
+      [hit({ method: 'POST', url: `${baseURL}/api/users`, statusCode: 422, requestBody: { email: 'a@b.c' }, testTitle: 'rejects missing name' })],
+      spec,
+      { baseURL }
+    );
+    expect(postUsers(result).invalidRequestBodies).toEqual([
+      {
+        testRef: 'test.spec.ts > rejects missing name',
+        statusCode: '422',
+        rejected: true,
+        errors: [{ path: '$.name', message: 'required property is missing' }],
+      },
+    ]);
+  });
+
+  it('flags a payload the API accepted as drift', () => {
+    const result = calculateCoverage(
+      [hit({ method: 'POST', url: `${baseURL}/api/users`, statusCode: 201, requestBody: JSON.stringify({ name: 42 }) })],
+      spec,
+      { baseURL }
+    );
+    const [invalid] = postUsers(result).invalidRequestBodies!;
+    expect(invalid!.rejected).toBe(false);
+    expect(invalid!.errors).toEqual([{ path: '$.name', message: 'expected string, got number' }]);
+  });
+
+  it('still counts body properties as covered when the payload is invalid', () => {
+    const result = calculateCoverage(
+      [hit({ method: 'POST', url: `${baseURL}/api/users`, statusCode: 400, requestBody: { name: 42 } })],
+      spec,
+      { baseURL }
+    );
+    expect(postUsers(result).bodyProperties.find((b) => b.name === 'name')?.covered).toBe(true);
+  });
+
+  it('records one entry per test and status code', () => {
+    const bad = hit({ method: 'POST', url: `${baseURL}/api/users`, statusCode: 400, requestBody: {} });
+    const result = calculateCoverage([bad, bad], spec, { baseURL });
+    expect(postUsers(result).invalidRequestBodies).toHaveLength(1);
+  });
+});
+
+describe('calculateCoverage — enum values', () => {
+  const baseURL = 'https://api.example.com';
+  const enumSpec: NormalizedSpec = {
+    sources: ['enum.yaml'],
+    operations: [
+      {
+        pathTemplate: '/api/users',
+        method: 'GET',
+        tags: ['users'],
+        parameters: [{ name: 'status', in: 'query', required: false, schema: { type: 'string', enum: ['active', 'archived'] } }],
+        responses: { '200': {} },
+      },
+    ],
+  };
+
+  it('accumulates observed members across hits into the enumValues dimension', () => {
+    const result = calculateCoverage(
+      [
+        hit({ method: 'GET', url: `${baseURL}/api/users?status=active`, statusCode: 200, queryParams: { status: 'active' } }),
+        hit({ method: 'GET', url: `${baseURL}/api/users?status=active`, statusCode: 200, queryParams: { status: 'active' } }),
+      ],
+      enumSpec,
+      { baseURL }
+    );
+    expect(result.operations[0]!.enumValues).toEqual([
+      { name: 'status', in: 'query', value: 'active', covered: true },
+      { name: 'status', in: 'query', value: 'archived', covered: false },
+    ]);
+    expect(result.summary.enumValues).toEqual({ total: 2, covered: 1, percentage: 50 });
+    expect(result.tagCoverage['users']?.enumValues).toEqual({ total: 2, covered: 1, percentage: 50 });
+  });
+
+  it('reports 100% when the spec declares no enums', () => {
+    const result = calculateCoverage([], spec, { baseURL });
+    expect(result.summary.enumValues).toEqual({ total: 0, covered: 0, percentage: 100 });
+  });
+});
+
+describe('calculateCoverage — media types', () => {
+  const baseURL = 'https://api.example.com';
+  const mediaSpec: NormalizedSpec = {
+    sources: ['media.yaml'],
+    operations: [
+      {
+        pathTemplate: '/api/documents',
+        method: 'POST',
+        parameters: [],
+        requestMediaTypes: ['application/json', 'multipart/form-data', 'application/x-www-form-urlencoded'],
+        responses: { '201': { mediaTypes: ['application/json'] } },
+      },
+    ],
+  };
+
+  it('does not treat one JSON call as covering every accepted media type', () => {
+    const result = calculateCoverage(
+      [hit({
+        method: 'POST',
+        url: `${baseURL}/api/documents`,
+        statusCode: 201,
+        requestContentType: 'application/json',
+        responseContentType: 'application/json',
+      })],
+      mediaSpec,
+      { baseURL }
+    );
+    expect(result.operations[0]!.mediaTypes!.filter((m) => m.covered)).toHaveLength(2);
+    expect(result.summary.mediaTypes).toEqual({ total: 4, covered: 2, percentage: 50 });
+  });
+
+  it('accumulates media types across hits', () => {
+    const result = calculateCoverage(
+      [
+        hit({ method: 'POST', url: `${baseURL}/api/documents`, statusCode: 201, requestContentType: 'multipart/form-data' }),
+        hit({ method: 'POST', url: `${baseURL}/api/documents`, statusCode: 201, requestContentType: 'application/x-www-form-urlencoded' }),
+      ],
+      mediaSpec,
+      { baseURL }
+    );
+    expect(result.operations[0]!.mediaTypes!.filter((m) => m.covered).map((m) => m.mediaType)).toEqual([
+      'multipart/form-data',
+      'application/x-www-form-urlencoded',
+    ]);
+  });
+});
+
+describe('calculateCoverage — security', () => {
+  const baseURL = 'https://api.example.com';
+  const securitySpec: NormalizedSpec = {
+    sources: ['security.yaml'],
+    operations: [
+      {
+        pathTemplate: '/api/pets',
+        method: 'GET',
+        parameters: [],
+        security: [
+          [{ name: 'bearerAuth', type: 'http', scheme: 'bearer', scopes: [] }],
+          [{ name: 'apiKey', type: 'apiKey', in: 'header', paramName: 'X-API-Key', scopes: [] }],
+        ],
+        responses: { '200': {}, '401': {} },
+      },
+    ],
+  };
+
+  it('counts each scheme plus the unauthenticated rejection of a secured operation', () => {
+    const result = calculateCoverage([], securitySpec, { baseURL });
+    expect(result.summary.security).toEqual({ total: 3, covered: 0, percentage: 0 });
+  });
+
+  it('does not treat a call with one scheme as covering the alternatives', () => {
+    const result = calculateCoverage(
+      [hit({ method: 'GET', url: `${baseURL}/api/pets`, statusCode: 200, headers: { Authorization: 'Bearer [REDACTED]' } })],
+      securitySpec,
+      { baseURL }
+    );
+    expect(result.operations[0]!.securitySchemes!.map((s) => s.covered)).toEqual([true, false]);
+    expect(result.summary.security).toEqual({ total: 3, covered: 1, percentage: 33.3 });
+  });
+
+  it('accumulates unauthenticated outcomes across hits', () => {
+    const result = calculateCoverage(
+      [
+        hit({ method: 'GET', url: `${baseURL}/api/pets`, statusCode: 200 }),
+        hit({ method: 'GET', url: `${baseURL}/api/pets`, statusCode: 401 }),
+        hit({ method: 'GET', url: `${baseURL}/api/pets`, statusCode: 401 }),
+      ],
+      securitySpec,
+      { baseURL }
+    );
+    expect(result.operations[0]!.unauthenticated).toEqual({ statusCodes: ['200', '401'], rejected: true });
+    expect(result.summary.security?.covered).toBe(1);
+  });
+
+  it('redacts the apiKey names the spec declares in the hits it reports', () => {
+    const spec: NormalizedSpec = {
+      ...securitySpec,
+      operations: [{
+        ...securitySpec.operations[0]!,
+        security: [[{ name: 'subscription', type: 'apiKey', in: 'query', paramName: 'code', scopes: [] }]],
+      }],
+    };
+    const result = calculateCoverage(
+      [hit({ method: 'GET', url: `${baseURL}/api/unknown?code=secret`, statusCode: 200, queryParams: { code: 'secret' } })],
+      spec,
+      { baseURL }
+    );
+    expect(result.unmatchedHits[0]).toMatchObject({
+      url: `${baseURL}/api/unknown?code=%5BREDACTED%5D`,
+      queryParams: { code: '[REDACTED]' },
+    });
+  });
+});
+
+describe('calculateCoverage — deprecated operations', () => {
+  const baseURL = 'https://api.example.com';
+  const deprecatedSpec: NormalizedSpec = {
+    ...spec,
+    operations: spec.operations.map((op) => (op.method === 'DELETE' ? { ...op, deprecated: true } : op)),
+  };
+  const hits = [
+    hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 200 }),
+    hit({ method: 'DELETE', url: `${baseURL}/api/users/1`, statusCode: 204, testTitle: 'removes a user' }),
+  ];
+
+  it('counts deprecated operations like any other by default', () => {
+    const result = calculateCoverage(hits, deprecatedSpec, { baseURL });
+    expect(result.summary.endpoints).toEqual({ total: 4, covered: 2, percentage: 50 });
+    expect(result.deprecatedOperations).toBeUndefined();
+    expect(findDeprecatedCalls(result)).toEqual([
+      { method: 'DELETE', path: '/api/users/{id}', testRefs: ['test.spec.ts > removes a user'] },
+    ]);
+  });
+
+  it('leaves them out of every coverage figure with exclude, without reporting their hits as unmatched', () => {
+    const result = calculateCoverage(hits, deprecatedSpec, { baseURL, deprecatedOperations: 'exclude' });
+    expect(result.summary.endpoints).toEqual({ total: 3, covered: 1, percentage: 33.3 });
+    expect(result.operations.map((op) => op.method)).toEqual(['GET', 'POST', 'GET']);
+    expect(result.deprecatedOperations?.map((op) => op.path)).toEqual(['/api/users/{id}']);
+    expect(result.deprecatedSummary).toBeUndefined();
+    expect(result.unmatchedHits).toEqual([]);
+    expect(findDeprecatedCalls(result)).toHaveLength(1);
+  });
+
+  it('reports their coverage as a separate summary with separate', () => {
+    const result = calculateCoverage(hits, deprecatedSpec, { baseURL, deprecatedOperations: 'separate' });
+    expect(result.summary.endpoints.total).toBe(3);
+    expect(result.deprecatedSummary?.endpoints).toEqual({ total: 1, covered: 1, percentage: 100 });
+    expect(result.deprecatedSummary?.statusCodes).toEqual({ total: 2, covered: 1, percentage: 50 });
+  });
+
+  it('rounds the separate summary like the main one', () => {
+    const mostlyDeprecated: NormalizedSpec = {
+      ...spec,
+      operations: spec.operations.map((op) => (op.pathTemplate === '/api/users/{id}' && op.method === 'GET' ? op : { ...op, deprecated: true })),
+    };
+    const result = calculateCoverage(hits, mostlyDeprecated, { baseURL, deprecatedOperations: 'separate' });
+    expect(result.deprecatedSummary?.endpoints).toEqual({ total: 3, covered: 2, percentage: 66.7 });
+  });
+});
+
+describe('calculateCoverage — test references', () => {
+  const baseURL = 'https://api.example.com';
+
+  it('records the tests that made calls when hits carry test details', () => {
+    const testCase = { line: 8, titlePath: ['users', 'test title'], outcome: 'expected' as const, status: 'passed', retry: 0 };
+    const result = calculateCoverage(
+      [hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 200, projectName: 'api', testCase })],
+      spec,
+      { baseURL }
+    );
+    expect(result.tests).toEqual([
+      { id: 'test.spec.ts > test title', file: 'test.spec.ts', line: 8, titlePath: ['users', 'test title'], projects: ['api'], outcome: 'expected' },
+    ]);
+  });
+
+  it('leaves tests unset for hits without test details', () => {
+    const result = calculateCoverage([hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 200 })], spec, { baseURL });
+    expect(result.tests).toBeUndefined();
+  });
+});
+
+describe('calculateCoverage — countFailedTests', () => {
+  const baseURL = 'https://api.example.com';
+  const testCase = { line: 1, titlePath: ['test title'], outcome: 'expected' as const, status: 'passed', retry: 0 };
+  const hits = [
+    hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 200, testCase }),
+    hit({
+      method: 'POST',
+      url: `${baseURL}/api/users`,
+      statusCode: 201,
+      testTitle: 'creates a user',
+      testCase: { ...testCase, outcome: 'unexpected', status: 'failed' },
+    }),
+  ];
+
+  it('counts calls of failing tests by default', () => {
+    const result = calculateCoverage(hits, spec, { baseURL });
+    expect(result.operations.find((op) => op.method === 'POST')?.covered).toBe(true);
+  });
+
+  it('uses only the last attempt of a retried test by default', () => {
+    const retried = [
+      hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 500, testCase: { ...testCase, outcome: 'flaky', retry: 0 } }),
+      hit({ method: 'GET', url: `${baseURL}/api/users`, statusCode: 200, testCase: { ...testCase, outcome: 'flaky', retry: 1 } }),
+    ];
+    const result = calculateCoverage(retried, spec, { baseURL });
+    const get = result.operations.find((op) => op.method === 'GET' && op.path === '/api/users');
+    expect(get?.statusCodes['200']?.covered).toBe(true);
+    expect(get?.statusCodes['500']?.covered ?? false).toBe(false);
+    expect(get?.undocumentedStatusCodes).toBeUndefined();
+  });
+
+  it('records calls of failing tests apart without covering anything when false', () => {
+    const result = calculateCoverage(hits, spec, { baseURL, countFailedTests: false });
+    const post = result.operations.find((op) => op.method === 'POST');
+    expect(post?.covered).toBe(false);
+    expect(post?.statusCodes['201']?.covered).toBe(false);
+    expect(post?.failingTestRefs).toEqual(['test.spec.ts > creates a user']);
+    expect(result.summary.endpoints.covered).toBe(1);
+    expect(result.operations.find((op) => op.method === 'GET' && op.path === '/api/users')?.failingTestRefs).toBeUndefined();
+  });
+});
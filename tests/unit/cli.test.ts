@@ -54,12 +54,15 @@ function makeResult(overrides: Partial<CoverageResult> = {}): CoverageResult {
   };
 }
 
-async function runCli(args: string[]): Promise<{ stdout: string; stderr: string; code: number }> {
+async function runCli(
+  args: string[],
+  env: NodeJS.ProcessEnv = {}
+): Promise<{ stdout: string; stderr: string; code: number }> {
   try {
     const { stdout, stderr } = await execFileAsync(
       'npx',
       ['tsx', CLI_PATH, ...args],
-      { cwd: join(import.meta.dirname, '../..') }
+      { cwd: join(import.meta.dirname, '../..'), env: { ...process.env, ...env } }
     );
     return { stdout, stderr, code: 0 };
   } catch (err) {
@@ -213,3 +216,365 @@ describe('CLI merge command', () => {
     expect(md).toContain('Endpoints');
   });
 });
+
+describe('CLI har command', () => {
+  const SPEC = join(import.meta.dirname, '../fixtures/sample-openapi.yaml');
+  const HAR = join(import.meta.dirname, '../fixtures/session.har');
+
+  it('fails when no HAR file is provided', async () => {
+    const { stderr, code } = await runCli(['har', SPEC]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('at least 1 HAR file');
+  });
+
+  it('writes a coverage report computed from HAR entries', async () => {
+    const output = join(tmpDir, 'coverage.json');
+    const { stdout, code } = await runCli(['har', SPEC, HAR, '--base-url', 'http://localhost:3456', '-o', output, '--markdown']);
+    expect(code).toBe(0);
+    expect(stdout).toContain('Coverage from 1 HAR file(s)');
+
+    const result = JSON.parse(await readFile(output, 'utf8')) as CoverageResult;
+    expect(result.summary.endpoints.covered).toBe(2);
+    const md = await readFile(join(tmpDir, 'playswag-coverage.md'), 'utf8');
+    expect(md).toContain('Endpoints');
+  });
+
+  it('applies --exclude-tags to the spec', async () => {
+    const output = join(tmpDir, 'coverage.json');
+    const { code } = await runCli(['har', SPEC, HAR, '--base-url', 'http://localhost:3456', '--exclude-tags', 'users', '-o', output]);
+    expect(code).toBe(0);
+
+    const result = JSON.parse(await readFile(output, 'utf8')) as CoverageResult;
+    expect(result.operations.some((op) => op.path.startsWith('/api/users'))).toBe(false);
+  });
+
+  it('fails gracefully when a HAR file cannot be read', async () => {
+    const { stderr, code } = await runCli(['har', SPEC, '/nonexistent.har']);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Failed to compute HAR coverage');
+  });
+});
+
+describe('CLI report command', () => {
+  const SPEC = join(import.meta.dirname, '../fixtures/sample-openapi.yaml');
+
+  const hitLines = [
+    { method: 'GET', url: 'http://localhost:3456/api/users', statusCode: 200, testFile: 'users.spec.ts', testTitle: 'lists' },
+    { method: 'GET', url: 'http://localhost:3456/api/health', statusCode: 200, testFile: 'health.spec.ts', testTitle: 'pings' },
+  ].map((h) => JSON.stringify(h)).join('\n');
+
+  it('fails when --spec or --hits is missing', async () => {
+    const { stderr, code } = await runCli(['report', '--spec', SPEC]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('requires --spec and --hits');
+  });
+
+  it('recomputes coverage from a hits file', async () => {
+    const hitsFile = join(tmpDir, 'playswag-hits.jsonl');
+    const output = join(tmpDir, 'coverage.json');
+    await writeFile(hitsFile, hitLines, 'utf8');
+
+    const { stdout, code } = await runCli(['report', '--spec', SPEC, '--hits', hitsFile, '--base-url', 'http://localhost:3456', '-o', output]);
+    expect(code).toBe(0);
+    expect(stdout).toContain('Coverage from 1 hits file(s)');
+
+    const result = JSON.parse(await readFile(output, 'utf8')) as CoverageResult;
+    expect(result.summary.endpoints.covered).toBe(2);
+    expect(result.totalTestCount).toBe(2);
+  });
+
+  it('applies --exclude-tags to the spec', async () => {
+    const hitsFile = join(tmpDir, 'playswag-hits.jsonl');
+    const output = join(tmpDir, 'coverage.json');
+    await writeFile(hitsFile, hitLines, 'utf8');
+
+    const { code } = await runCli(['report', '--spec', SPEC, '--hits', hitsFile, '--base-url', 'http://localhost:3456', '--exclude-tags', 'users', '-o', output]);
+    expect(code).toBe(0);
+
+    const result = JSON.parse(await readFile(output, 'utf8')) as CoverageResult;
+    expect(result.operations.every((op) => !op.path.startsWith('/api/users'))).toBe(true);
+  });
+});
+
+describe('CLI config file', () => {
+  async function writeShards(): Promise<[string, string]> {
+    const file1 = join(tmpDir, 'a.json');
+    const file2 = join(tmpDir, 'b.json');
+    await writeFile(file1, JSON.stringify(makeResult()), 'utf8');
+    await writeFile(file2, JSON.stringify(makeResult()), 'utf8');
+    return [file1, file2];
+  }
+
+  it('exits with code 1 when a failing threshold from --config is not met', async () => {
+    const [file1, file2] = await writeShards();
+    const config = join(tmpDir, 'playswag.config.json');
+    await writeFile(config, JSON.stringify({ threshold: { endpoints: { min: 80, fail: true } } }), 'utf8');
+
+    const { stderr, code } = await runCli(['merge', file1, file2, '-o', join(tmpDir, 'out.json'), '--config', config]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Endpoint coverage 50.0% is below threshold 80%');
+  });
+
+  it('succeeds when the threshold only warns', async () => {
+    const [file1, file2] = await writeShards();
+    const config = join(tmpDir, 'playswag.config.json');
+    await writeFile(config, JSON.stringify({ threshold: { endpoints: 80 } }), 'utf8');
+
+    const { code } = await runCli(['merge', file1, file2, '-o', join(tmpDir, 'out.json'), '--config', config]);
+    expect(code).toBe(0);
+  });
+
+  it('exits with code 1 when the merged result drops below the ratchet baseline', async () => {
+    const [file1, file2] = await writeShards();
+    const baselineFile = join(tmpDir, 'baseline.json');
+    await writeFile(baselineFile, JSON.stringify({ summary: { ...makeResult().summary, endpoints: { total: 2, covered: 2, percentage: 100 } } }), 'utf8');
+    const config = join(tmpDir, 'playswag.config.json');
+    await writeFile(config, JSON.stringify({ ratchet: { baselineFile } }), 'utf8');
+
+    const { stderr, code } = await runCli(['merge', file1, file2, '-o', join(tmpDir, 'out.json'), '--config', config]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Endpoint coverage 50.0% dropped 50.0 points below the baseline 100.0%');
+  });
+
+  it('annotates items covered in the item baseline that lost coverage', async () => {
+    const [file1, file2] = await writeShards();
+    const file = join(tmpDir, 'items.json');
+    await writeFile(file, JSON.stringify({ timestamp: '', specFiles: [], coveredItems: ['GET:/users', 'GET:/posts'] }), 'utf8');
+    const config = join(tmpDir, 'playswag.config.json');
+    await writeFile(config, JSON.stringify({ itemBaseline: { file } }), 'utf8');
+
+    const { stdout, code } = await runCli(
+      ['merge', file1, file2, '-o', join(tmpDir, 'out.json'), '--config', config],
+      { GITHUB_ACTIONS: 'true', GITHUB_STEP_SUMMARY: join(tmpDir, 'summary.md') }
+    );
+    expect(code).toBe(1);
+    expect(stdout).toContain('::error::[playswag] GET /posts is no longer covered (covered in the item baseline)');
+    expect(stdout).not.toContain('GET /users is no longer covered');
+  });
+
+  it('applies output options and dimension exclusions from a TypeScript config', async () => {
+    const [file1, file2] = await writeShards();
+    const config = join(tmpDir, 'playswag.config.ts');
+    await writeFile(config, [
+      "import type { PlayswagConfig } from '../../src/types.js';",
+      'const config: Partial<PlayswagConfig> = {',
+      "  htmlOutput: { title: 'Payments API coverage' },",
+      "  excludeDimensions: ['parameters'],",
+      '  threshold: { parameters: { min: 90, fail: true } },',
+      '};',
+      'export default config;',
+    ].join('\n'), 'utf8');
+
+    const { code } = await runCli(['merge', file1, file2, '-o', join(tmpDir, 'out.json'), '--html', '--config', config]);
+    expect(code).toBe(0);
+    const html = await readFile(join(tmpDir, 'playswag-coverage.html'), 'utf8');
+    expect(html).toContain('Payments API coverage');
+  });
+
+  it('fails when --config points to a missing file', async () => {
+    const [file1, file2] = await writeShards();
+    const { stderr, code } = await runCli(['merge', file1, file2, '--config', join(tmpDir, 'nope.json')]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Failed to load config');
+  });
+
+  it('takes report specs and base URL from the config', async () => {
+    const hitsFile = join(tmpDir, 'playswag-hits.jsonl');
+    const output = join(tmpDir, 'coverage.json');
+    const config = join(tmpDir, 'playswag.config.json');
+    await writeFile(hitsFile, JSON.stringify({
+      method: 'GET', url: 'http://localhost:3456/api/users', statusCode: 200, testFile: 'users.spec.ts', testTitle: 'lists',
+    }), 'utf8');
+    await writeFile(config, JSON.stringify({
+      specs: join(import.meta.dirname, '../fixtures/sample-openapi.yaml'),
+      baseURL: 'http://localhost:3456',
+    }), 'utf8');
+
+    const { code } = await runCli(['report', '--hits', hitsFile, '-o', output, '--config', config]);
+    expect(code).toBe(0);
+    const result = JSON.parse(await readFile(output, 'utf8')) as CoverageResult;
+    expect(result.summary.endpoints.covered).toBe(1);
+  });
+});
+
+describe('CLI thresholds', () => {
+  async function writeShards(): Promise<[string, string]> {
+    const file1 = join(tmpDir, 'a.json');
+    const file2 = join(tmpDir, 'b.json');
+    await writeFile(file1, JSON.stringify(makeResult()), 'utf8');
+    await writeFile(file2, JSON.stringify(makeResult()), 'utf8');
+    return [file1, file2];
+  }
+
+  it('exits with code 1 when --threshold is not met and --fail-on-threshold is set', async () => {
+    const [file1, file2] = await writeShards();
+    const { stderr, code } = await runCli([
+      'merge', file1, file2, '-o', join(tmpDir, 'out.json'),
+      '--threshold', 'endpoints=80,statusCodes=40', '--fail-on-threshold',
+    ]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Endpoint coverage 50.0% is below threshold 80%');
+    expect(stderr).not.toContain('Status code coverage');
+  });
+
+  it('only warns without --fail-on-threshold', async () => {
+    const [file1, file2] = await writeShards();
+    const { stderr, code } = await runCli(['merge', file1, file2, '-o', join(tmpDir, 'out.json'), '--threshold', 'endpoints=80']);
+    expect(code).toBe(0);
+    expect(stderr).toContain('⚠ Endpoint coverage 50.0% is below threshold 80%');
+  });
+
+  it('overrides the matching dimensions of the config threshold', async () => {
+    const [file1, file2] = await writeShards();
+    const config = join(tmpDir, 'playswag.config.json');
+    await writeFile(config, JSON.stringify({ threshold: { endpoints: 90, parameters: 90 } }), 'utf8');
+
+    const { stderr, code } = await runCli([
+      'merge', file1, file2, '-o', join(tmpDir, 'out.json'),
+      '--config', config, '--threshold', 'endpoints=40', '--fail-on-threshold',
+    ]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Parameter coverage 50.0% is below threshold 90%');
+    expect(stderr).not.toContain('Endpoint coverage');
+  });
+
+  it('rejects unknown dimensions', async () => {
+    const [file1, file2] = await writeShards();
+    const { stderr, code } = await runCli(['merge', file1, file2, '--threshold', 'endpoints=80,lines=80']);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Invalid --threshold entry "lines=80"');
+  });
+
+  it('rejects percentages outside 0-100', async () => {
+    const [file1, file2] = await writeShards();
+    const { stderr, code } = await runCli(['merge', file1, file2, '--threshold', 'endpoints=120']);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Invalid --threshold entry "endpoints=120"');
+  });
+
+  it('emits GitHub annotations and lists violations in the step summary', async () => {
+    const [file1, file2] = await writeShards();
+    const summaryPath = join(tmpDir, 'summary.md');
+    const { stdout, code } = await runCli(
+      ['merge', file1, file2, '-o', join(tmpDir, 'out.json'), '--threshold', 'endpoints=80', '--fail-on-threshold'],
+      { GITHUB_ACTIONS: 'true', GITHUB_STEP_SUMMARY: summaryPath }
+    );
+    expect(code).toBe(1);
+    expect(stdout).toContain('::error::[playswag] Endpoint coverage 50.0% is below threshold 80%');
+    expect(await readFile(summaryPath, 'utf8')).toContain('below threshold 80%');
+  });
+});
+
+describe('CLI spec-diff command', () => {
+  const USERS = join(import.meta.dirname, '../fixtures/users.yaml');
+  const HEALTH = join(import.meta.dirname, '../fixtures/health.yaml');
+
+  it('fails when the new spec is missing', async () => {
+    const { stderr, code } = await runCli(['spec-diff', USERS]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('requires an old and a new spec');
+  });
+
+  it('prints a Markdown diff flagging untested additions', async () => {
+    const coverage = join(tmpDir, 'coverage.json');
+    await writeFile(coverage, JSON.stringify(makeResult()), 'utf8');
+
+    const { stdout, code } = await runCli(['spec-diff', USERS, HEALTH, '--coverage', coverage]);
+    expect(code).toBe(0);
+    expect(stdout).toContain('## API Spec Changes');
+    expect(stdout).toContain('| `DELETE /api/users/{id}` | Operation removed |');
+    expect(stdout).toContain('### ❌ New surface without tests');
+  });
+
+  it('writes the diff to -o', async () => {
+    const output = join(tmpDir, 'diff.md');
+    const { stdout, code } = await runCli(['spec-diff', USERS, USERS, '-o', output]);
+    expect(code).toBe(0);
+    expect(stdout).toContain('Spec diff →');
+    expect(await readFile(output, 'utf8')).toContain('No changes');
+  });
+});
+
+describe('CLI infer-spec command', () => {
+  it('fails without a report', async () => {
+    const { stderr, code } = await runCli(['infer-spec']);
+    expect(code).toBe(1);
+    expect(stderr).toContain('infer-spec requires at least 1 JSON report file');
+  });
+
+  it('writes an OpenAPI fragment for the unmatched calls', async () => {
+    const coverage = join(tmpDir, 'coverage.json');
+    const unmatchedHits = [
+      { method: 'GET', url: 'https://api.example.com/orders/12', statusCode: 200, responseBody: { id: 12 }, testFile: 'a.spec.ts', testTitle: 'a' },
+    ];
+    await writeFile(coverage, JSON.stringify(makeResult({ unmatchedHits })), 'utf8');
+    const output = join(tmpDir, 'inferred.yaml');
+
+    const { stdout, code } = await runCli(['infer-spec', coverage, '--base-url', 'https://api.example.com', '-o', output]);
+    expect(code).toBe(0);
+    expect(stdout).toContain('Inferred spec for 1 unmatched call(s)');
+    expect(await readFile(output, 'utf8')).toContain('  "/orders/{id}":\n    get:\n');
+  });
+});
+
+describe('CLI select command', () => {
+  const USERS = join(import.meta.dirname, '../fixtures/users.yaml');
+  const HEALTH = join(import.meta.dirname, '../fixtures/health.yaml');
+
+  async function writeCoverage(): Promise<string> {
+    const coverage = join(tmpDir, 'coverage.json');
+    const result = makeResult();
+    result.operations[0] = { ...result.operations[0]!, path: '/api/users', operationId: 'listUsers', testRefs: ['users.spec.ts > lists users'] };
+    result.tests = [
+      { id: 'users.spec.ts > lists users', file: 'users.spec.ts', line: 3, titlePath: ['users', 'lists users'], projects: [] },
+    ];
+    await writeFile(coverage, JSON.stringify(result), 'utf8');
+    return coverage;
+  }
+
+  it('fails without operations or specs', async () => {
+    const { stderr, code } = await runCli(['select', '--coverage', await writeCoverage()]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('requires --coverage and either --operations or an old and a new spec');
+  });
+
+  it('prints a --grep pattern for the tests calling the operations', async () => {
+    const { stdout, stderr, code } = await runCli(['select', '--operations', 'listUsers,getPost', '--coverage', await writeCoverage()]);
+    expect(code).toBe(0);
+    expect(stdout).toBe('users lists users\n');
+    expect(stderr).toContain('No operation matches "getPost"');
+  });
+
+  it('lists the test files for the operations changed between two specs', async () => {
+    const { stdout, code } = await runCli(['select', USERS, HEALTH, '--files', '--coverage', await writeCoverage()]);
+    expect(code).toBe(0);
+    expect(stdout).toBe('users.spec.ts\n');
+  });
+});
+
+describe('CLI diff command', () => {
+  it('fails when the head report is missing', async () => {
+    const base = join(tmpDir, 'base.json');
+    await writeFile(base, JSON.stringify(makeResult()), 'utf8');
+    const { stderr, code } = await runCli(['diff', base]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('requires a base and a head');
+  });
+
+  it('writes the items that changed coverage as JSON and Markdown', async () => {
+    const base = join(tmpDir, 'base.json');
+    const head = join(tmpDir, 'head.json');
+    const output = join(tmpDir, 'diff.json');
+    await writeFile(base, JSON.stringify(makeResult()), 'utf8');
+    const lost = { ...makeResult().operations[0]!, covered: false, statusCodes: { '200': { covered: false, testRefs: [] } } };
+    await writeFile(head, JSON.stringify(makeResult({ operations: [lost], uncoveredOperations: [lost] })), 'utf8');
+
+    const { stdout, code } = await runCli(['diff', base, head, '-o', output, '--markdown']);
+    expect(code).toBe(0);
+    expect(stdout).toContain('2 item(s) lost coverage, 0 newly covered');
+
+    const diff = JSON.parse(await readFile(output, 'utf8')) as { newlyUncovered: Array<{ element: string }> };
+    expect(diff.newlyUncovered.map((i) => i.element)).toEqual(['operation', 'statusCode']);
+    expect(await readFile(join(tmpDir, 'coverage-diff.md'), 'utf8')).toContain('`GET /users 200`');
+  });
+});
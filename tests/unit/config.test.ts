@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { findConfigFile, loadConfig } from '../../src/config.js';
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'playswag-config-test-'));
+});
+
+afterEach(async () => {
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('findConfigFile', () => {
+  it('returns undefined when the directory has no config file', async () => {
+    expect(await findConfigFile(tmpDir)).toBeUndefined();
+  });
+
+  it('prefers a JS config over a JSON one', async () => {
+    await writeFile(join(tmpDir, 'playswag.config.json'), '{}', 'utf8');
+    await writeFile(join(tmpDir, 'playswag.config.mjs'), 'export default {};', 'utf8');
+    expect(await findConfigFile(tmpDir)).toBe(join(tmpDir, 'playswag.config.mjs'));
+  });
+});
+
+describe('loadConfig', () => {
+  it('returns undefined when no path is given and none is found', async () => {
+    expect(await loadConfig(undefined, tmpDir)).toBeUndefined();
+  });
+
+  it('parses a JSON config found in the directory', async () => {
+    await writeFile(join(tmpDir, 'playswag.config.json'), JSON.stringify({ threshold: { endpoints: 80 } }), 'utf8');
+    expect(await loadConfig(undefined, tmpDir)).toEqual({ threshold: { endpoints: 80 } });
+  });
+
+  it('uses the default export of a JS config given by path', async () => {
+    await writeFile(join(tmpDir, 'custom.mjs'), "export default { excludeDimensions: ['responseProperties'] };", 'utf8');
+    expect(await loadConfig('custom.mjs', tmpDir)).toEqual({ excludeDimensions: ['responseProperties'] });
+  });
+
+  it('throws for a missing explicit path or malformed JSON', async () => {
+    await expect(loadConfig('missing.json', tmpDir)).rejects.toThrow('[playswag] Failed to load config');
+    await writeFile(join(tmpDir, 'broken.json'), '{', 'utf8');
+    await expect(loadConfig('broken.json', tmpDir)).rejects.toThrow('[playswag] Failed to load config');
+  });
+
+  it('throws when the config is not an object', async () => {
+    await writeFile(join(tmpDir, 'list.json'), '[]', 'utf8');
+    await expect(loadConfig('list.json', tmpDir)).rejects.toThrow('must export an object');
+  });
+});
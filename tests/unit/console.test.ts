@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { checkThresholds, printConsoleReport } from '../../src/output/console.js';
+import { checkThresholds, printConsoleReport, printCoverageDiff } from '../../src/output/console.js';
 import type { CoverageResult, ThresholdConfig } from '../../src/types.js';
 
 function makeItem(percentage: number) {
@@ -151,6 +151,49 @@ describe('checkThresholds', () => {
   });
 });
 
+describe('checkThresholds — tags and operations', () => {
+  function makeScopedResult(): CoverageResult {
+    const op = (method: string, path: string, covered: boolean, operationId: string) => ({
+      path, method, operationId, covered,
+      statusCodes: { '200': { covered, testRefs: [] }, '400': { covered: false, testRefs: [] } },
+      parameters: [], bodyProperties: [], responseProperties: [], testRefs: [],
+    });
+    return {
+      ...makeResult(50, 25, 100, 100),
+      tagCoverage: {
+        payments: { ...makeResult(50, 25, 100, 100).summary },
+        'internal-admin': { ...makeResult(40, 20, 100, 100).summary },
+      },
+      operations: [op('POST', '/payments', true, 'createPayment'), op('POST', '/refunds', false, 'createRefund')],
+      uncoveredOperations: [op('POST', '/refunds', false, 'createRefund')],
+    };
+  }
+
+  it('checks every tag matching a glob against its tagCoverage entry', () => {
+    const violations = checkThresholds(makeScopedResult(), {
+      tags: { payments: { endpoints: { min: 100, fail: true } }, 'internal-*': { endpoints: 30 } },
+    });
+    expect(violations).toEqual([
+      { message: 'Endpoint coverage of tag payments 50.0% is below threshold 100%', fail: true, scope: 'tag payments' },
+    ]);
+  });
+
+  it('checks operations keyed by METHOD /path or operationId glob', () => {
+    const violations = checkThresholds(makeScopedResult(), {
+      operations: { 'post /payments': { statusCodes: 100 }, 'create*': { endpoints: 100 } },
+    }, true);
+    expect(violations).toEqual([
+      { message: 'Status code coverage of POST /payments 50.0% is below threshold 100%', fail: true, scope: 'POST /payments' },
+      { message: 'Endpoint coverage of POST /refunds 0.0% is below threshold 100%', fail: true, scope: 'POST /refunds' },
+    ]);
+  });
+
+  it('skips excluded dimensions', () => {
+    const violations = checkThresholds(makeScopedResult(), { tags: { '*': { statusCodes: 100 } } }, false, ['statusCodes']);
+    expect(violations).toEqual([]);
+  });
+});
+
 describe('printConsoleReport', () => {
   let logSpy: ReturnType<typeof vi.spyOn>;
 
@@ -304,4 +347,413 @@ describe('printConsoleReport', () => {
     expect(allArgs).not.toContain('excluded from tracking');
     void callCountBefore; // suppress unused warning
   });
+
+  it('lists extra violations with the threshold results', async () => {
+    await printConsoleReport(makeResult(80, 80, 80, 80), {}, undefined, false, undefined, undefined, [
+      { message: 'Endpoint coverage 80.0% dropped 5.0 points below the baseline 85.0%', fail: true },
+    ]);
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('✗ Endpoint coverage 80.0% dropped 5.0 points below the baseline 85.0%');
+    expect(allArgs).not.toContain('All thresholds met');
+  });
+});
+
+describe('printConsoleReport — deprecated operations', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  function withDeprecatedCall(): CoverageResult {
+    const legacy = {
+      path: '/v1/users',
+      method: 'GET',
+      covered: true,
+      deprecated: true,
+      statusCodes: { '200': { covered: true, testRefs: ['users.spec.ts > lists'] } },
+      parameters: [],
+      bodyProperties: [],
+      responseProperties: [],
+      testRefs: ['users.spec.ts > lists'],
+    };
+    return { ...makeResult(100, 100, 100, 100), deprecatedOperations: [legacy], deprecatedSummary: makeResult(100, 50, 100, 100).summary };
+  }
+
+  it('warns about tests that still call deprecated operations', async () => {
+    await printConsoleReport(withDeprecatedCall());
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('1 test(s) still call 1 deprecated operation(s)');
+    expect(allArgs).toContain('users.spec.ts > lists');
+  });
+
+  it('prints the separate deprecated summary and honors showDeprecatedCalls: false', async () => {
+    await printConsoleReport(withDeprecatedCall(), { showDeprecatedCalls: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('Deprecated Operations');
+    expect(allArgs).not.toContain('still call');
+  });
+});
+
+describe('printConsoleReport — response schema violations', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  function withViolation(): CoverageResult {
+    return {
+      ...makeResult(100, 100, 100, 100),
+      operations: [
+        {
+          path: '/api/users/{id}',
+          method: 'GET',
+          covered: true,
+          statusCodes: { '200': { covered: true, testRefs: ['users.spec.ts > get user'] } },
+          parameters: [],
+          bodyProperties: [],
+          testRefs: ['users.spec.ts > get user'],
+          responseConformance: [{ statusCode: '200', validated: 1, conforming: false }],
+          responseViolations: [
+            {
+              statusCode: '200',
+              testRef: 'users.spec.ts > get user',
+              errors: [{ path: '$.id', message: 'expected integer, got string' }],
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  it('lists violating responses with the test reference and error path', async () => {
+    await printConsoleReport(withViolation(), { showOperations: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('did not conform to the spec schema');
+    expect(allArgs).toContain('users.spec.ts > get user');
+    expect(allArgs).toContain('$.id: expected integer, got string');
+  });
+
+  it('does not list violations when showSchemaViolations=false', async () => {
+    await printConsoleReport(withViolation(), { showOperations: false, showSchemaViolations: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).not.toContain('did not conform to the spec schema');
+  });
+
+  it('does not list violations when responseConformance is excluded', async () => {
+    await printConsoleReport(withViolation(), { showOperations: false }, undefined, false, undefined, ['responseConformance']);
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).not.toContain('did not conform to the spec schema');
+  });
+});
+
+describe('printConsoleReport — spec drift', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  function withDrift(): CoverageResult {
+    return {
+      ...makeResult(100, 100, 100, 100),
+      operations: [
+        {
+          path: '/api/users/{id}',
+          method: 'GET',
+          covered: true,
+          statusCodes: { '200': { covered: true, testRefs: ['users.spec.ts > get user'] } },
+          parameters: [],
+          bodyProperties: [],
+          responseProperties: [],
+          testRefs: ['users.spec.ts > get user'],
+          undocumentedResponseProperties: [
+            { statusCode: '200', name: 'nickname', testRefs: ['users.spec.ts > get user'] },
+            { statusCode: '200', name: 'roles[].since', testRefs: ['users.spec.ts > get user'] },
+          ],
+        },
+      ],
+    };
+  }
+
+  it('lists undocumented response properties per operation and status code', async () => {
+    await printConsoleReport(withDrift(), { showOperations: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('Spec drift: 2 undocumented response properties in 1 operation(s)');
+    expect(allArgs).toContain('roles[].since');
+    expect(allArgs).toContain('users.spec.ts > get user');
+  });
+
+  it('does not list them when showSpecDrift=false', async () => {
+    await printConsoleReport(withDrift(), { showOperations: false, showSpecDrift: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).not.toContain('Spec drift');
+  });
+
+  it('lists undocumented status codes unless showUndocumentedStatusCodes=false', async () => {
+    const result = withDrift();
+    result.operations[0]!.undocumentedStatusCodes = [{ statusCode: '500', testRefs: ['users.spec.ts > get user'] }];
+    await printConsoleReport(result, { showOperations: false });
+    expect(logSpy.mock.calls.flat().join('\n')).toContain('1 undocumented status code(s) received');
+
+    logSpy.mockClear();
+    await printConsoleReport(result, { showOperations: false, showUndocumentedStatusCodes: false });
+    expect(logSpy.mock.calls.flat().join('\n')).not.toContain('undocumented status code');
+  });
+});
+
+describe('checkThresholds — responseConformance', () => {
+  it('reports a violation when conformance is below the threshold', () => {
+    const result: CoverageResult = {
+      ...makeResult(100, 100, 100, 100),
+      summary: { ...makeResult(100, 100, 100, 100).summary, responseConformance: makeItem(50) },
+    };
+    const violations = checkThresholds(result, { responseConformance: 90 });
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toContain('Response schema conformance');
+  });
+
+  it('ignores the threshold when the report has no conformance data', () => {
+    expect(checkThresholds(makeResult(100, 100, 100, 100), { responseConformance: 90 })).toEqual([]);
+  });
+});
+
+describe('printConsoleReport — invalid request payloads', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  function withInvalidPayloads(): CoverageResult {
+    return {
+      ...makeResult(100, 100, 100, 100),
+      operations: [
+        {
+          path: '/api/users',
+          method: 'POST',
+          covered: true,
+          statusCodes: {},
+          parameters: [],
+          bodyProperties: [],
+          testRefs: [],
+          invalidRequestBodies: [
+            { testRef: 'users.spec.ts > rejects bad age', statusCode: '422', rejected: true, errors: [{ path: '$.age', message: 'expected integer, got string' }] },
+            { testRef: 'users.spec.ts > creates user', statusCode: '201', rejected: false, errors: [{ path: '$.name', message: 'expected string, got number' }] },
+          ],
+        },
+      ],
+    };
+  }
+
+  it('lists accepted and rejected invalid payloads in separate groups', async () => {
+    await printConsoleReport(withInvalidPayloads(), { showOperations: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('1 invalid request payload(s) were accepted by the API');
+    expect(allArgs).toContain('1 invalid request payload(s) were rejected with 4xx');
+    expect(allArgs.indexOf('users.spec.ts > creates user')).toBeLessThan(allArgs.indexOf('users.spec.ts > rejects bad age'));
+  });
+
+  it('does not list invalid payloads when showInvalidPayloads=false', async () => {
+    await printConsoleReport(withInvalidPayloads(), { showOperations: false, showInvalidPayloads: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).not.toContain('invalid request payload');
+  });
+});
+
+describe('printConsoleReport — enum values', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  const withEnums: CoverageResult = {
+    ...makeResult(100, 100, 100, 100),
+    summary: { ...makeResult(100, 100, 100, 100).summary, enumValues: { total: 3, covered: 1, percentage: 33.3 } },
+    operations: [
+      {
+        path: '/api/orders',
+        method: 'GET',
+        covered: true,
+        statusCodes: { '200': { covered: true, testRefs: [] } },
+        parameters: [],
+        bodyProperties: [],
+        responseProperties: [],
+        testRefs: [],
+        enumValues: [
+          { name: 'status', in: 'query', value: 'active', covered: true },
+          { name: 'status', in: 'query', value: 'archived', covered: false },
+          { name: 'state', in: 'responseBody', statusCode: '200', value: 'paid', covered: false },
+        ],
+      },
+    ],
+  };
+
+  it('prints an Enum Values summary row', async () => {
+    await printConsoleReport(withEnums, { showOperations: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('Enum Values');
+    expect(allArgs).toContain('1/3');
+  });
+
+  it('expands enum members per operation when showEnumValues=true', async () => {
+    await printConsoleReport(withEnums, { showEnumValues: true });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('query:status:');
+    expect(allArgs).toContain('"archived"');
+    expect(allArgs).toContain('200 resp.state:');
+  });
+
+  it('does not expand enum members by default', async () => {
+    await printConsoleReport(withEnums);
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).not.toContain('"archived"');
+  });
+
+  it('checks the enumValues threshold', () => {
+    const violations = checkThresholds(withEnums, { enumValues: 50 });
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toContain('Enum value coverage 33.3%');
+  });
+});
+
+describe('printConsoleReport — security', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  const withSecurity: CoverageResult = {
+    ...makeResult(100, 100, 100, 100),
+    summary: { ...makeResult(100, 100, 100, 100).summary, security: { total: 3, covered: 1, percentage: 33.3 } },
+    operations: [
+      {
+        path: '/api/pets',
+        method: 'GET',
+        covered: true,
+        statusCodes: { '200': { covered: true, testRefs: [] } },
+        parameters: [],
+        bodyProperties: [],
+        responseProperties: [],
+        testRefs: [],
+        securitySchemes: [
+          { name: 'bearerAuth', type: 'http', covered: true },
+          { name: 'apiKey', type: 'apiKey', covered: false },
+        ],
+        unauthenticated: { statusCodes: ['200'], rejected: false },
+      },
+    ],
+  };
+
+  it('prints a Security summary row', async () => {
+    await printConsoleReport(withSecurity, { showOperations: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('Security');
+    expect(allArgs).toContain('1/3');
+  });
+
+  it('warns about secured operations that accepted a call without credentials', async () => {
+    await printConsoleReport(withSecurity, { showOperations: false });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('1 secured operation(s) accepted a call without credentials');
+  });
+
+  it('expands schemes per operation when showSecurity=true', async () => {
+    await printConsoleReport(withSecurity, { showSecurity: true });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('apiKey (apiKey)');
+    expect(allArgs).toContain('unauthenticated [200]');
+  });
+
+  it('checks the security threshold', () => {
+    const violations = checkThresholds(withSecurity, { security: 50 });
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toContain('Security coverage 33.3%');
+  });
+});
+
+describe('printCoverageDiff', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it('prints the dimension table and the items that changed coverage', async () => {
+    await printCoverageDiff({
+      base: makeResult(100, 50, 50, 50).summary,
+      head: makeResult(90, 50, 50, 50).summary,
+      delta: { endpoints: -10, statusCodes: 0, parameters: 0, bodyProperties: 0, responseProperties: 0 },
+      newlyCovered: [{ element: 'parameter', method: 'GET', path: '/users', name: 'query:limit' }],
+      newlyUncovered: [{ element: 'statusCode', method: 'DELETE', path: '/users/{id}', name: '404' }],
+    });
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('API Coverage Diff');
+    expect(allArgs).toContain('↓ 10.0%');
+    expect(allArgs).toContain('1 item(s) lost coverage');
+    expect(allArgs).toContain('DELETE /users/{id} 404');
+    expect(allArgs).toContain('GET /users parameter query:limit');
+  });
+});
+
+describe('printConsoleReport — failing tests', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it('lists operations covered only by failing tests', async () => {
+    const result = makeResult(50, 50, 50, 50);
+    result.operations = [{
+      path: '/users',
+      method: 'POST',
+      covered: false,
+      statusCodes: { '201': { covered: false, testRefs: [] } },
+      parameters: [],
+      bodyProperties: [],
+      responseProperties: [],
+      testRefs: [],
+      failingTestRefs: ['users.spec.ts > creates'],
+    }];
+    await printConsoleReport(result);
+    const allArgs = logSpy.mock.calls.flat().join('\n');
+    expect(allArgs).toContain('1 operation(s) covered only by failing tests');
+    expect(allArgs).toContain('users.spec.ts > creates');
+  });
 });
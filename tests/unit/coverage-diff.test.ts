@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  coveredItemKeys,
+  diffCoverageResults,
+  findLostCoverage,
+} from '../../src/coverage/coverage-diff.js';
+import { generateCoverageDiffMarkdown } from '../../src/output/coverage-diff.js';
+import type { CoverageResult, OperationCoverage } from '../../src/types.js';
+
+function makeOp(overrides: Partial<OperationCoverage> = {}): OperationCoverage {
+  return {
+    path: '/users/{id}',
+    method: 'DELETE',
+    covered: true,
+    statusCodes: { '204': { covered: true, testRefs: ['t'] }, '404': { covered: true, testRefs: ['t'] } },
+    parameters: [{ name: 'id', in: 'path', required: true, covered: true }],
+    bodyProperties: [],
+    responseProperties: [],
+    testRefs: ['t'],
+    ...overrides,
+  };
+}
+
+function makeResult(operations: OperationCoverage[], endpoints = 100): CoverageResult {
+  const item = (percentage: number) => ({ total: 10, covered: percentage / 10, percentage });
+  return {
+    specFiles: [],
+    timestamp: '2026-01-01T00:00:00.000Z',
+    playwrightVersion: '1.0.0',
+    playswagVersion: '1.0.0',
+    totalTestCount: 1,
+    summary: {
+      endpoints: item(endpoints),
+      statusCodes: item(50),
+      parameters: item(50),
+      bodyProperties: item(100),
+      responseProperties: item(100),
+    },
+    tagCoverage: {},
+    operations,
+    uncoveredOperations: operations.filter((op) => !op.covered),
+    unmatchedHits: [],
+    acknowledgedHits: [],
+  };
+}
+
+describe('diffCoverageResults', () => {
+  it('reports nothing for identical runs', () => {
+    const diff = diffCoverageResults(makeResult([makeOp()]), makeResult([makeOp()]));
+    expect(diff.newlyCovered).toEqual([]);
+    expect(diff.newlyUncovered).toEqual([]);
+    expect(diff.delta.endpoints).toBe(0);
+  });
+
+  it('lists status codes that lost coverage', () => {
+    const head = makeOp({ statusCodes: { '204': { covered: true, testRefs: ['t'] }, '404': { covered: false, testRefs: [] } } });
+    const diff = diffCoverageResults(makeResult([makeOp()]), makeResult([head]));
+    expect(diff.newlyUncovered).toEqual([{ element: 'statusCode', method: 'DELETE', path: '/users/{id}', name: '404' }]);
+  });
+
+  it('lists operations, parameters and properties that gained coverage', () => {
+    const base = makeOp({
+      covered: false,
+      statusCodes: { '204': { covered: false, testRefs: [] } },
+      parameters: [{ name: 'id', in: 'path', required: true, covered: false }],
+      bodyProperties: [{ name: 'reason', required: false, covered: false }],
+      responseProperties: [{ statusCode: '204', name: 'id', required: false, covered: false }],
+    });
+    const head = makeOp({
+      statusCodes: { '204': { covered: true, testRefs: ['t'] } },
+      bodyProperties: [{ name: 'reason', required: false, covered: true }],
+      responseProperties: [{ statusCode: '204', name: 'id', required: false, covered: true }],
+    });
+    const diff = diffCoverageResults(makeResult([base], 0), makeResult([head]));
+    expect(diff.newlyCovered.map((i) => [i.element, i.name, i.statusCode])).toEqual([
+      ['operation', undefined, undefined],
+      ['statusCode', '204', undefined],
+      ['parameter', 'path:id', undefined],
+      ['bodyProperty', 'reason', undefined],
+      ['responseProperty', 'id', '204'],
+    ]);
+    expect(diff.delta.endpoints).toBe(100);
+  });
+
+  it('does not report items removed from the spec as uncovered', () => {
+    const diff = diffCoverageResults(makeResult([makeOp()]), makeResult([]));
+    expect(diff.newlyUncovered).toEqual([]);
+  });
+
+  it('counts new covered items as newly covered and new uncovered items as neither', () => {
+    const added = makeOp({ path: '/orders', method: 'GET', statusCodes: { '200': { covered: false, testRefs: [] } } });
+    const diff = diffCoverageResults(makeResult([]), makeResult([added]));
+    expect(diff.newlyCovered.map((i) => i.element)).toEqual(['operation', 'parameter']);
+    expect(diff.newlyUncovered).toEqual([]);
+  });
+});
+
+describe('generateCoverageDiffMarkdown', () => {
+  it('shows the per-dimension change and the lost items', () => {
+    const head = makeOp({ statusCodes: { '204': { covered: true, testRefs: ['t'] }, '404': { covered: false, testRefs: [] } } });
+    const md = generateCoverageDiffMarkdown(diffCoverageResults(makeResult([makeOp()]), makeResult([head], 90)));
+    expect(md).toContain('## API Coverage Diff');
+    expect(md).toContain('| Endpoints | 100.0% | 90.0% | -10.0 |');
+    expect(md).toContain('### 🔴 Lost coverage (1)');
+    expect(md).toContain('- `DELETE /users/{id} 404`');
+  });
+
+  it('says so when no item changed', () => {
+    const md = generateCoverageDiffMarkdown(diffCoverageResults(makeResult([makeOp()]), makeResult([makeOp()])));
+    expect(md).toContain('| Status Codes | 50.0% | 50.0% | ±0.0 |');
+    expect(md).toContain('No operation, status code, parameter or property changed coverage.');
+  });
+});
+
+describe('coveredItemKeys', () => {
+  it('lists the keys of covered items, sorted', () => {
+    const op = makeOp({
+      statusCodes: { '204': { covered: true, testRefs: ['t'] }, '404': { covered: false, testRefs: [] } },
+      bodyProperties: [{ name: 'reason', required: false, covered: true }],
+      responseProperties: [{ statusCode: '204', name: 'id', required: false, covered: true }],
+    });
+    expect(coveredItemKeys(makeResult([op]))).toEqual([
+      'DELETE:/users/{id}',
+      'DELETE:/users/{id}:204',
+      'DELETE:/users/{id}:204:response:id',
+      'DELETE:/users/{id}:body:reason',
+      'DELETE:/users/{id}:param:path:id',
+    ]);
+  });
+});
+
+describe('findLostCoverage', () => {
+  it('returns listed items that are uncovered now and ignores items no longer in the spec', () => {
+    const op = makeOp({ statusCodes: { '204': { covered: true, testRefs: ['t'] }, '404': { covered: false, testRefs: [] } } });
+    const lost = findLostCoverage(makeResult([op]), ['DELETE:/users/{id}:204', 'DELETE:/users/{id}:404', 'GET:/gone']);
+    expect(lost).toEqual([{ element: 'statusCode', method: 'DELETE', path: '/users/{id}', name: '404' }]);
+  });
+});
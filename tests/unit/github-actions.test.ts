@@ -292,6 +292,25 @@ describe('writeStepSummary', () => {
     expect(content).not.toContain('Uncovered operations');
   });
 
+  it('includes collapsible undocumented status codes', async () => {
+    const summaryPath = join(tmpDir, 'summary.md');
+    process.env['GITHUB_STEP_SUMMARY'] = summaryPath;
+
+    const result = makeResult({
+      operations: [
+        {
+          path: '/api/widgets', method: 'get', covered: true, statusCodes: {}, parameters: [], bodyProperties: [], responseProperties: [],
+          testRefs: ['widgets.spec.ts > lists'], undocumentedStatusCodes: [{ statusCode: '503', testRefs: ['widgets.spec.ts > lists'] }],
+        },
+      ],
+    });
+    await writeStepSummary(result, []);
+
+    const content = await readFile(summaryPath, 'utf8');
+    expect(content).toContain('Undocumented status codes (1)');
+    expect(content).toContain('| `GET` | `/api/widgets` | 503 | widgets.spec.ts > lists |');
+  });
+
   it('omits excluded dimensions from the tag coverage table columns', async () => {
     const summaryPath = join(tmpDir, 'summary.md');
     process.env['GITHUB_STEP_SUMMARY'] = summaryPath;
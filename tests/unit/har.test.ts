@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { calculateHarCoverage, harToHits } from '../../src/har.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const FIXTURE_SPEC = join(__dirname, '../fixtures/sample-openapi.yaml');
+const FIXTURE_HAR = join(__dirname, '../fixtures/session.har');
+
+function entry(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    request: { method: 'get', url: 'http://localhost/api/users' },
+    response: { status: 200 },
+    ...overrides,
+  };
+}
+
+describe('harToHits', () => {
+  it('converts method, url, status, query and JSON bodies', () => {
+    const hits = harToHits({
+      log: {
+        entries: [entry({
+          request: {
+            method: 'post',
+            url: 'http://localhost/api/users?dryRun=true',
+            postData: { mimeType: 'application/json', text: '{"name":"Ada"}' },
+          },
+          response: { status: 201, content: { mimeType: 'application/json', text: '{"id":1}' } },
+        })],
+      },
+    }, 'session.har');
+    expect(hits).toEqual([expect.objectContaining({
+      method: 'POST',
+      url: 'http://localhost/api/users?dryRun=true',
+      statusCode: 201,
+      queryParams: { dryRun: 'true' },
+      requestBody: { name: 'Ada' },
+      responseBody: { id: 1 },
+      requestContentType: 'application/json',
+      responseContentType: 'application/json',
+      testFile: 'session.har',
+      testTitle: 'session.har',
+    })]);
+  });
+
+  it('prefers the HAR queryString and turns form params into a body object', () => {
+    const [hit] = harToHits({
+      log: {
+        entries: [entry({
+          request: {
+            method: 'POST',
+            url: 'http://localhost/api/users?ignored=1',
+            queryString: [{ name: 'limit', value: '5' }],
+            postData: { mimeType: 'application/x-www-form-urlencoded', params: [{ name: 'name', value: 'Ada' }] },
+          },
+        })],
+      },
+    });
+    expect(hit?.queryParams).toEqual({ limit: '5' });
+    expect(hit?.requestBody).toEqual({ name: 'Ada' });
+    expect(hit?.requestContentType).toBe('application/x-www-form-urlencoded');
+  });
+
+  it('decodes base64 response content', () => {
+    const text = Buffer.from('{"ok":true}').toString('base64');
+    const [hit] = harToHits({ log: { entries: [entry({ response: { status: 200, content: { text, encoding: 'base64' } } })] } });
+    expect(hit?.responseBody).toEqual({ ok: true });
+  });
+
+  it('keeps non-JSON request bodies as text and drops non-JSON response bodies', () => {
+    const [hit] = harToHits({
+      log: {
+        entries: [entry({
+          request: { method: 'POST', url: 'http://localhost/api/users', postData: { mimeType: 'text/plain', text: 'hello' } },
+          response: { status: 200, content: { mimeType: 'text/html', text: '<html></html>' } },
+        })],
+      },
+    });
+    expect(hit?.requestBody).toBe('hello');
+    expect(hit?.responseBody).toBeUndefined();
+  });
+
+  it('attributes hits to the title of their page', () => {
+    const [hit] = harToHits({
+      log: { pages: [{ id: 'page@1', title: 'Checkout' }], entries: [entry({ pageref: 'page@1' })] },
+    });
+    expect(hit?.testTitle).toBe('Checkout');
+  });
+
+  it('skips page assets and aborted requests', () => {
+    const hits = harToHits({
+      log: {
+        entries: [
+          entry({ _resourceType: 'stylesheet' }),
+          entry({ _resourceType: 'xhr' }),
+          entry({ response: { status: 0 } }),
+        ],
+      },
+    });
+    expect(hits).toHaveLength(1);
+  });
+
+  it('redacts credentials and drops HTTP/2 pseudo-headers', () => {
+    const [hit] = harToHits({
+      log: {
+        entries: [entry({
+          request: {
+            method: 'GET',
+            url: 'http://localhost/api/users?api_key=abc',
+            headers: [{ name: ':authority', value: 'localhost' }, { name: 'authorization', value: 'Bearer abc' }],
+          },
+        })],
+      },
+    });
+    expect(hit?.headers).toEqual({ authorization: 'Bearer [REDACTED]' });
+    expect(hit?.queryParams).toEqual({ api_key: '[REDACTED]' });
+    expect(hit?.url).toBe('http://localhost/api/users?api_key=%5BREDACTED%5D');
+  });
+
+  it('throws on input that is not a HAR document', () => {
+    expect(() => harToHits({ entries: [] }, 'broken.har')).toThrow('broken.har is not a HAR file');
+  });
+});
+
+describe('calculateHarCoverage', () => {
+  it('computes coverage for a spec from HAR files', async () => {
+    const result = await calculateHarCoverage(FIXTURE_SPEC, [FIXTURE_HAR], { baseURL: 'http://localhost:3456' });
+    const covered = result.operations.filter((op) => op.covered).map((op) => `${op.method} ${op.path}`);
+    expect(covered).toEqual(['GET /api/users', 'POST /api/users']);
+    expect(result.unmatchedHits).toHaveLength(0);
+  });
+
+  it('applies the tag filters to the spec and the path patterns to the recorded calls', async () => {
+    const baseURL = 'http://localhost:3456';
+    const byTag = await calculateHarCoverage(FIXTURE_SPEC, [FIXTURE_HAR], { baseURL, excludeTags: ['users'] });
+    expect(byTag.operations.some((op) => op.path.startsWith('/api/users'))).toBe(false);
+
+    const byPath = await calculateHarCoverage(FIXTURE_SPEC, [FIXTURE_HAR], { baseURL, excludePatterns: ['/api/users'] });
+    expect(byPath.summary.endpoints.covered).toBe(0);
+    expect(byPath.unmatchedHits).toHaveLength(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { readHitsFile, writeHitsFile } from '../../src/output/hits.js';
+import type { EndpointHit } from '../../src/types.js';
+
+const hits: EndpointHit[] = [
+  { method: 'GET', url: 'http://localhost/api/users', statusCode: 200, testFile: 'a.spec.ts', testTitle: 'lists' },
+  { method: 'POST', url: 'http://localhost/api/users', statusCode: 201, requestBody: { name: 'Ada' }, testFile: 'a.spec.ts', testTitle: 'creates' },
+];
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'playswag-hits-test-'));
+});
+
+afterEach(async () => {
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('writeHitsFile', () => {
+  it('writes one JSON hit per line to playswag-hits.jsonl', async () => {
+    const path = await writeHitsFile(hits, tmpDir);
+    expect(path).toBe(join(tmpDir, 'playswag-hits.jsonl'));
+    const lines = (await readFile(path, 'utf8')).trimEnd().split('\n');
+    expect(lines.map((l) => JSON.parse(l) as EndpointHit)).toEqual(hits);
+  });
+
+  it('respects a custom fileName', async () => {
+    const path = await writeHitsFile(hits, tmpDir, { fileName: 'raw/hits.jsonl' });
+    expect(path).toBe(join(tmpDir, 'raw/hits.jsonl'));
+  });
+
+  it('writes an empty file when there are no hits', async () => {
+    const path = await writeHitsFile([], tmpDir);
+    expect(await readFile(path, 'utf8')).toBe('');
+  });
+});
+
+describe('readHitsFile', () => {
+  it('round-trips a file written by writeHitsFile', async () => {
+    const path = await writeHitsFile(hits, tmpDir);
+    expect(await readHitsFile(path)).toEqual(hits);
+  });
+
+  it('ignores blank lines', async () => {
+    const path = join(tmpDir, 'hits.jsonl');
+    await writeFile(path, `\n${JSON.stringify(hits[0])}\n\n`, 'utf8');
+    expect(await readHitsFile(path)).toEqual([hits[0]]);
+  });
+
+  it('reports the line number of invalid JSON', async () => {
+    const path = join(tmpDir, 'hits.jsonl');
+    await writeFile(path, `${JSON.stringify(hits[0])}\n{oops\n`, 'utf8');
+    await expect(readHitsFile(path)).rejects.toThrow('Invalid JSON on line 2');
+  });
+});
@@ -172,6 +172,36 @@ describe('generateHtmlReport', () => {
     expect(html).toContain('/api/unknown');
   });
 
+  it('adds a Tests tab listing what each test covers on its own', () => {
+    const html = generateHtmlReport(
+      makeResult({
+        operations: [
+          makeOperation({ testRefs: ['a.spec.ts > lists', 'b.spec.ts > pages'], statusCodes: { '200': { covered: true, testRefs: ['b.spec.ts > pages'] } } }),
+        ],
+        tests: [{ id: 'a.spec.ts > lists', file: 'a.spec.ts', line: 4, titlePath: ['users', 'lists'], projects: ['api'], outcome: 'expected' }],
+      })
+    );
+    expect(html).toContain('data-tab="tests"');
+    expect(html).toContain('users › lists');
+    expect(html).toContain('a.spec.ts:4');
+    expect(html).toContain('GET /api/users 200');
+    expect(html).toContain('<span class="badge grey">redundant</span>');
+  });
+
+  it('omits the Tests tab when no test recorded a hit', () => {
+    const html = generateHtmlReport(makeResult({ operations: [makeOperation({ testRefs: [] })] }));
+    expect(html).not.toContain('data-tab="tests"');
+  });
+
+  it('marks operations covered only by failing tests and lists those tests', () => {
+    const html = generateHtmlReport(
+      makeResult({ operations: [makeOperation({ covered: false, testRefs: [], failingTestRefs: ['users.spec.ts > fails'] })] })
+    );
+    expect(html).toContain('<span class="failing-badge">failing tests only</span>');
+    expect(html).toContain('<span class="tick yellow" title="Covered only by failing tests">!</span>');
+    expect(html).toContain('users.spec.ts &gt; fails');
+  });
+
   it('includes the dark/light theme button', () => {
     const html = generateHtmlReport(makeResult());
     expect(html).toContain('theme-btn');
@@ -371,6 +401,161 @@ describe('generateHtmlReport', () => {
   });
 });
 
+describe('generateHtmlReport — response schema conformance', () => {
+  const violating = makeOperation({
+    responseConformance: [{ statusCode: '200', validated: 2, conforming: false }],
+    responseViolations: [
+      {
+        statusCode: '200',
+        testRef: 'users.spec.ts > lists users',
+        errors: [{ path: '$[0].id', message: 'expected integer, got string' }],
+      },
+    ],
+  });
+  const summaryWithConformance = {
+    ...makeResult().summary,
+    responseConformance: { total: 1, covered: 0, percentage: 0 },
+  };
+
+  it('renders the schema violations section with the failing test', () => {
+    const html = generateHtmlReport(makeResult({ operations: [violating], summary: summaryWithConformance }));
+    expect(html).toContain('Response Schema Violations');
+    expect(html).toContain('users.spec.ts &gt; lists users');
+    expect(html).toContain('$[0].id: expected integer, got string');
+  });
+
+  it('renders a Response Conformance summary card when the dimension is present', () => {
+    const html = generateHtmlReport(makeResult({ summary: summaryWithConformance }));
+    expect(html).toContain('Response Conformance');
+  });
+
+  it('omits the section and card when responseConformance is excluded', () => {
+    const html = generateHtmlReport(
+      makeResult({ operations: [violating], summary: summaryWithConformance }),
+      {},
+      '',
+      [],
+      0.5,
+      ['responseConformance']
+    );
+    expect(html).not.toContain('Response Schema Violations');
+    expect(html).not.toContain('Response Conformance');
+  });
+});
+
+describe('generateHtmlReport — spec drift', () => {
+  it('renders the undocumented response properties with the tests that received them', () => {
+    const op = makeOperation({
+      undocumentedResponseProperties: [{ statusCode: '200', name: 'items[].sku', testRefs: ['users.spec.ts > lists users'] }],
+    });
+    const html = generateHtmlReport(makeResult({ operations: [op] }));
+    expect(html).toContain('Spec Drift');
+    expect(html).toContain('items[].sku');
+    expect(html).toContain('users.spec.ts &gt; lists users');
+  });
+
+  it('omits the section when no response had undocumented properties', () => {
+    expect(generateHtmlReport(makeResult())).not.toContain('Spec Drift');
+  });
+});
+
+describe('generateHtmlReport — undocumented status codes', () => {
+  it('renders the undocumented status codes and flags 5xx as errors', () => {
+    const op = makeOperation({ undocumentedStatusCodes: [{ statusCode: '502', testRefs: ['users.spec.ts > lists users'] }] });
+    const html = generateHtmlReport(makeResult({ operations: [op] }));
+    expect(html).toContain('Undocumented Status Codes');
+    expect(html).toContain('<span class="status-code status-5xx">502</span>');
+    expect(html).toContain('users.spec.ts &gt; lists users');
+  });
+
+  it('omits the section when every status code received is documented', () => {
+    expect(generateHtmlReport(makeResult())).not.toContain('Undocumented Status Codes');
+  });
+});
+
+describe('generateHtmlReport — invalid request payloads', () => {
+  it('renders accepted payloads as drift and rejected payloads as negative tests', () => {
+    const op = makeOperation({
+      method: 'POST',
+      invalidRequestBodies: [
+        { testRef: 'users.spec.ts > rejects bad age', statusCode: '422', rejected: true, errors: [{ path: '$.age', message: 'expected integer, got string' }] },
+        { testRef: 'users.spec.ts > creates user', statusCode: '201', rejected: false, errors: [{ path: '$.name', message: 'expected string, got number' }] },
+      ],
+    });
+    const html = generateHtmlReport(makeResult({ operations: [op] }));
+    expect(html).toContain('Invalid Request Payloads');
+    expect(html).toContain('Accepted — drift');
+    expect(html).toContain('Rejected — negative test');
+    expect(html.indexOf('Accepted — drift')).toBeLessThan(html.indexOf('Rejected — negative test'));
+  });
+
+  it('omits the section when every payload conformed', () => {
+    const html = generateHtmlReport(makeResult());
+    expect(html).not.toContain('Invalid Request Payloads');
+  });
+});
+
+describe('generateHtmlReport — enum values', () => {
+  it('renders an Enum Values card and per-operation member badges', () => {
+    const op = makeOperation({
+      enumValues: [
+        { name: 'status', in: 'query', value: 'active', covered: true },
+        { name: 'status', in: 'query', value: 'archived', covered: false },
+      ],
+    });
+    const html = generateHtmlReport(makeResult({
+      operations: [op],
+      summary: { ...makeResult().summary, enumValues: { total: 2, covered: 1, percentage: 50 } },
+    }));
+    expect(html).toContain('<div class="card-label">Enum Values</div>');
+    expect(html).toContain('<div class="detail-label">Enum Values</div>');
+    expect(html).toContain('<span class="badge green" title="query">status=&quot;active&quot;</span>');
+    expect(html).toContain('<span class="badge grey" title="query">status=&quot;archived&quot;</span>');
+  });
+
+  it('omits the enum detail section for operations without enums', () => {
+    const html = generateHtmlReport(makeResult());
+    expect(html).not.toContain('<div class="detail-label">Enum Values</div>');
+  });
+});
+
+describe('generateHtmlReport — media types', () => {
+  it('renders a Media Types card and per-operation media type badges', () => {
+    const op = makeOperation({
+      mediaTypes: [
+        { direction: 'request', mediaType: 'multipart/form-data', covered: false },
+        { direction: 'response', statusCode: '200', mediaType: 'application/json', covered: true },
+      ],
+    });
+    const html = generateHtmlReport(makeResult({
+      operations: [op],
+      summary: { ...makeResult().summary, mediaTypes: { total: 2, covered: 1, percentage: 50 } },
+    }));
+    expect(html).toContain('<div class="card-label">Media Types</div>');
+    expect(html).toContain('<span class="badge grey" title="request body">req multipart/form-data</span>');
+    expect(html).toContain('<span class="badge green" title="response 200">200 application/json</span>');
+  });
+});
+
+describe('generateHtmlReport — security', () => {
+  it('renders a Security card and per-operation scheme badges', () => {
+    const op = makeOperation({
+      securitySchemes: [
+        { name: 'oauth', type: 'oauth2', covered: true, scopes: [{ name: 'pets:write', covered: false }] },
+      ],
+      unauthenticated: { statusCodes: ['401'], rejected: true },
+    });
+    const html = generateHtmlReport(makeResult({
+      operations: [op],
+      summary: { ...makeResult().summary, security: { total: 2, covered: 2, percentage: 100 } },
+    }));
+    expect(html).toContain('<div class="card-label">Security</div>');
+    expect(html).toContain('<span class="badge green" title="oauth2">oauth</span>');
+    expect(html).toContain('<span class="badge grey" title="scope of oauth">pets:write</span>');
+    expect(html).toContain('title="unauthenticated calls returned 401">unauthenticated → 401/403</span>');
+  });
+});
+
 describe('writeHtmlReport', () => {
   let tmpDir: string;
 
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { inferPathTemplate, inferSchema, inferSpec } from '../../src/openapi/infer.js';
+import { toYaml, writeInferredSpec } from '../../src/output/inferred-spec.js';
+import type { EndpointHit } from '../../src/types.js';
+
+const baseURL = 'https://api.example.com';
+
+function hit(method: string, url: string, statusCode = 200, extra: Partial<EndpointHit> = {}): EndpointHit {
+  return { method, url: `${baseURL}${url}`, statusCode, testFile: 'orders.spec.ts', testTitle: 'orders', ...extra };
+}
+
+describe('inferPathTemplate', () => {
+  it('collapses numeric and UUID segments into path parameters', () => {
+    expect(inferPathTemplate('/orders/42/items/3f2b8c1e-9d4a-4c6e-8f7a-1b2c3d4e5f60')).toEqual({
+      template: '/orders/{id}/items/{id2}',
+      params: [['id', 'integer'], ['id2', 'uuid']],
+    });
+    expect(inferPathTemplate('/v2/orders')).toEqual({ template: '/v2/orders', params: [] });
+  });
+});
+
+describe('inferSchema', () => {
+  it('merges observed objects, requiring properties every object has', () => {
+    expect(inferSchema([{ id: 1, note: 'a' }, { id: 2, note: null, tags: ['x'] }])).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        note: { type: ['string', 'null'] },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['id', 'note'],
+    });
+  });
+
+  it('widens integers to numbers and detects string formats', () => {
+    expect(inferSchema([1, 2.5])).toEqual({ type: 'number' });
+    expect(inferSchema(['2026-01-01T10:00:00Z'])).toEqual({ type: 'string', format: 'date-time' });
+    expect(inferSchema([[]])).toEqual({ type: 'array', items: {} });
+  });
+});
+
+describe('inferSpec', () => {
+  const hits = [
+    hit('GET', '/orders?status=open&limit=10', 200, { queryParams: { status: 'open', limit: '10' }, responseBody: [{ id: 1 }] }),
+    hit('GET', '/orders?status=closed', 200, { queryParams: { status: 'closed' }, responseBody: [] }),
+    hit('POST', '/orders', 201, { requestBody: { sku: 'A1', qty: 2 }, requestContentType: 'application/json' }),
+    hit('GET', '/orders/7', 404),
+    hit('GET', '/orders/8', 200, { responseBody: { id: 8 } }),
+  ];
+
+  it('groups calls by method and path template', () => {
+    const doc = inferSpec(hits, baseURL);
+    expect(doc.openapi).toBe('3.1.0');
+    expect(Object.keys(doc.paths!)).toEqual(['/orders', '/orders/{id}']);
+    expect(Object.keys(doc.paths!['/orders']!)).toEqual(['get', 'post']);
+    expect(Object.keys(doc.paths!['/orders/{id}']!.get!.responses!)).toEqual(['200', '404']);
+  });
+
+  it('infers query parameters and request and response schemas', () => {
+    const orders = inferSpec(hits, baseURL).paths!['/orders']!;
+    expect(orders.get!.parameters).toEqual([
+      { name: 'limit', in: 'query', required: false, schema: { type: 'integer' } },
+      { name: 'status', in: 'query', required: true, schema: { type: 'string' } },
+    ]);
+    expect(orders.get!.responses!['200']).toEqual({
+      description: 'Observed in 2 call(s)',
+      content: {
+        'application/json': {
+          schema: { type: 'array', items: { type: 'object', properties: { id: { type: 'integer' } }, required: ['id'] } },
+        },
+      },
+    });
+    expect(orders.post!.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: { type: 'object', properties: { sku: { type: 'string' }, qty: { type: 'integer' } }, required: ['sku', 'qty'] },
+        },
+      },
+    });
+  });
+
+  it('declares the path parameters', () => {
+    const get = inferSpec(hits, baseURL).paths!['/orders/{id}']!.get!;
+    expect(get.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }]);
+  });
+
+  it('declares a path parameter as a string when calls disagree on its format', () => {
+    const mixed = [
+      hit('GET', '/orders/7', 200),
+      hit('DELETE', '/orders/3f2b8c1e-9a4d-4e6f-8b2a-1c3d5e7f9a0b', 204),
+      hit('GET', '/orders/7/items/8', 200),
+      hit('GET', '/orders/8/items/9', 200),
+    ];
+    const paths = inferSpec(mixed, baseURL).paths!;
+    const schema = { type: 'string' };
+    expect(paths['/orders/{id}']!.get!.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema }]);
+    expect(paths['/orders/{id}']!.delete!.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema }]);
+    expect(paths['/orders/{id}/items/{id2}']!.get!.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+      { name: 'id2', in: 'path', required: true, schema: { type: 'integer' } },
+    ]);
+  });
+});
+
+describe('toYaml', () => {
+  it('writes block-style YAML, quoting scalars that need it', () => {
+    expect(toYaml({ paths: { '/orders/{id}': { get: { responses: { '200': { description: 'OK' } } } } } })).toBe(
+      [
+        'paths:',
+        '  "/orders/{id}":',
+        '    get:',
+        '      responses:',
+        '        "200":',
+        '          description: OK',
+      ].join('\n')
+    );
+    expect(toYaml({ required: ['id', 'null'], type: ['string', 'null'], enum: [], items: {} })).toBe(
+      ['required:', '  - id', '  - "null"', 'type:', '  - string', '  - "null"', 'enum: []', 'items: {}'].join('\n')
+    );
+    expect(toYaml({ parameters: [{ name: 'id', in: 'path' }] })).toBe(['parameters:', '  - name: id', '    in: path'].join('\n'));
+  });
+});
+
+describe('writeInferredSpec', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'playswag-inferred-spec-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes playswag-inferred-spec.yaml', async () => {
+    const path = await writeInferredSpec([hit('DELETE', '/orders/7', 204)], tmpDir, {}, baseURL);
+    expect(path).toBe(join(tmpDir, 'playswag-inferred-spec.yaml'));
+    const yaml = await readFile(path, 'utf8');
+    expect(yaml).toContain('openapi: "3.1.0"\n');
+    expect(yaml).toContain('  "/orders/{id}":\n    delete:\n');
+  });
+
+  it('writes JSON when the file name ends with .json', async () => {
+    const path = await writeInferredSpec([hit('GET', '/orders')], tmpDir, { fileName: 'inferred.json' }, baseURL);
+    expect(JSON.parse(await readFile(path, 'utf8'))).toMatchObject({ paths: { '/orders': { get: {} } } });
+  });
+});
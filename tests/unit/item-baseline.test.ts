@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { applyItemBaseline, checkItemBaseline, readItemBaseline, type ItemBaseline } from '../../src/output/item-baseline.js';
+import type { CoverageResult, OperationCoverage } from '../../src/types.js';
+
+function makeOp(overrides: Partial<OperationCoverage> = {}): OperationCoverage {
+  return {
+    path: '/users/{id}',
+    method: 'GET',
+    covered: true,
+    statusCodes: { '200': { covered: true, testRefs: ['t'] }, '404': { covered: false, testRefs: [] } },
+    parameters: [{ name: 'id', in: 'path', required: true, covered: true }],
+    bodyProperties: [],
+    responseProperties: [],
+    testRefs: ['t'],
+    ...overrides,
+  };
+}
+
+function makeResult(operations: OperationCoverage[]): CoverageResult {
+  const item = { total: 1, covered: 1, percentage: 100 };
+  return {
+    specFiles: ['openapi.yaml'],
+    timestamp: '2026-01-01T00:00:00.000Z',
+    playwrightVersion: '1.0.0',
+    playswagVersion: '1.0.0',
+    totalTestCount: 1,
+    summary: { endpoints: item, statusCodes: item, parameters: item, bodyProperties: item, responseProperties: item },
+    tagCoverage: {},
+    operations,
+    uncoveredOperations: operations.filter((op) => !op.covered),
+    unmatchedHits: [],
+    acknowledgedHits: [],
+  };
+}
+
+function makeBaseline(coveredItems: string[]): ItemBaseline {
+  return { timestamp: '2025-12-01T00:00:00.000Z', specFiles: ['openapi.yaml'], coveredItems };
+}
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'playswag-item-baseline-test-'));
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('checkItemBaseline', () => {
+  it('reports each previously covered item that lost coverage, failing by default', () => {
+    const violations = checkItemBaseline(makeResult([makeOp()]), makeBaseline(['GET:/users/{id}:200', 'GET:/users/{id}:404']));
+    expect(violations).toEqual([
+      { message: 'GET /users/{id} 404 is no longer covered (covered in the item baseline)', fail: true },
+    ]);
+  });
+
+  it('reports nothing when coverage only grew, even if the percentages stayed the same', () => {
+    expect(checkItemBaseline(makeResult([makeOp()]), makeBaseline(['GET:/users/{id}:200']))).toEqual([]);
+  });
+
+  it('honors fail: false and excludeDimensions', () => {
+    const op = makeOp({ covered: false, parameters: [{ name: 'id', in: 'path', required: true, covered: false }] });
+    const baseline = makeBaseline(['GET:/users/{id}', 'GET:/users/{id}:param:path:id']);
+    expect(checkItemBaseline(makeResult([op]), baseline, { fail: false }, ['parameters'])).toEqual([
+      { message: 'GET /users/{id} is no longer covered (covered in the item baseline)', fail: false },
+    ]);
+  });
+});
+
+describe('readItemBaseline', () => {
+  it('returns undefined for a missing file and throws for a file without coveredItems', async () => {
+    expect(await readItemBaseline(join(tmpDir, 'missing.json'))).toBeUndefined();
+    const file = join(tmpDir, 'bad.json');
+    await writeFile(file, '{"summary":{}}', 'utf8');
+    await expect(readItemBaseline(file)).rejects.toThrow('has no coveredItems list');
+  });
+});
+
+describe('applyItemBaseline', () => {
+  it('creates the snapshot on the first run when update is set', async () => {
+    const file = join(tmpDir, 'items.json');
+    expect(await applyItemBaseline(makeResult([makeOp()]), { file, update: true })).toEqual([]);
+
+    const written = await readItemBaseline(file);
+    expect(written?.coveredItems).toEqual(['GET:/users/{id}', 'GET:/users/{id}:200', 'GET:/users/{id}:param:path:id']);
+  });
+
+  it('does not rewrite the snapshot when an item lost coverage or nothing changed', async () => {
+    const file = join(tmpDir, 'items.json');
+    const lost = JSON.stringify(makeBaseline(['GET:/users/{id}:404']));
+    await writeFile(file, lost, 'utf8');
+    expect(await applyItemBaseline(makeResult([makeOp()]), { file, update: true })).toHaveLength(1);
+    expect(await readFile(file, 'utf8')).toBe(lost);
+
+    const same = JSON.stringify(makeBaseline(['GET:/users/{id}', 'GET:/users/{id}:200', 'GET:/users/{id}:param:path:id']));
+    await writeFile(file, same, 'utf8');
+    expect(await applyItemBaseline(makeResult([makeOp()]), { file, update: true })).toEqual([]);
+    expect(await readFile(file, 'utf8')).toBe(same);
+  });
+});
@@ -97,6 +97,39 @@ describe('writeJUnitReport', () => {
     expect(xml).toContain('failures="2"');
   });
 
+  it('adds a testcase per matching tag and dimension for tag thresholds', async () => {
+    const summary = makeResult().summary;
+    const result = makeResult({ tagCoverage: { payments: summary, admin: summary } });
+    const outputPath = await writeJUnitReport(result, tmpDir, { tags: { payments: { endpoints: 100 }, admin: { endpoints: 30 } } });
+    const xml = await readFile(outputPath, 'utf8');
+
+    expect(xml).toContain('tests="7" failures="1"');
+    expect(xml).toContain('<testcase name="Endpoint coverage (tag payments)" classname="playswag.coverage" time="0">');
+    expect(xml).toContain('<failure message="Endpoint coverage (tag payments): 75.0% is below threshold 100%"');
+    expect(xml).toContain('<testcase name="Endpoint coverage (tag admin)" classname="playswag.coverage" time="0" />');
+  });
+
+  it('adds a failed testcase for each extra violation', async () => {
+    const outputPath = await writeJUnitReport(makeResult(), tmpDir, undefined, {}, undefined, [
+      { message: 'Endpoint coverage 75.0% dropped 5.0 points below the baseline 80.0%', fail: true },
+    ]);
+    const xml = await readFile(outputPath, 'utf8');
+
+    expect(xml).toContain('tests="6" failures="1"');
+    expect(xml).toContain('<failure message="Endpoint coverage 75.0% dropped 5.0 points below the baseline 80.0%"');
+  });
+
+  it('adds a passing testcase with the message in system-out for warn-only extra violations', async () => {
+    const outputPath = await writeJUnitReport(makeResult(), tmpDir, undefined, {}, undefined, [
+      { message: 'Lost coverage: GET /users 200', fail: false },
+    ]);
+    const xml = await readFile(outputPath, 'utf8');
+
+    expect(xml).toContain('tests="6" failures="0"');
+    expect(xml).not.toContain('<failure');
+    expect(xml).toContain('<system-out>Lost coverage: GET /users 200</system-out>');
+  });
+
   it('has 0 failures when no threshold is configured', async () => {
     const outputPath = await writeJUnitReport(makeResult(), tmpDir, undefined);
     const xml = await readFile(outputPath, 'utf8');
@@ -151,4 +184,17 @@ describe('writeJUnitReport', () => {
     expect(xml).toContain('Response Property Coverage');
     expect(xml).toContain('classname="playswag.coverage"');
   });
+
+  it('lists undocumented status codes in the suite output', async () => {
+    const result = makeResult({
+      operations: [
+        {
+          path: '/api/users', method: 'GET', covered: true, statusCodes: {}, parameters: [], bodyProperties: [], responseProperties: [],
+          testRefs: [], undocumentedStatusCodes: [{ statusCode: '500', testRefs: ['users.spec.ts > lists'] }],
+        },
+      ],
+    });
+    const xml = await readFile(await writeJUnitReport(result, tmpDir, undefined), 'utf8');
+    expect(xml).toContain('<system-out>Undocumented status code: GET /api/users 500 (users.spec.ts &gt; lists)</system-out>');
+  });
 });
@@ -144,6 +144,12 @@ describe('generateMarkdownReport', () => {
     expect(md).toContain('`/api/orders`');
   });
 
+  it('marks uncovered operations that only failing tests called', () => {
+    const op = makeOperation({ path: '/api/orders', method: 'POST', covered: false, failingTestRefs: ['orders.spec.ts > creates'] });
+    const md = generateMarkdownReport(makeResult({ operations: [op] }));
+    expect(md).toContain('`/api/orders` ⚠️ covered only by failing tests');
+  });
+
   it('does not render the uncovered operations section when all ops are covered', () => {
     const md = generateMarkdownReport(makeResult());
     expect(md).not.toContain('## Uncovered Operations');
@@ -185,6 +191,30 @@ describe('generateMarkdownReport', () => {
     expect(md).not.toContain('↑');
     expect(md).not.toContain('↓');
   });
+
+  it('lists deprecated operations that tests still call, with their separate coverage', () => {
+    const legacy = makeOperation({ path: '/v1/users', deprecated: true, testRefs: ['a.spec.ts > old', 'b.spec.ts > older'] });
+    const md = generateMarkdownReport(makeResult({
+      deprecatedOperations: [legacy],
+      deprecatedSummary: makeResult().summary,
+    }));
+    expect(md).toContain('## Deprecated Operations');
+    expect(md).toContain('| Endpoint | 3 | 4 | 🟡 75.0% |');
+    expect(md).toContain('| `GET` | `/v1/users` | a.spec.ts > old<br>b.spec.ts > older |');
+  });
+
+  it('lists undocumented status codes with the tests that received them', () => {
+    const op = makeOperation({ undocumentedStatusCodes: [{ statusCode: '500', testRefs: ['a.spec.ts > lists', 'b.spec.ts > pages'] }] });
+    const md = generateMarkdownReport(makeResult({ operations: [op] }));
+    expect(md).toContain('## Undocumented Status Codes');
+    expect(md).toContain('| `GET` | `/api/users` | 500 | a.spec.ts > lists<br>b.spec.ts > pages |');
+    expect(generateMarkdownReport(makeResult())).not.toContain('Undocumented Status Codes');
+  });
+
+  it('omits the deprecated section when no test calls a deprecated operation', () => {
+    const md = generateMarkdownReport(makeResult({ operations: [makeOperation({ deprecated: true })] }));
+    expect(md).not.toContain('Deprecated');
+  });
 });
 
 // ─── writeMarkdownReport ─────────────────────────────────────────────────────
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeMediaTypes } from '../../src/coverage/media-types.js';
+import type { NormalizedOperation } from '../../src/types.js';
+
+const uploadOp: NormalizedOperation = {
+  pathTemplate: '/api/documents',
+  method: 'POST',
+  parameters: [],
+  requestMediaTypes: ['application/json', 'multipart/form-data'],
+  responses: {
+    '201': { mediaTypes: ['application/json', 'text/*'] },
+    '415': {},
+  },
+};
+
+const covered = (entries: ReturnType<typeof analyzeMediaTypes>) =>
+  entries.filter((m) => m.covered).map((m) => `${m.direction}:${m.statusCode ?? ''}:${m.mediaType}`);
+
+describe('analyzeMediaTypes', () => {
+  it('returns every declared media type uncovered when no hit is given', () => {
+    expect(analyzeMediaTypes(uploadOp)).toEqual([
+      { direction: 'request', mediaType: 'application/json', covered: false },
+      { direction: 'request', mediaType: 'multipart/form-data', covered: false },
+      { direction: 'response', statusCode: '201', mediaType: 'application/json', covered: false },
+      { direction: 'response', statusCode: '201', mediaType: 'text/*', covered: false },
+    ]);
+  });
+
+  it('marks the request and response media types a hit used', () => {
+    const result = analyzeMediaTypes(uploadOp, {
+      statusCode: 201,
+      requestContentType: 'multipart/form-data',
+      responseContentType: 'application/json',
+    });
+    expect(covered(result)).toEqual(['request::multipart/form-data', 'response:201:application/json']);
+  });
+
+  it('credits a media type range when no exact type matches', () => {
+    const result = analyzeMediaTypes(uploadOp, { statusCode: 201, responseContentType: 'text/plain' });
+    expect(covered(result)).toEqual(['response:201:text/*']);
+  });
+
+  it('ignores case and parameters in the recorded content type', () => {
+    const result = analyzeMediaTypes(uploadOp, { statusCode: 201, requestContentType: 'Application/JSON; charset=utf-8' });
+    expect(covered(result)).toEqual(['request::application/json']);
+  });
+
+  it('does not credit undeclared media types', () => {
+    const result = analyzeMediaTypes(uploadOp, {
+      statusCode: 201,
+      requestContentType: 'application/xml',
+      responseContentType: 'application/xml',
+    });
+    expect(covered(result)).toEqual([]);
+  });
+
+  it('only reports response media types for the status code the hit received', () => {
+    const result = analyzeMediaTypes(uploadOp, { statusCode: 415, responseContentType: 'application/json' });
+    expect(result.every((m) => m.direction === 'request')).toBe(true);
+  });
+
+  it('reports response media types of the range or default response documenting the code', () => {
+    const op: NormalizedOperation = { ...uploadOp, responses: { '201': {}, '4XX': { mediaTypes: ['application/problem+json'] } } };
+    const result = analyzeMediaTypes(op, { statusCode: 422, responseContentType: 'application/problem+json' });
+    expect(covered(result)).toEqual(['response:4XX:application/problem+json']);
+  });
+});
@@ -377,3 +377,124 @@ describe('mergeCoverageResults', () => {
     expect(merged.summary.parameters.percentage).toBe(100);
   });
 });
+
+describe('mergeCoverageResults — invalid request payloads', () => {
+  it('unions invalid payloads across shards and deduplicates by test and status code', () => {
+    const entry = {
+      testRef: 'users.spec.ts > rejects bad email',
+      statusCode: '400',
+      rejected: true,
+      errors: [{ path: '$.email', message: 'expected string, got number' }],
+    };
+    const other = { ...entry, testRef: 'users.spec.ts > accepts anything', statusCode: '201', rejected: false };
+    const a = makeResult({ operations: [makeOp({ method: 'POST', invalidRequestBodies: [entry] })] });
+    const b = makeResult({ operations: [makeOp({ method: 'POST', invalidRequestBodies: [entry, other] })] });
+    const merged = mergeCoverageResults(a, b);
+    expect(merged.operations[0]!.invalidRequestBodies).toEqual([entry, other]);
+  });
+});
+
+describe('mergeCoverageResults — security', () => {
+  it('ORs scheme and scope coverage and unions unauthenticated outcomes', () => {
+    const a = makeResult({
+      operations: [makeOp({
+        securitySchemes: [{ name: 'oauth', type: 'oauth2', covered: true, scopes: [{ name: 'read', covered: true }, { name: 'write', covered: false }] }],
+        unauthenticated: { statusCodes: ['200'], rejected: false },
+      })],
+    });
+    const b = makeResult({
+      operations: [makeOp({
+        securitySchemes: [{ name: 'oauth', type: 'oauth2', covered: true, scopes: [{ name: 'read', covered: false }, { name: 'write', covered: true }] }],
+        unauthenticated: { statusCodes: ['401'], rejected: true },
+      })],
+    });
+    const merged = mergeCoverageResults(a, b);
+    expect(merged.operations[0]!.securitySchemes).toEqual([
+      { name: 'oauth', type: 'oauth2', covered: true, scopes: [{ name: 'read', covered: true }, { name: 'write', covered: true }] },
+    ]);
+    expect(merged.operations[0]!.unauthenticated).toEqual({ statusCodes: ['200', '401'], rejected: true });
+    expect(merged.summary.security).toEqual({ total: 2, covered: 2, percentage: 100 });
+  });
+});
+
+describe('mergeCoverageResults — deprecated operations', () => {
+  it('keeps deprecated operations apart when an input report did', () => {
+    const legacy = makeOp({ path: '/v1/users', deprecated: true });
+    const a = makeResult({
+      operations: [makeOp({ covered: true })],
+      deprecatedOperations: [legacy],
+      deprecatedSummary: makeResult().summary,
+    });
+    const b = makeResult({
+      operations: [makeOp()],
+      deprecatedOperations: [{ ...legacy, covered: true, testRefs: ['b.spec.ts > calls v1'] }],
+      deprecatedSummary: makeResult().summary,
+    });
+
+    const merged = mergeCoverageResults(a, b);
+
+    expect(merged.operations.map((op) => op.path)).toEqual(['/users']);
+    expect(merged.summary.endpoints.total).toBe(1);
+    expect(merged.deprecatedOperations?.[0]).toMatchObject({ path: '/v1/users', covered: true, testRefs: ['b.spec.ts > calls v1'] });
+    expect(merged.deprecatedSummary?.endpoints).toEqual({ total: 1, covered: 1, percentage: 100 });
+  });
+});
+
+describe('mergeCoverageResults — test references', () => {
+  it('unions test references by id, keeping the worst outcome', () => {
+    const ref = { id: 'a.spec.ts > lists', file: 'a.spec.ts', line: 3, titlePath: ['lists'] };
+    const a = makeResult({ tests: [{ ...ref, projects: ['chromium'], outcome: 'expected' }] });
+    const b = makeResult({
+      tests: [
+        { ...ref, projects: ['firefox'], outcome: 'unexpected' },
+        { id: 'b.spec.ts > gets', file: 'b.spec.ts', titlePath: ['gets'], projects: [] },
+      ],
+    });
+
+    const merged = mergeCoverageResults(a, b);
+
+    expect(merged.tests).toEqual([
+      { ...ref, projects: ['chromium', 'firefox'], outcome: 'unexpected' },
+      { id: 'b.spec.ts > gets', file: 'b.spec.ts', titlePath: ['gets'], projects: [] },
+    ]);
+  });
+
+  it('unions failing test references of operations', () => {
+    const a = makeResult({ operations: [makeOp({ failingTestRefs: ['a.spec.ts > fails'] })] });
+    const b = makeResult({ operations: [makeOp({ failingTestRefs: ['b.spec.ts > fails'] })] });
+    expect(mergeCoverageResults(a, b).operations[0]!.failingTestRefs).toEqual(['a.spec.ts > fails', 'b.spec.ts > fails']);
+  });
+
+  it('unions undocumented response properties and their tests', () => {
+    const prop = (testRef: string) => ({ statusCode: '200', name: 'nickname', testRefs: [testRef] });
+    const a = makeResult({ operations: [makeOp({ undocumentedResponseProperties: [prop('a.spec.ts > gets')] })] });
+    const b = makeResult({ operations: [makeOp({ undocumentedResponseProperties: [prop('b.spec.ts > gets')] })] });
+    expect(mergeCoverageResults(a, b).operations[0]!.undocumentedResponseProperties).toEqual([
+      { statusCode: '200', name: 'nickname', testRefs: ['a.spec.ts > gets', 'b.spec.ts > gets'] },
+    ]);
+    const plain = makeResult({ operations: [makeOp()] });
+    expect(mergeCoverageResults(plain, plain).operations[0]!.undocumentedResponseProperties).toBeUndefined();
+  });
+
+  it('unions undocumented status codes and their tests', () => {
+    const a = makeResult({ operations: [makeOp({ undocumentedStatusCodes: [{ statusCode: '500', testRefs: ['a.spec.ts > gets'] }] })] });
+    const b = makeResult({
+      operations: [makeOp({
+        undocumentedStatusCodes: [
+          { statusCode: '500', testRefs: ['b.spec.ts > gets'] },
+          { statusCode: '418', testRefs: ['b.spec.ts > brews'] },
+        ],
+      })],
+    });
+    expect(mergeCoverageResults(a, b).operations[0]!.undocumentedStatusCodes).toEqual([
+      { statusCode: '500', testRefs: ['a.spec.ts > gets', 'b.spec.ts > gets'] },
+      { statusCode: '418', testRefs: ['b.spec.ts > brews'] },
+    ]);
+    const plain = makeResult({ operations: [makeOp()] });
+    expect(mergeCoverageResults(plain, plain).operations[0]!.undocumentedStatusCodes).toBeUndefined();
+  });
+
+  it('leaves tests unset when no input has them', () => {
+    expect(mergeCoverageResults(makeResult(), makeResult()).tests).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import type { Response } from '@playwright/test';
+import { buildPageHit } from '../../src/page-tracker.js';
+import { analyzeSecurity } from '../../src/coverage/security.js';
+import type { NormalizedOperation } from '../../src/types.js';
+
+const testInfo = { titlePath: ['checkout.spec.ts', 'checkout', 'pays'], title: 'pays' };
+
+interface MockResponseInit {
+  url?: string;
+  status?: number;
+  method?: string;
+  resourceType?: string;
+  postData?: string | null;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  body?: string | Error;
+  /** Makes `allHeaders()` reject, as when the page closes mid-request. */
+  closed?: boolean;
+}
+
+/**
+ * Minimal stand-in for a browser `Response` and its `Request`. Like Playwright, `headers()`
+ * leaves out `Cookie`, which only `allHeaders()` returns.
+ */
+function makeResponse(init: MockResponseInit = {}): Response {
+  const postData = init.postData ?? null;
+  const requestHeaders = init.requestHeaders ?? {};
+  const request = {
+    method: () => init.method ?? 'GET',
+    resourceType: () => init.resourceType ?? 'fetch',
+    headers: () => Object.fromEntries(Object.entries(requestHeaders).filter(([name]) => name !== 'cookie')),
+    allHeaders: async () => {
+      if (init.closed) throw new Error('Target page, context or browser has been closed');
+      return requestHeaders;
+    },
+    postData: () => postData,
+    postDataJSON: () => (postData === null ? null : JSON.parse(postData) as unknown),
+  };
+  return {
+    url: () => init.url ?? 'http://localhost/api/orders',
+    status: () => init.status ?? 200,
+    headers: () => init.responseHeaders ?? { 'content-type': 'application/json' },
+    request: () => request,
+    body: async () => {
+      if (init.body instanceof Error) throw init.body;
+      return Buffer.from(init.body ?? '', 'utf8');
+    },
+  } as unknown as Response;
+}
+
+describe('buildPageHit', () => {
+  it('records method, url, status and the parsed JSON bodies of a fetch call', async () => {
+    const hit = await buildPageHit(makeResponse({
+      method: 'post',
+      status: 201,
+      postData: '{"item":"book"}',
+      requestHeaders: { 'content-type': 'application/json' },
+      body: '{"id":1}',
+    }), testInfo);
+    expect(hit).toMatchObject({
+      method: 'POST',
+      url: 'http://localhost/api/orders',
+      statusCode: 201,
+      requestBody: { item: 'book' },
+      responseBody: { id: 1 },
+      requestContentType: 'application/json',
+      responseContentType: 'application/json',
+      testFile: 'checkout.spec.ts',
+      testTitle: 'pays',
+    });
+  });
+
+  it('records XHR calls as well as fetch calls', async () => {
+    expect(await buildPageHit(makeResponse({ resourceType: 'xhr' }), testInfo)).toBeDefined();
+  });
+
+  it('ignores documents, scripts and other page assets', async () => {
+    for (const resourceType of ['document', 'script', 'stylesheet', 'image']) {
+      expect(await buildPageHit(makeResponse({ resourceType }), testInfo)).toBeUndefined();
+    }
+  });
+
+  it('keeps non-JSON post data as a raw string', async () => {
+    const hit = await buildPageHit(makeResponse({ method: 'POST', postData: 'plain text' }), testInfo);
+    expect(hit?.requestBody).toBe('plain text');
+  });
+
+  it('extracts query params from the URL', async () => {
+    const hit = await buildPageHit(makeResponse({ url: 'http://localhost/api/orders?page=2&status=open' }), testInfo);
+    expect(hit?.queryParams).toEqual({ page: '2', status: 'open' });
+  });
+
+  it('redacts the credentials the browser sent', async () => {
+    const hit = await buildPageHit(makeResponse({
+      url: 'http://localhost/api/orders?access_token=abc',
+      requestHeaders: { authorization: 'Bearer abc', cookie: 'session=xyz', accept: 'application/json' },
+    }), testInfo);
+    expect(hit?.headers).toEqual({
+      authorization: 'Bearer [REDACTED]',
+      cookie: 'session=[REDACTED]',
+      accept: 'application/json',
+    });
+    expect(hit?.queryParams).toEqual({ access_token: '[REDACTED]' });
+    expect(hit?.url).toBe('http://localhost/api/orders?access_token=%5BREDACTED%5D');
+  });
+
+  it('records session cookies so they cover a cookie apiKey scheme', async () => {
+    const hit = await buildPageHit(makeResponse({ requestHeaders: { cookie: 'SESSIONID=abc; theme=dark' } }), testInfo);
+    const operation: NormalizedOperation = {
+      pathTemplate: '/api/orders',
+      method: 'GET',
+      parameters: [],
+      security: [[{ name: 'sessionCookie', type: 'apiKey', in: 'cookie', paramName: 'SESSIONID', scopes: [] }]],
+      responses: { '200': {}, '401': {} },
+    };
+    expect(analyzeSecurity(operation, hit).schemes).toEqual([
+      { name: 'sessionCookie', type: 'apiKey', covered: true },
+    ]);
+  });
+
+  it('drops the call when the page closed before its headers could be read', async () => {
+    expect(await buildPageHit(makeResponse({ closed: true }), testInfo)).toBeUndefined();
+  });
+
+  it('skips the response body when capture is disabled or the body cannot be read', async () => {
+    const disabled = await buildPageHit(makeResponse({ body: '{"id":1}' }), testInfo, false);
+    expect(disabled?.responseBody).toBeUndefined();
+    const unreadable = await buildPageHit(makeResponse({ body: new Error('Target closed') }), testInfo);
+    expect(unreadable?.responseBody).toBeUndefined();
+  });
+});
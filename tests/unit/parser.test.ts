@@ -6,6 +6,10 @@ import { parseSpecs } from '../../src/openapi/parser.js';
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const FIXTURE_YAML = join(__dirname, '../fixtures/sample-openapi.yaml');
 const FIXTURE_V2 = join(__dirname, '../fixtures/sample-swagger2.yaml');
+const FIXTURE_KEYWORDS = join(__dirname, '../fixtures/schema-keywords.yaml');
+const FIXTURE_MEDIA_TYPES = join(__dirname, '../fixtures/media-types.yaml');
+const FIXTURE_SECURITY = join(__dirname, '../fixtures/security.yaml');
+const FIXTURE_SECURITY_V2 = join(__dirname, '../fixtures/security-swagger2.yaml');
 
 describe('parseSpecs', () => {
   it('parses an OAS3 YAML file and returns the expected operations', async () => {
@@ -298,3 +302,103 @@ describe('parseSpecs — OAS3 server URL variable substitution', () => {
     expect(op?.pathTemplate).toBe('/users');
   });
 });
+
+describe('parseSpecs — schema keywords used for contract validation', () => {
+  async function itemSchema() {
+    const spec = await parseSpecs(FIXTURE_KEYWORDS);
+    return spec.operations.find((op) => op.operationId === 'getItem')!.responses['200']!.schema!;
+  }
+
+  it('preserves additionalProperties: false', async () => {
+    expect((await itemSchema()).additionalProperties).toBe(false);
+  });
+
+  it('preserves an additionalProperties schema', async () => {
+    expect((await itemSchema()).properties?.['labels']?.additionalProperties).toEqual({ type: 'string' });
+  });
+
+  it('preserves additionalProperties: true and an empty additionalProperties schema as true', async () => {
+    const { properties } = await itemSchema();
+    expect(properties?.['attributes']?.additionalProperties).toBe(true);
+    expect(properties?.['extensions']?.additionalProperties).toBe(true);
+  });
+
+  it('maps an OAS 3.1 [type, "null"] array to type + nullable', async () => {
+    expect((await itemSchema()).properties?.['note']).toEqual({ type: 'string', nullable: true });
+  });
+
+  it('preserves OAS 3.0 nullable: true', async () => {
+    expect((await itemSchema()).properties?.['legacyCode']).toEqual({ type: 'string', nullable: true });
+  });
+
+  it('preserves enum members on body properties', async () => {
+    expect((await itemSchema()).properties?.['kind']?.enum).toEqual(['physical', 'digital']);
+  });
+
+  it('preserves enum members on parameters', async () => {
+    const spec = await parseSpecs(FIXTURE_KEYWORDS);
+    const view = spec.operations[0]!.parameters.find((p) => p.name === 'view');
+    expect(view?.schema?.enum).toEqual(['summary', 'full']);
+  });
+});
+
+describe('parseSpecs — media types', () => {
+  it('lists every OAS3 request body media type', async () => {
+    const spec = await parseSpecs(FIXTURE_MEDIA_TYPES);
+    expect(spec.operations[0]!.requestMediaTypes).toEqual([
+      'application/json',
+      'multipart/form-data',
+      'application/x-www-form-urlencoded',
+    ]);
+  });
+
+  it('lists OAS3 response media types per status code', async () => {
+    const spec = await parseSpecs(FIXTURE_MEDIA_TYPES);
+    const { responses } = spec.operations[0]!;
+    expect(responses['201']?.mediaTypes).toEqual(['application/json', 'text/*']);
+    expect(responses['204']?.mediaTypes).toBeUndefined();
+  });
+
+  it('applies Swagger 2.0 consumes to operations with a body and produces to responses with a schema', async () => {
+    const spec = await parseSpecs(FIXTURE_V2);
+    const list = spec.operations.find((op) => op.operationId === 'listProducts')!;
+    const create = spec.operations.find((op) => op.operationId === 'createProduct')!;
+    expect(list.requestMediaTypes).toEqual([]);
+    expect(create.requestMediaTypes).toEqual(['application/json']);
+    expect(list.responses['200']?.mediaTypes).toEqual(['application/json']);
+    expect(list.responses['400']?.mediaTypes).toBeUndefined();
+  });
+});
+
+describe('parseSpecs — security requirements', () => {
+  it('applies the document-level OAS3 security requirement to operations without their own', async () => {
+    const spec = await parseSpecs(FIXTURE_SECURITY);
+    const list = spec.operations.find((op) => op.operationId === 'listPets')!;
+    expect(list.security).toEqual([[{ name: 'bearerAuth', type: 'http', scheme: 'bearer', scopes: [] }]]);
+  });
+
+  it('resolves operation-level alternatives with their scopes', async () => {
+    const spec = await parseSpecs(FIXTURE_SECURITY);
+    const create = spec.operations.find((op) => op.operationId === 'createPet')!;
+    expect(create.security).toEqual([
+      [{ name: 'oauth', type: 'oauth2', scopes: ['pets:write'] }],
+      [{ name: 'apiKey', type: 'apiKey', in: 'header', paramName: 'X-API-Key', scopes: [] }],
+    ]);
+  });
+
+  it('keeps an explicit empty security list', async () => {
+    const spec = await parseSpecs(FIXTURE_SECURITY);
+    expect(spec.operations.find((op) => op.operationId === 'health')!.security).toEqual([]);
+  });
+
+  it('reads Swagger 2.0 securityDefinitions and ignores undeclared schemes', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const spec = await parseSpecs(FIXTURE_SECURITY_V2);
+    expect(spec.operations[0]!.security).toEqual([
+      [{ name: 'basicAuth', type: 'http', scheme: 'basic', scopes: [] }],
+      [{ name: 'queryKey', type: 'apiKey', in: 'query', paramName: 'api_key', scopes: [] }],
+    ]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('undeclared scheme "missing"'));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { applyRatchet, historyBaselineSummary, checkRatchet, raiseBaseline, readBaselineFile, resolveRatchetConfig } from '../../src/output/ratchet.js';
+import type { HistoryEntry } from '../../src/output/history.js';
+import type { CoverageResult, CoverageSummary } from '../../src/types.js';
+
+function makeSummary(endpoints: number, statusCodes: number, extra: Partial<CoverageSummary> = {}): CoverageSummary {
+  const item = (percentage: number) => ({ total: 100, covered: percentage, percentage });
+  return {
+    endpoints: item(endpoints),
+    statusCodes: item(statusCodes),
+    parameters: item(50),
+    bodyProperties: item(50),
+    responseProperties: item(50),
+    ...extra,
+  };
+}
+
+function makeResult(summary: CoverageSummary): CoverageResult {
+  return {
+    specFiles: ['openapi.yaml'],
+    timestamp: '2026-01-01T00:00:00.000Z',
+    playwrightVersion: '1.0.0',
+    playswagVersion: '1.0.0',
+    totalTestCount: 1,
+    summary,
+    tagCoverage: {},
+    operations: [],
+    uncoveredOperations: [],
+    unmatchedHits: [],
+    acknowledgedHits: [],
+  };
+}
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'playswag-ratchet-test-'));
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('resolveRatchetConfig', () => {
+  it('maps true to the defaults and false / undefined to off', () => {
+    expect(resolveRatchetConfig(true)).toEqual({});
+    expect(resolveRatchetConfig({ tolerance: 1 })).toEqual({ tolerance: 1 });
+    expect(resolveRatchetConfig(false)).toBeUndefined();
+    expect(resolveRatchetConfig(undefined)).toBeUndefined();
+  });
+});
+
+describe('checkRatchet', () => {
+  it('returns no violations when no dimension dropped', () => {
+    expect(checkRatchet(makeSummary(80, 60), makeSummary(80, 55))).toEqual([]);
+  });
+
+  it('reports every dimension that dropped, failing by default', () => {
+    expect(checkRatchet(makeSummary(78, 60), makeSummary(80, 60))).toEqual([
+      { message: 'Endpoint coverage 78.0% dropped 2.0 points below the baseline 80.0%', fail: true },
+    ]);
+  });
+
+  it('allows drops within the tolerance and honors fail: false', () => {
+    expect(checkRatchet(makeSummary(79.5, 60), makeSummary(80, 60), { tolerance: 0.5 })).toEqual([]);
+    const [violation] = checkRatchet(makeSummary(70, 60), makeSummary(80, 60), { tolerance: 0.5, fail: false });
+    expect(violation?.fail).toBe(false);
+  });
+
+  it('skips excluded dimensions and dimensions missing from the baseline', () => {
+    const current = makeSummary(80, 10, { security: { total: 2, covered: 0, percentage: 0 } });
+    expect(checkRatchet(current, makeSummary(80, 60), {}, ['statusCodes'])).toEqual([]);
+  });
+});
+
+describe('raiseBaseline', () => {
+  it('keeps the better value per dimension', () => {
+    const raised = raiseBaseline(makeSummary(85, 55), makeSummary(80, 60));
+    expect(raised?.endpoints.percentage).toBe(85);
+    expect(raised?.statusCodes.percentage).toBe(60);
+  });
+
+  it('returns undefined when nothing improved', () => {
+    expect(raiseBaseline(makeSummary(80, 60), makeSummary(80, 60))).toBeUndefined();
+  });
+});
+
+function entry(summary: CoverageSummary): HistoryEntry {
+  return { timestamp: '', specFiles: [], summary };
+}
+
+describe('historyBaselineSummary', () => {
+  it('uses the last entry by default', () => {
+    const history = [entry(makeSummary(80, 50)), entry(makeSummary(79.5, 60)), entry(makeSummary(79, 55))];
+    expect(historyBaselineSummary(history, {})?.endpoints.percentage).toBe(79);
+    expect(historyBaselineSummary(history, { historyBaseline: 'last' })?.statusCodes.percentage).toBe(55);
+    expect(historyBaselineSummary([], {})).toBeUndefined();
+  });
+
+  it('keeps the best value per dimension across entries with historyBaseline: best', () => {
+    const best = historyBaselineSummary(
+      [entry(makeSummary(80, 50)), entry(makeSummary(79.5, 60)), entry(makeSummary(79, 55))],
+      { historyBaseline: 'best' },
+    );
+    expect(best?.endpoints.percentage).toBe(80);
+    expect(best?.statusCodes.percentage).toBe(60);
+    expect(historyBaselineSummary([], { historyBaseline: 'best' })).toBeUndefined();
+  });
+
+  it('stops drops within the tolerance from adding up over runs with historyBaseline: best', () => {
+    const history = [entry(makeSummary(80, 60)), entry(makeSummary(79.5, 60))];
+    const config = { tolerance: 0.5, historyBaseline: 'best' as const };
+    expect(checkRatchet(makeSummary(79, 60), historyBaselineSummary(history, config)!, config)).toHaveLength(1);
+    expect(checkRatchet(makeSummary(79, 60), historyBaselineSummary(history, { tolerance: 0.5 })!, { tolerance: 0.5 })).toHaveLength(0);
+  });
+});
+
+describe('readBaselineFile', () => {
+  it('reads the summary of a report, a history entry or the last entry of a history file', async () => {
+    const file = join(tmpDir, 'baseline.json');
+    await writeFile(file, JSON.stringify(makeResult(makeSummary(70, 60))), 'utf8');
+    expect((await readBaselineFile(file))?.endpoints.percentage).toBe(70);
+
+    await writeFile(file, JSON.stringify([{ summary: makeSummary(10, 10) }, { summary: makeSummary(90, 60) }]), 'utf8');
+    expect((await readBaselineFile(file))?.endpoints.percentage).toBe(90);
+  });
+
+  it('returns undefined for a missing file and throws for one without a summary', async () => {
+    expect(await readBaselineFile(join(tmpDir, 'missing.json'))).toBeUndefined();
+    const file = join(tmpDir, 'bad.json');
+    await writeFile(file, '{"foo":1}', 'utf8');
+    await expect(readBaselineFile(file)).rejects.toThrow('has no coverage summary');
+  });
+});
+
+describe('applyRatchet', () => {
+  it('compares against the history baseline when no baseline file is set', async () => {
+    const violations = await applyRatchet(makeResult(makeSummary(70, 60)), {}, makeSummary(80, 60));
+    expect(violations).toHaveLength(1);
+  });
+
+  it('writes the raised baseline when coverage improved', async () => {
+    const baselineFile = join(tmpDir, 'baseline.json');
+    await writeFile(baselineFile, JSON.stringify({ summary: makeSummary(80, 60) }), 'utf8');
+
+    const violations = await applyRatchet(makeResult(makeSummary(85, 59.5)), { baselineFile, tolerance: 1, updateBaseline: true }, undefined);
+    expect(violations).toEqual([]);
+    const written = JSON.parse(await readFile(baselineFile, 'utf8')) as { summary: CoverageSummary };
+    expect(written.summary.endpoints.percentage).toBe(85);
+    expect(written.summary.statusCodes.percentage).toBe(60);
+  });
+
+  it('creates the baseline file on the first run', async () => {
+    const baselineFile = join(tmpDir, 'nested', 'baseline.json');
+    await applyRatchet(makeResult(makeSummary(50, 50)), { baselineFile, updateBaseline: true }, undefined);
+    expect((await readBaselineFile(baselineFile))?.endpoints.percentage).toBe(50);
+  });
+
+  it('does not rewrite the baseline when a drop failed', async () => {
+    const baselineFile = join(tmpDir, 'baseline.json');
+    const original = JSON.stringify({ summary: makeSummary(80, 60) });
+    await writeFile(baselineFile, original, 'utf8');
+
+    const violations = await applyRatchet(makeResult(makeSummary(90, 50)), { baselineFile, updateBaseline: true }, undefined);
+    expect(violations).toHaveLength(1);
+    expect(await readFile(baselineFile, 'utf8')).toBe(original);
+  });
+});
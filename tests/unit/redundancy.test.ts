@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { analyzeRedundancy } from '../../src/coverage/redundancy.js';
+import { calculateCoverage } from '../../src/coverage/calculator.js';
+import { writeRedundancyReport, type RedundancyReport } from '../../src/output/redundancy.js';
+import type { EndpointHit, NormalizedSpec } from '../../src/types.js';
+
+const baseURL = 'https://api.example.com';
+
+const spec: NormalizedSpec = {
+  sources: ['test-spec.yaml'],
+  operations: [
+    {
+      pathTemplate: '/api/users',
+      method: 'GET',
+      parameters: [{ name: 'limit', in: 'query', required: false }],
+      responses: { '200': {}, '400': {} },
+    },
+    {
+      pathTemplate: '/api/users/{id}',
+      method: 'GET',
+      parameters: [{ name: 'id', in: 'path', required: true }],
+      responses: { '200': {}, '404': {} },
+    },
+  ],
+};
+
+function hit(testTitle: string, url: string, statusCode = 200, queryParams?: Record<string, string>): EndpointHit {
+  return { method: 'GET', url: `${baseURL}${url}`, statusCode, queryParams, testFile: 'users.spec.ts', testTitle };
+}
+
+describe('analyzeRedundancy', () => {
+  const hits = [
+    hit('lists', '/api/users'),
+    hit('lists with limit', '/api/users?limit=5', 200, { limit: '5' }),
+    hit('gets', '/api/users/1'),
+    hit('gets missing', '/api/users/999', 404),
+    hit('gets again', '/api/users/2'),
+  ];
+
+  it('picks a minimal set covering everything and lists the other tests as redundant', () => {
+    const analysis = analyzeRedundancy(hits, spec, { baseURL });
+
+    expect(analysis.totalTests).toBe(5);
+    expect(analysis.minimalTests.map((t) => t.id)).toEqual([
+      'users.spec.ts > gets',
+      'users.spec.ts > lists with limit',
+      'users.spec.ts > gets missing',
+    ]);
+    expect(analysis.redundantTests.map((t) => t.id)).toEqual(['users.spec.ts > gets again', 'users.spec.ts > lists']);
+    expect(analysis.minimalTests.reduce((sum, t) => sum + t.addedItems, 0)).toBe(analysis.totalItems);
+  });
+
+  it('lists the items each test covers on its own', () => {
+    const analysis = analyzeRedundancy(hits, spec, { baseURL });
+    const withLimit = analysis.minimalTests.find((t) => t.id === 'users.spec.ts > lists with limit');
+    expect(withLimit?.uniqueItems).toEqual(['GET:/api/users:param:query:limit']);
+    expect(analysis.redundantTests.every((t) => t.uniqueItems.length === 0)).toBe(true);
+  });
+
+  it('covers every item the full run covers', () => {
+    const analysis = analyzeRedundancy(hits, spec, { baseURL });
+    const kept = new Set(analysis.minimalTests.map((t) => t.id));
+    const full = calculateCoverage(hits, spec, { baseURL });
+    const minimal = calculateCoverage(hits.filter((h) => kept.has(`${h.testFile} > ${h.testTitle}`)), spec, { baseURL });
+    expect(minimal.summary).toEqual(full.summary);
+  });
+
+  it('ignores items of excluded dimensions', () => {
+    const analysis = analyzeRedundancy(hits, spec, { baseURL }, ['parameters']);
+    expect(analysis.redundantTests.map((t) => t.id)).toContain('users.spec.ts > lists with limit');
+  });
+});
+
+describe('writeRedundancyReport', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'playswag-redundancy-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes playswag-redundancy.json with the run metadata', async () => {
+    const hits = [hit('lists', '/api/users'), hit('lists again', '/api/users')];
+    const result = calculateCoverage(hits, spec, { baseURL });
+    const path = await writeRedundancyReport(analyzeRedundancy(hits, spec, { baseURL }), result, tmpDir);
+
+    expect(path).toBe(join(tmpDir, 'playswag-redundancy.json'));
+    const report = JSON.parse(await readFile(path, 'utf8')) as RedundancyReport;
+    expect(report.specFiles).toEqual(['test-spec.yaml']);
+    expect(report.redundantTests.map((t) => t.id)).toEqual(['users.spec.ts > lists again']);
+  });
+});
@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import PlayswagReporter from '../../src/reporter.js';
 import type { EndpointHit, PlayswagConfig, NormalizedSpec } from '../../src/types.js';
 import { ATTACHMENT_NAME } from '../../src/constants.js';
@@ -16,6 +19,7 @@ function makeTestCase(overrides: {
   return {
     title,
     location: { file, line: 1, column: 1 },
+    outcome: () => 'expected',
     parent: {
       project: () => ({
         name: projectName ?? 'default',
@@ -38,6 +42,7 @@ function makeTestResult(hits: EndpointHit[]) {
       },
     ],
     status: 'passed',
+    retry: 0,
   } as never;
 }
 
@@ -164,6 +169,33 @@ describe('PlayswagReporter', () => {
       expect(aggregated[0]?.testTitle).toBe('my test');
     });
 
+    it('attaches test location, title path and outcome to hits', () => {
+      const r = new PlayswagReporter({ specs: './spec.yaml' }) as Record<string, unknown>;
+      const hits: EndpointHit[] = [
+        { method: 'GET', url: 'http://localhost:3456/api/users', statusCode: 200, testFile: '', testTitle: '' },
+      ];
+      const test = {
+        title: 'lists users',
+        location: { file: '/tests/users.spec.ts', line: 12, column: 3 },
+        outcome: () => 'flaky',
+        parent: {
+          type: 'describe',
+          title: 'users',
+          parent: { type: 'file', title: 'users.spec.ts' },
+          project: () => ({ name: 'api', use: {} }),
+        },
+      } as never;
+      r['onTestEnd'](test, { ...(makeTestResult(hits) as object), retry: 1 } as never);
+      const aggregated = r['aggregatedHits'] as EndpointHit[];
+      expect(aggregated[0]?.testCase).toEqual({
+        line: 12,
+        titlePath: ['users', 'lists users'],
+        outcome: 'flaky',
+        status: 'passed',
+        retry: 1,
+      });
+    });
+
     it('tags hits with projectName', () => {
       const r = new PlayswagReporter({ specs: './spec.yaml' }) as Record<string, unknown>;
       const hits: EndpointHit[] = [
@@ -303,6 +335,234 @@ describe('PlayswagReporter', () => {
     });
   });
 
+  describe('hits output', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await mkdtemp(join(tmpdir(), 'playswag-reporter-test-'));
+    });
+
+    afterEach(async () => {
+      await rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('writes every recorded hit, unfiltered, when outputFormats includes hits', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const reporter = new PlayswagReporter({
+        specs: undefined as unknown as string,
+        outputDir: tmpDir,
+        outputFormats: ['hits'],
+        excludePatterns: ['/api/**'],
+      });
+      const hits: EndpointHit[] = [
+        { method: 'GET', url: 'http://localhost:3456/api/users', statusCode: 200, testFile: 'a.spec.ts', testTitle: 'lists' },
+      ];
+      reporter.onTestEnd(makeTestCase({ title: 'lists' }), makeTestResult(hits));
+      await reporter.onEnd({ status: 'passed' } as never);
+
+      const lines = (await readFile(join(tmpDir, 'playswag-hits.jsonl'), 'utf8')).trimEnd().split('\n');
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]!)).toMatchObject({ url: 'http://localhost:3456/api/users', projectName: 'default' });
+    });
+
+    it('redacts the apiKey names declared by the spec in the hits file', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const specs = join(tmpDir, 'openapi.json');
+      await writeFile(specs, JSON.stringify({
+        openapi: '3.0.3',
+        info: { title: 'Keys', version: '1' },
+        security: [{ subscription: [] }],
+        paths: { '/api/users': { get: { responses: { '200': { description: 'OK' } } } } },
+        components: { securitySchemes: { subscription: { type: 'apiKey', in: 'header', name: 'Ocp-Apim-Subscription-Key' } } },
+      }), 'utf8');
+      const reporter = new PlayswagReporter({ specs, outputDir: tmpDir, outputFormats: ['hits'] });
+      reporter.onTestEnd(makeTestCase({ title: 'lists' }), makeTestResult([{
+        method: 'GET',
+        url: 'http://localhost:3456/api/users',
+        statusCode: 200,
+        headers: { 'Ocp-Apim-Subscription-Key': 'secret' },
+        testFile: 'a.spec.ts',
+        testTitle: 'lists',
+      }]));
+      await reporter.onEnd({ status: 'passed' } as never);
+
+      const [line] = (await readFile(join(tmpDir, 'playswag-hits.jsonl'), 'utf8')).trimEnd().split('\n');
+      expect(JSON.parse(line!)).toMatchObject({ headers: { 'Ocp-Apim-Subscription-Key': '[REDACTED]' } });
+    });
+
+    it('fails the run when coverage drops below the ratchet baseline', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const baselineFile = join(tmpDir, 'baseline.json');
+      const full = { total: 1, covered: 1, percentage: 100 };
+      await writeFile(baselineFile, JSON.stringify({
+        summary: { endpoints: full, statusCodes: full, parameters: full, bodyProperties: full, responseProperties: full },
+      }), 'utf8');
+      const reporter = new PlayswagReporter({
+        specs: join(import.meta.dirname, '../fixtures/users.yaml'),
+        outputDir: tmpDir,
+        outputFormats: ['json'],
+        ratchet: { baselineFile },
+      });
+
+      const result = await reporter.onEnd({ status: 'passed' } as never);
+      expect(result).toEqual({ status: 'failed' });
+    });
+
+    it('keeps a separate ratchet baseline per projectOverrides group', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const specs = join(import.meta.dirname, '../fixtures/users.yaml');
+      const use = { playswagSpecs: specs, baseURL: 'http://localhost:3457' };
+      const reporter = new PlayswagReporter({
+        outputDir: tmpDir,
+        outputFormats: ['json'],
+        ratchet: { baselineFile: join(tmpDir, 'baselines/ratchet.json'), updateBaseline: true },
+      });
+      reporter.onTestEnd(makeTestCase({ projectName: 'svc-a', projectUse: use }), makeTestResult([
+        { method: 'GET', url: 'http://localhost:3457/api/users', statusCode: 200, testFile: '', testTitle: '' },
+      ]));
+      reporter.onTestEnd(makeTestCase({ projectName: 'svc-b', projectUse: use }), makeTestResult([]));
+      await reporter.onEnd({ status: 'passed' } as never);
+
+      const read = async (project: string) => {
+        const entry = JSON.parse(await readFile(join(tmpDir, 'baselines', project, 'ratchet.json'), 'utf8')) as {
+          summary: { endpoints: { covered: number } };
+        };
+        return entry.summary.endpoints.covered;
+      };
+      expect(await read('svc-a')).toBe(1);
+      expect(await read('svc-b')).toBe(0);
+    });
+
+    it('keeps a separate item baseline per projectOverrides group', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const specs = join(import.meta.dirname, '../fixtures/users.yaml');
+      const use = { playswagSpecs: specs, baseURL: 'http://localhost:3457' };
+      const reporter = new PlayswagReporter({
+        outputDir: tmpDir,
+        outputFormats: ['json'],
+        itemBaseline: { file: join(tmpDir, 'baselines/items.json'), update: true },
+      });
+      reporter.onTestEnd(makeTestCase({ projectName: 'svc-a', projectUse: use }), makeTestResult([
+        { method: 'GET', url: 'http://localhost:3457/api/users', statusCode: 200, testFile: '', testTitle: '' },
+      ]));
+      reporter.onTestEnd(makeTestCase({ projectName: 'svc-b', projectUse: use }), makeTestResult([]));
+      await reporter.onEnd({ status: 'passed' } as never);
+
+      const read = async (project: string) => {
+        const entry = JSON.parse(await readFile(join(tmpDir, 'baselines', project, 'items.json'), 'utf8')) as {
+          coveredItems: string[];
+        };
+        return entry.coveredItems;
+      };
+      expect(await read('svc-a')).toContain('GET:/api/users');
+      expect(await read('svc-b')).toEqual([]);
+    });
+
+    it('fails the run on an undocumented 5xx when failOnUndocumentedServerErrors is set', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const hits: EndpointHit[] = [
+        { method: 'GET', url: 'http://localhost:3457/api/users', statusCode: 500, testFile: '', testTitle: '' },
+      ];
+      const run = async (failOnUndocumentedServerErrors: boolean) => {
+        const reporter = new PlayswagReporter({
+          specs: join(import.meta.dirname, '../fixtures/users.yaml'),
+          baseURL: 'http://localhost:3457',
+          outputDir: tmpDir,
+          outputFormats: ['json'],
+          failOnUndocumentedServerErrors,
+        });
+        reporter.onTestEnd(makeTestCase({ title: 'lists' }), makeTestResult(hits));
+        return reporter.onEnd({ status: 'passed' } as never);
+      };
+
+      expect(await run(true)).toEqual({ status: 'failed' });
+      expect(await run(false)).toBeUndefined();
+    });
+  });
+
+  describe('redundancy output', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await mkdtemp(join(tmpdir(), 'playswag-reporter-test-'));
+    });
+
+    afterEach(async () => {
+      await rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('writes the redundant tests of the run when outputFormats includes redundancy', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const reporter = new PlayswagReporter({
+        specs: join(import.meta.dirname, '../fixtures/users.yaml'),
+        baseURL: 'http://localhost:3457',
+        outputDir: tmpDir,
+        outputFormats: ['redundancy'],
+      });
+      for (const title of ['lists', 'lists again']) {
+        const hits: EndpointHit[] = [
+          { method: 'GET', url: 'http://localhost:3457/api/users', statusCode: 200, testFile: '', testTitle: '' },
+        ];
+        reporter.onTestEnd(makeTestCase({ title, file: 'users.spec.ts' }), makeTestResult(hits));
+      }
+      await reporter.onEnd({ status: 'passed' } as never);
+
+      const report = JSON.parse(await readFile(join(tmpDir, 'playswag-redundancy.json'), 'utf8')) as {
+        minimalTests: Array<{ id: string }>;
+        redundantTests: Array<{ id: string }>;
+      };
+      expect(report.minimalTests.map((t) => t.id)).toEqual(['users.spec.ts > lists']);
+      expect(report.redundantTests.map((t) => t.id)).toEqual(['users.spec.ts > lists again']);
+    });
+  });
+
+  describe('inferred spec output', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await mkdtemp(join(tmpdir(), 'playswag-reporter-test-'));
+    });
+
+    afterEach(async () => {
+      await rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('describes the unmatched calls when outputFormats includes inferred-spec', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const reporter = new PlayswagReporter({
+        specs: join(import.meta.dirname, '../fixtures/users.yaml'),
+        baseURL: 'http://localhost:3457',
+        outputDir: tmpDir,
+        outputFormats: ['inferred-spec'],
+      });
+      const hits: EndpointHit[] = [
+        { method: 'GET', url: 'http://localhost:3457/api/users', statusCode: 200, testFile: '', testTitle: '' },
+        { method: 'GET', url: 'http://localhost:3457/api/orders/5', statusCode: 200, testFile: '', testTitle: '' },
+      ];
+      reporter.onTestEnd(makeTestCase({ title: 'orders', file: 'orders.spec.ts' }), makeTestResult(hits));
+      await reporter.onEnd({ status: 'passed' } as never);
+
+      const yaml = await readFile(join(tmpDir, 'playswag-inferred-spec.yaml'), 'utf8');
+      expect(yaml).toContain('"/api/orders/{id}":');
+      expect(yaml).not.toContain('/api/users');
+    });
+  });
+
   describe('filterOperationsByTags', () => {
     function makeSpec(operations: Array<{ path: string; tags?: string[] }>): NormalizedSpec {
       return {
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { analyzeResponseProperties } from '../../src/coverage/schema-analyzer.js';
+import { analyzeResponseProperties, findUndocumentedResponseProperties } from '../../src/coverage/schema-analyzer.js';
 import type { NormalizedOperation } from '../../src/types.js';
 
 const opWithSchema: NormalizedOperation = {
@@ -107,6 +107,55 @@ describe('analyzeResponseProperties', () => {
     });
   });
 
+  describe('array elements', () => {
+    const listOp: NormalizedOperation = {
+      pathTemplate: '/api/users',
+      method: 'GET',
+      parameters: [],
+      responses: {
+        '200': {
+          schema: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { id: { type: 'string' }, name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+                  required: ['id'],
+                },
+              },
+              total: { type: 'integer' },
+            },
+          },
+        },
+        '201': { schema: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' } } } } },
+      },
+    };
+
+    it('tracks the properties of list elements as data[].name', () => {
+      const result = analyzeResponseProperties(listOp, '200', { data: [{ id: '1' }, { id: '2', name: 'Bo' }], total: 2 });
+      expect(result.map((r) => [r.name, r.required, r.covered])).toEqual([
+        ['data', false, true],
+        ['data[].id', true, true],
+        ['data[].name', false, true],
+        ['data[].tags', false, false],
+        ['total', false, true],
+      ]);
+    });
+
+    it('leaves element properties uncovered for an empty list', () => {
+      const result = analyzeResponseProperties(listOp, '200', JSON.stringify({ data: [], total: 0 }));
+      expect(result.find((r) => r.name === 'data[].id')?.covered).toBe(false);
+    });
+
+    it('tracks the element properties of a bare array body', () => {
+      expect(analyzeResponseProperties(listOp, '201', [{ id: '1' }])).toEqual([
+        { statusCode: '201', name: '[].id', required: false, covered: true },
+      ]);
+    });
+  });
+
   describe('edge cases', () => {
     it('returns empty array when response schema has no properties', () => {
       const opEmptySchema: NormalizedOperation = {
@@ -137,3 +186,60 @@ describe('analyzeResponseProperties', () => {
     });
   });
 });
+
+describe('findUndocumentedResponseProperties', () => {
+  const op: NormalizedOperation = {
+    pathTemplate: '/api/orders',
+    method: 'GET',
+    parameters: [],
+    responses: {
+      '200': {
+        schema: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { type: 'object', properties: { sku: { type: 'string' } } },
+                  { type: 'object', properties: { qty: { type: 'integer' } } },
+                ],
+              },
+            },
+            meta: { type: 'object', additionalProperties: true, properties: { page: { type: 'integer' } } },
+            extra: { type: 'object' },
+          },
+        },
+      },
+      '204': {},
+    },
+  };
+
+  it('lists undeclared properties at any depth, with [] for array elements', () => {
+    const body = {
+      items: [{ sku: 'a', qty: 1, discount: 5 }, { sku: 'b', warehouse: { id: 1 } }],
+      total: 2,
+    };
+    expect(findUndocumentedResponseProperties(op, '200', body)).toEqual(['items[].discount', 'items[].warehouse', 'total']);
+  });
+
+  it('accepts anything in free-form objects', () => {
+    const body = { meta: { page: 1, cursor: 'x' }, extra: { anything: true } };
+    expect(findUndocumentedResponseProperties(op, '200', body)).toEqual([]);
+  });
+
+  it('accepts anything in objects the spec declares open next to their properties', () => {
+    // What the parser keeps for both `additionalProperties: true` and `additionalProperties: {}`
+    const open: NormalizedOperation = {
+      ...op,
+      responses: { '200': { schema: { type: 'object', properties: { id: { type: 'integer' } }, additionalProperties: true } } },
+    };
+    expect(findUndocumentedResponseProperties(open, '200', { id: 1, extra: 'x', meta: { b: 1 } })).toEqual([]);
+  });
+
+  it('parses string bodies and ignores status codes without a schema', () => {
+    expect(findUndocumentedResponseProperties(op, '200', '{"total":1}')).toEqual(['total']);
+    expect(findUndocumentedResponseProperties(op, '200', 'not json')).toEqual([]);
+    expect(findUndocumentedResponseProperties(op, '204', { total: 1 })).toEqual([]);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { analyzeParameters, analyzeBodyProperties } from '../../src/coverage/schema-analyzer.js';
+import { analyzeParameters, analyzeBodyProperties, analyzeEnumValues } from '../../src/coverage/schema-analyzer.js';
 import type { NormalizedOperation, NormalizedSchema } from '../../src/types.js';
 
 const baseOp: NormalizedOperation = {
@@ -263,6 +263,42 @@ describe('analyzeBodyProperties', () => {
     expect(result.find((b) => b.name === 'address.street')?.covered).toBe(false);
   });
 
+  it('tracks properties of array elements with [] paths, covered when any element has them', () => {
+    const op: NormalizedOperation = {
+      pathTemplate: '/api/orders',
+      method: 'POST',
+      parameters: [],
+      requestBodySchema: {
+        type: 'object',
+        properties: {
+          lines: {
+            type: 'array',
+            items: { type: 'object', properties: { sku: { type: 'string' }, note: { type: 'string' } }, required: ['sku'] },
+          },
+        },
+      },
+      responses: {},
+    };
+    const result = analyzeBodyProperties(op, { lines: [{ sku: 'A' }, { sku: 'B', note: 'gift' }] });
+    expect(result).toEqual([
+      { name: 'lines', required: false, covered: true },
+      { name: 'lines[].sku', required: true, covered: true },
+      { name: 'lines[].note', required: false, covered: true },
+    ]);
+    expect(analyzeBodyProperties(op, { lines: [] }).find((b) => b.name === 'lines[].sku')?.covered).toBe(false);
+  });
+
+  it('tracks element properties of a bare array body', () => {
+    const op: NormalizedOperation = {
+      pathTemplate: '/api/orders/batch',
+      method: 'POST',
+      parameters: [],
+      requestBodySchema: { type: 'array', items: { type: 'object', properties: { sku: { type: 'string' } } } },
+      responses: {},
+    };
+    expect(analyzeBodyProperties(op, [{ sku: 'A' }])).toEqual([{ name: '[].sku', required: false, covered: true }]);
+  });
+
   it('does not recurse beyond depth 3', () => {
     const deepSchema: NormalizedSchema = { type: 'object', properties: { b: { type: 'object', properties: { c: { type: 'object', properties: { d: { type: 'object', properties: { e: { type: 'string' } } } } } } } } };
     const op: NormalizedOperation = {
@@ -281,3 +317,119 @@ describe('analyzeBodyProperties', () => {
     expect(names).not.toContain('b.c.d.e');
   });
 });
+
+describe('analyzeEnumValues', () => {
+  const enumOp: NormalizedOperation = {
+    pathTemplate: '/api/orders',
+    method: 'POST',
+    parameters: [
+      { name: 'status', in: 'query', required: false, schema: { type: 'string', enum: ['active', 'archived'] } },
+      { name: 'fields', in: 'query', required: false, schema: { type: 'array', items: { type: 'string', enum: ['id', 'total'] } } },
+      { name: 'X-Region', in: 'header', required: false, schema: { type: 'string', enum: ['eu', 'us'] } },
+    ],
+    requestBodySchema: {
+      type: 'object',
+      properties: {
+        priority: { type: 'integer', enum: [1, 2] },
+        shipping: { type: 'object', properties: { method: { type: 'string', enum: ['air', 'sea'] } } },
+        flags: { type: 'array', items: { type: 'string', enum: ['gift', 'fragile'] } },
+      },
+    },
+    responses: {
+      '201': { schema: { type: 'object', properties: { state: { type: 'string', enum: ['new', 'paid'] } } } },
+      '400': {},
+    },
+  };
+
+  const covered = (entries: ReturnType<typeof analyzeEnumValues>) =>
+    entries.filter((e) => e.covered).map((e) => `${e.in}:${e.name}=${String(e.value)}`);
+
+  it('returns every declared member uncovered when no hit is given', () => {
+    const result = analyzeEnumValues(enumOp);
+    expect(result).toHaveLength(14);
+    expect(result.every((e) => !e.covered)).toBe(true);
+    expect(result.find((e) => e.in === 'responseBody')).toEqual({
+      name: 'state', in: 'responseBody', statusCode: '201', value: 'new', covered: false,
+    });
+  });
+
+  it('marks parameter members as covered by the value that was sent', () => {
+    const result = analyzeEnumValues(enumOp, {
+      statusCode: 201,
+      queryParams: { status: 'archived', fields: 'id,total' },
+      headers: { 'x-region': 'eu' },
+    });
+    expect(covered(result)).toEqual([
+      'query:status=archived',
+      'query:fields=id',
+      'query:fields=total',
+      'header:X-Region=eu',
+    ]);
+  });
+
+  it('marks nested and array request body members, and response members for the received status', () => {
+    const result = analyzeEnumValues(enumOp, {
+      statusCode: 201,
+      requestBody: JSON.stringify({ priority: 2, shipping: { method: 'sea' }, flags: ['gift'] }),
+      responseBody: { state: 'paid' },
+    });
+    expect(covered(result)).toEqual([
+      'requestBody:priority=2',
+      'requestBody:shipping.method=sea',
+      'requestBody:flags=gift',
+      'responseBody:state=paid',
+    ]);
+  });
+
+  it('only reports response body members for the status code the hit received', () => {
+    const result = analyzeEnumValues(enumOp, { statusCode: 400, responseBody: { state: 'paid' } });
+    expect(result.some((e) => e.in === 'responseBody')).toBe(false);
+  });
+
+  it('does not match values of a different type', () => {
+    const result = analyzeEnumValues(enumOp, { statusCode: 201, requestBody: { priority: '1' } });
+    expect(covered(result)).toEqual([]);
+  });
+
+  it('tracks enums of array elements with a [] path segment', () => {
+    const listOp: NormalizedOperation = {
+      pathTemplate: '/api/orders',
+      method: 'GET',
+      parameters: [],
+      responses: {
+        '200': {
+          schema: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: { type: 'object', properties: { status: { type: 'string', enum: ['open', 'closed', 'void'] } } },
+              },
+            },
+          },
+        },
+      },
+    };
+    const result = analyzeEnumValues(listOp, {
+      statusCode: 200,
+      responseBody: { data: [{ status: 'open' }, { status: 'closed' }] },
+    });
+    expect(result.map((e) => e.name)).toEqual(['data[].status', 'data[].status', 'data[].status']);
+    expect(covered(result)).toEqual(['responseBody:data[].status=open', 'responseBody:data[].status=closed']);
+  });
+
+  it('tracks enums of the elements of a top-level array body', () => {
+    const bulkOp: NormalizedOperation = {
+      pathTemplate: '/api/orders/bulk',
+      method: 'POST',
+      parameters: [],
+      requestBodySchema: {
+        type: 'array',
+        items: { type: 'object', properties: { priority: { type: 'integer', enum: [1, 2] } } },
+      },
+      responses: {},
+    };
+    const result = analyzeEnumValues(bulkOp, { statusCode: 200, requestBody: [{ priority: 2 }] });
+    expect(covered(result)).toEqual(['requestBody:[].priority=2']);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { validateSchema } from '../../src/coverage/schema-validator.js';
+import type { NormalizedSchema } from '../../src/types.js';
+
+const userSchema: NormalizedSchema = {
+  type: 'object',
+  required: ['id', 'name'],
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    email: { type: 'string', nullable: true },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+describe('validateSchema', () => {
+  it('returns no errors for a conforming value', () => {
+    expect(validateSchema({ id: 1, name: 'Ada', tags: ['admin'] }, userSchema)).toEqual([]);
+  });
+
+  it('reports a type mismatch with the JSON path of the offending value', () => {
+    const errors = validateSchema({ id: '1', name: 'Ada' }, userSchema);
+    expect(errors).toEqual([{ path: '$.id', message: 'expected integer, got string' }]);
+  });
+
+  it('rejects non-integer numbers for integer schemas', () => {
+    const errors = validateSchema({ id: 1.5, name: 'Ada' }, userSchema);
+    expect(errors[0]?.path).toBe('$.id');
+  });
+
+  it('reports missing required properties', () => {
+    const errors = validateSchema({ id: 1 }, userSchema);
+    expect(errors).toEqual([{ path: '$.name', message: 'required property is missing' }]);
+  });
+
+  it('accepts null for nullable properties', () => {
+    expect(validateSchema({ id: 1, name: 'Ada', email: null }, userSchema)).toEqual([]);
+  });
+
+  it('rejects null for non-nullable properties', () => {
+    const errors = validateSchema({ id: 1, name: null }, userSchema);
+    expect(errors).toEqual([{ path: '$.name', message: 'expected string, got null' }]);
+  });
+
+  it('validates array items and reports their index in the path', () => {
+    const errors = validateSchema({ id: 1, name: 'Ada', tags: ['ok', 42] }, userSchema);
+    expect(errors).toEqual([{ path: '$.tags[1]', message: 'expected string, got number' }]);
+  });
+
+  it('validates a top-level array', () => {
+    const errors = validateSchema([{ id: 1, name: 'A' }, { id: 2 }], { type: 'array', items: userSchema });
+    expect(errors).toEqual([{ path: '$[1].name', message: 'required property is missing' }]);
+  });
+
+  it('rejects undeclared properties when additionalProperties is false', () => {
+    const errors = validateSchema({ id: 1, name: 'Ada', extra: true }, { ...userSchema, additionalProperties: false });
+    expect(errors).toEqual([{ path: '$.extra', message: 'property is not allowed (additionalProperties: false)' }]);
+  });
+
+  it('allows undeclared properties by default', () => {
+    expect(validateSchema({ id: 1, name: 'Ada', extra: true }, userSchema)).toEqual([]);
+  });
+
+  it('validates undeclared property values against an additionalProperties schema', () => {
+    const errors = validateSchema({ a: 'x', b: 2 }, { type: 'object', additionalProperties: { type: 'string' } });
+    expect(errors).toEqual([{ path: '$.b', message: 'expected string, got number' }]);
+  });
+
+  it('requires every allOf member to match', () => {
+    const schema: NormalizedSchema = {
+      allOf: [
+        { type: 'object', required: ['id'] },
+        { type: 'object', required: ['name'] },
+      ],
+    };
+    expect(validateSchema({ id: 1 }, schema)).toEqual([{ path: '$.name', message: 'required property is missing' }]);
+  });
+
+  it('requires at least one anyOf member to match', () => {
+    const schema: NormalizedSchema = { anyOf: [{ type: 'string' }, { type: 'integer' }] };
+    expect(validateSchema(3, schema)).toEqual([]);
+    expect(validateSchema(true, schema)).toEqual([{ path: '$', message: 'does not match any schema in anyOf' }]);
+  });
+
+  it('requires exactly one oneOf member to match', () => {
+    const schema: NormalizedSchema = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+    expect(validateSchema(1.5, schema)).toEqual([]);
+    expect(validateSchema(1, schema)).toEqual([
+      { path: '$', message: 'matches 2 schemas in oneOf (expected exactly 1)' },
+    ]);
+  });
+
+  it('accepts any value when the schema declares no constraints', () => {
+    expect(validateSchema({ anything: [1, 'two'] }, {})).toEqual([]);
+  });
+});
+
+describe('validateSchema — enum', () => {
+  const status: NormalizedSchema = { type: 'string', enum: ['active', 'archived'] };
+
+  it('accepts a declared member', () => {
+    expect(validateSchema('archived', status)).toEqual([]);
+  });
+
+  it('rejects a value outside the enum', () => {
+    expect(validateSchema('deleted', status)).toEqual([
+      { path: '$', message: 'expected one of "active", "archived"' },
+    ]);
+  });
+
+  it('accepts null for a nullable enum', () => {
+    expect(validateSchema(null, { ...status, nullable: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeSecurity,
+  apiKeyParamNames,
+  extractTokenScopes,
+  redactHeaders,
+  redactHit,
+  redactQueryParams,
+  redactUrl,
+} from '../../src/coverage/security.js';
+import type { NormalizedOperation, NormalizedSecurityScheme } from '../../src/types.js';
+
+const bearer: NormalizedSecurityScheme = { name: 'bearerAuth', type: 'http', scheme: 'bearer', scopes: [] };
+const apiKey: NormalizedSecurityScheme = { name: 'apiKey', type: 'apiKey', in: 'header', paramName: 'X-API-Key', scopes: [] };
+const oauth: NormalizedSecurityScheme = { name: 'oauth', type: 'oauth2', scopes: ['pets:read', 'pets:write'] };
+
+const securedOp: NormalizedOperation = {
+  pathTemplate: '/api/pets',
+  method: 'GET',
+  parameters: [],
+  security: [[bearer], [apiKey]],
+  responses: { '200': {}, '401': {} },
+};
+
+function jwt(claims: Record<string, unknown>): string {
+  return `Bearer eyJhbGciOiJub25lIn0.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.`;
+}
+
+describe('analyzeSecurity', () => {
+  it('returns every declared scheme uncovered when no hit is given', () => {
+    expect(analyzeSecurity(securedOp)).toEqual({
+      schemes: [
+        { name: 'bearerAuth', type: 'http', covered: false },
+        { name: 'apiKey', type: 'apiKey', covered: false },
+      ],
+      unauthenticated: { statusCodes: [], rejected: false },
+    });
+  });
+
+  it('marks the scheme whose credentials a hit presented', () => {
+    const byBearer = analyzeSecurity(securedOp, { statusCode: 200, headers: { authorization: 'Bearer [REDACTED]' } });
+    expect(byBearer.schemes.filter((s) => s.covered).map((s) => s.name)).toEqual(['bearerAuth']);
+
+    const byKey = analyzeSecurity(securedOp, { statusCode: 200, headers: { 'x-api-key': '[REDACTED]' } });
+    expect(byKey.schemes.filter((s) => s.covered).map((s) => s.name)).toEqual(['apiKey']);
+  });
+
+  it('does not credit an http scheme presented with a different auth scheme', () => {
+    const result = analyzeSecurity(securedOp, { statusCode: 401, headers: { Authorization: 'Basic [REDACTED]' } });
+    expect(result.schemes.every((s) => !s.covered)).toBe(true);
+  });
+
+  it('detects apiKey credentials sent as query parameters and cookies', () => {
+    const op: NormalizedOperation = {
+      ...securedOp,
+      security: [[
+        { name: 'queryKey', type: 'apiKey', in: 'query', paramName: 'api_key', scopes: [] },
+        { name: 'session', type: 'apiKey', in: 'cookie', paramName: 'SESSIONID', scopes: [] },
+      ]],
+    };
+    const result = analyzeSecurity(op, {
+      statusCode: 200,
+      queryParams: { api_key: '[REDACTED]' },
+      headers: { Cookie: 'SESSIONID=[REDACTED]' },
+    });
+    expect(result.schemes.map((s) => s.covered)).toEqual([true, true]);
+  });
+
+  it('covers OAuth scopes carried by the token', () => {
+    const op: NormalizedOperation = { ...securedOp, security: [[{ ...oauth, scopes: ['pets:read'] }], [oauth]] };
+    const result = analyzeSecurity(op, {
+      statusCode: 200,
+      headers: { Authorization: 'Bearer [REDACTED]' },
+      authScopes: ['pets:read'],
+    });
+    expect(result.schemes).toEqual([
+      {
+        name: 'oauth',
+        type: 'oauth2',
+        covered: true,
+        scopes: [{ name: 'pets:read', covered: true }, { name: 'pets:write', covered: false }],
+      },
+    ]);
+  });
+
+  it('records an unauthenticated call rejected with a documented 401', () => {
+    const result = analyzeSecurity(securedOp, { statusCode: 401 });
+    expect(result.unauthenticated).toEqual({ statusCodes: ['401'], rejected: true });
+  });
+
+  it('does not count an undocumented 403 or an accepted call as rejected', () => {
+    expect(analyzeSecurity(securedOp, { statusCode: 403 }).unauthenticated).toEqual({ statusCodes: ['403'], rejected: false });
+    expect(analyzeSecurity(securedOp, { statusCode: 200 }).unauthenticated).toEqual({ statusCodes: ['200'], rejected: false });
+  });
+
+  it('counts a rejection documented only by a 4XX range or a default response', () => {
+    for (const responses of [{ '200': {}, '4XX': {} }, { '200': {}, default: {} }]) {
+      const op: NormalizedOperation = { ...securedOp, responses };
+      expect(analyzeSecurity(op, { statusCode: 403 }).unauthenticated).toEqual({ statusCodes: ['403'], rejected: true });
+    }
+  });
+
+  it('omits unauthenticated coverage when security is optional or absent', () => {
+    const optional: NormalizedOperation = { ...securedOp, security: [[bearer], []] };
+    expect(analyzeSecurity(optional).unauthenticated).toBeUndefined();
+    const open: NormalizedOperation = { ...securedOp, security: undefined };
+    expect(analyzeSecurity(open)).toEqual({ schemes: [] });
+  });
+
+  it('skips mutualTLS schemes', () => {
+    const op: NormalizedOperation = { ...securedOp, security: [[{ name: 'mtls', type: 'mutualTLS', scopes: [] }]] };
+    expect(analyzeSecurity(op)).toEqual({ schemes: [] });
+  });
+});
+
+describe('redactHeaders', () => {
+  it('keeps the Authorization scheme and cookie names', () => {
+    expect(redactHeaders({ Authorization: 'Bearer abc', Cookie: 'a=1; b=2' })).toEqual({
+      Authorization: 'Bearer [REDACTED]',
+      Cookie: 'a=[REDACTED]; b=[REDACTED]',
+    });
+  });
+
+  it('redacts an Authorization value without a scheme entirely', () => {
+    expect(redactHeaders({ authorization: 'abc' })).toEqual({ authorization: '[REDACTED]' });
+  });
+
+  it('redacts credential-looking headers and leaves the rest', () => {
+    expect(redactHeaders({ 'X-API-Key': 'k', 'X-Session-Token': 't', Accept: 'application/json' })).toEqual({
+      'X-API-Key': '[REDACTED]',
+      'X-Session-Token': '[REDACTED]',
+      Accept: 'application/json',
+    });
+  });
+});
+
+describe('redactQueryParams', () => {
+  it('redacts credential-looking parameters only', () => {
+    expect(redactQueryParams({ api_key: 'k', access_token: 't', page: '2' })).toEqual({
+      api_key: '[REDACTED]',
+      access_token: '[REDACTED]',
+      page: '2',
+    });
+  });
+});
+
+describe('redaction of spec-declared apiKey names', () => {
+  const subscriptionKey: NormalizedSecurityScheme = {
+    name: 'subscription', type: 'apiKey', in: 'header', paramName: 'Ocp-Apim-Subscription-Key', scopes: [],
+  };
+  const queryKey: NormalizedSecurityScheme = { name: 'code', type: 'apiKey', in: 'query', paramName: 'code', scopes: [] };
+  const cookieKey: NormalizedSecurityScheme = { name: 'sid', type: 'apiKey', in: 'cookie', paramName: 'sid', scopes: [] };
+
+  it('collects the header and query parameter names of apiKey schemes', () => {
+    const op: NormalizedOperation = { ...securedOp, security: [[subscriptionKey], [queryKey, cookieKey], [bearer]] };
+    expect(apiKeyParamNames([op, op])).toEqual(['Ocp-Apim-Subscription-Key', 'code']);
+  });
+
+  it('redacts the given names in headers, query parameters and the URL', () => {
+    const names = ['Ocp-Apim-Subscription-Key', 'code'];
+    expect(redactHeaders({ 'ocp-apim-subscription-key': 'k', Accept: 'application/json' }, names)).toEqual({
+      'ocp-apim-subscription-key': '[REDACTED]',
+      Accept: 'application/json',
+    });
+    expect(redactQueryParams({ code: 'c', page: '2' }, names)).toEqual({ code: '[REDACTED]', page: '2' });
+    expect(redactHit({
+      method: 'GET',
+      url: 'http://localhost/api/pets?code=c&page=2',
+      statusCode: 200,
+      queryParams: { code: 'c', page: '2' },
+      headers: { 'Ocp-Apim-Subscription-Key': 'k' },
+      testFile: '',
+      testTitle: '',
+    }, names)).toMatchObject({
+      url: 'http://localhost/api/pets?code=%5BREDACTED%5D&page=2',
+      queryParams: { code: '[REDACTED]', page: '2' },
+      headers: { 'Ocp-Apim-Subscription-Key': '[REDACTED]' },
+    });
+  });
+});
+
+describe('redactUrl', () => {
+  it('redacts credential-looking parameters in the query string', () => {
+    expect(redactUrl('http://localhost/api/users?api_key=k&page=2')).toBe(
+      'http://localhost/api/users?api_key=%5BREDACTED%5D&page=2'
+    );
+  });
+
+  it('returns URLs without credentials, or that do not parse, unchanged', () => {
+    expect(redactUrl('http://localhost/api/users?page=2&sort=name%20asc')).toBe(
+      'http://localhost/api/users?page=2&sort=name%20asc'
+    );
+    expect(redactUrl('/api/users?token=t')).toBe('/api/users?token=t');
+  });
+});
+
+describe('extractTokenScopes', () => {
+  it('reads the space-separated scope claim', () => {
+    expect(extractTokenScopes(jwt({ scope: 'a b' }))).toEqual(['a', 'b']);
+  });
+
+  it('reads an scp array claim', () => {
+    expect(extractTokenScopes(jwt({ scp: ['a', 'b'] }))).toEqual(['a', 'b']);
+  });
+
+  it('returns undefined for opaque tokens and other schemes', () => {
+    expect(extractTokenScopes('Bearer opaque-token')).toBeUndefined();
+    expect(extractTokenScopes('Basic dXNlcjpwYXNz')).toBeUndefined();
+    expect(extractTokenScopes(undefined)).toBeUndefined();
+  });
+});
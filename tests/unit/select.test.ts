@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { selectTests, specDiffSelectors, grepPattern } from '../../src/coverage/select.js';
+import type { CoverageResult, OperationCoverage } from '../../src/types.js';
+
+const A = 'users.spec.ts > lists users';
+const B = 'admin/users.spec.ts > deletes a user';
+const C = 'users.spec.ts > gets a (missing) user';
+
+function makeOp(overrides: Partial<OperationCoverage> = {}): OperationCoverage {
+  return {
+    path: '/users',
+    method: 'get',
+    covered: true,
+    statusCodes: {},
+    parameters: [],
+    bodyProperties: [],
+    responseProperties: [],
+    testRefs: [],
+    ...overrides,
+  };
+}
+
+function makeResult(operations: OperationCoverage[], tests?: CoverageResult['tests']): CoverageResult {
+  const item = { total: 1, covered: 1, percentage: 100 };
+  return {
+    specFiles: ['openapi.yaml'],
+    timestamp: '2026-01-01T00:00:00.000Z',
+    playwrightVersion: '1.0.0',
+    playswagVersion: '1.0.0',
+    totalTestCount: 3,
+    summary: { endpoints: item, statusCodes: item, parameters: item, bodyProperties: item, responseProperties: item },
+    tagCoverage: {},
+    operations,
+    uncoveredOperations: operations.filter((op) => !op.covered),
+    unmatchedHits: [],
+    acknowledgedHits: [],
+    ...(tests && { tests }),
+  };
+}
+
+const result = makeResult([
+  makeOp({ operationId: 'listUsers', testRefs: [A] }),
+  makeOp({ path: '/users/{id}', operationId: 'getUser', testRefs: [C] }),
+  makeOp({ path: '/users/{id}', method: 'delete', covered: false, failingTestRefs: [B] }),
+]);
+
+describe('selectTests', () => {
+  it('selects by operationId, METHOD /path and path', () => {
+    expect(selectTests(result, ['listUsers']).tests.map((t) => t.id)).toEqual([A]);
+    expect(selectTests(result, ['GET /users/{id}']).tests.map((t) => t.id)).toEqual([C]);
+    expect(selectTests(result, ['/users/{id}'])).toMatchObject({
+      operations: ['GET /users/{id}', 'DELETE /users/{id}'],
+      files: ['admin/users.spec.ts', 'users.spec.ts'],
+    });
+  });
+
+  it('ignores path parameter names and reports selectors matching nothing', () => {
+    const selection = selectTests(result, ['get /users/{userId}', 'createUser']);
+    expect(selection.operations).toEqual(['GET /users/{id}']);
+    expect(selection.unmatched).toEqual(['createUser']);
+  });
+
+  it('uses the test details of result.tests', () => {
+    const tests = [{ id: A, file: 'users.spec.ts', line: 4, titlePath: ['users', 'lists users'], projects: ['api'] }];
+    const selection = selectTests(makeResult(result.operations, tests), ['listUsers']);
+    expect(selection.tests).toEqual(tests);
+  });
+});
+
+describe('specDiffSelectors', () => {
+  it('lists every operation touched by a change once', () => {
+    const changes = [
+      { kind: 'removed' as const, element: 'operation' as const, method: 'delete', path: '/users/{id}', breaking: true },
+      { kind: 'added' as const, element: 'statusCode' as const, method: 'get', path: '/users', name: '404', breaking: false },
+      { kind: 'added' as const, element: 'parameter' as const, method: 'get', path: '/users', name: 'query:q', breaking: false },
+    ];
+    expect(specDiffSelectors({ oldSources: [], newSources: [], changes })).toEqual(['DELETE /users/{id}', 'GET /users']);
+  });
+});
+
+describe('grepPattern', () => {
+  it('joins the escaped title paths of the tests', () => {
+    const { tests } = selectTests(result, ['/users', '/users/{id}']);
+    const pattern = grepPattern(tests);
+    expect(pattern).toBe('deletes a user|gets a \\(missing\\) user|lists users');
+    expect(new RegExp(pattern).test('chromium users.spec.ts gets a (missing) user')).toBe(true);
+  });
+
+  it('is empty when no test is selected', () => {
+    expect(grepPattern([])).toBe('');
+  });
+});
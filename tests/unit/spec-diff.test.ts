@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { diffSpecs } from '../../src/coverage/spec-diff.js';
+import { generateSpecDiffMarkdown } from '../../src/output/spec-diff.js';
+import type { CoverageResult, NormalizedOperation, NormalizedSpec, OperationCoverage } from '../../src/types.js';
+
+const getUser: NormalizedOperation = {
+  pathTemplate: '/users/{id}',
+  method: 'GET',
+  parameters: [
+    { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+    { name: 'expand', in: 'query', required: false, schema: { type: 'string' } },
+  ],
+  responses: {
+    '200': {
+      schema: {
+        type: 'object',
+        required: ['id', 'email'],
+        properties: { id: { type: 'integer' }, email: { type: 'string' }, nickname: { type: 'string' } },
+      },
+    },
+    '404': {},
+  },
+};
+
+const createUser: NormalizedOperation = {
+  pathTemplate: '/users',
+  method: 'POST',
+  parameters: [],
+  requestBodySchema: {
+    type: 'object',
+    required: ['email'],
+    properties: { email: { type: 'string' }, name: { type: 'string' } },
+  },
+  responses: { '201': {} },
+};
+
+function spec(sources: string, ...operations: NormalizedOperation[]): NormalizedSpec {
+  return { sources: [sources], operations };
+}
+
+function opCoverage(overrides: Partial<OperationCoverage>): OperationCoverage {
+  return {
+    path: '/', method: 'GET', covered: false, statusCodes: {}, parameters: [],
+    bodyProperties: [], responseProperties: [], testRefs: [], ...overrides,
+  };
+}
+
+describe('diffSpecs', () => {
+  it('reports no changes for identical specs', () => {
+    expect(diffSpecs(spec('a', getUser, createUser), spec('b', getUser, createUser)).changes).toEqual([]);
+  });
+
+  it('classifies added and removed operations', () => {
+    const { changes } = diffSpecs(spec('old', getUser), spec('new', createUser));
+    expect(changes).toEqual([
+      { kind: 'added', element: 'operation', method: 'POST', path: '/users', breaking: false },
+      { kind: 'removed', element: 'operation', method: 'GET', path: '/users/{id}', breaking: true },
+    ]);
+  });
+
+  it('ignores renamed path parameters when matching operations', () => {
+    const renamed: NormalizedOperation = {
+      ...getUser,
+      pathTemplate: '/users/{userId}',
+      parameters: [{ ...getUser.parameters[0]!, name: 'userId' }, getUser.parameters[1]!],
+    };
+    const { changes } = diffSpecs(spec('old', getUser), spec('new', renamed));
+    expect(changes.map((c) => `${c.kind} ${c.element} ${c.name}`)).toEqual([
+      'added parameter path:userId',
+      'removed parameter path:id',
+    ]);
+  });
+
+  it('flags new required parameters and tightened parameters as breaking', () => {
+    const changed: NormalizedOperation = {
+      ...getUser,
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+        { name: 'expand', in: 'query', required: true, schema: { type: 'string' } },
+        { name: 'X-Tenant', in: 'header', required: true },
+      ],
+    };
+    const { changes } = diffSpecs(spec('old', getUser), spec('new', changed));
+    expect(changes).toEqual([
+      { kind: 'changed', element: 'parameter', method: 'GET', path: '/users/{id}', name: 'path:id', detail: 'type changed from string to integer', breaking: true },
+      { kind: 'changed', element: 'parameter', method: 'GET', path: '/users/{id}', name: 'query:expand', detail: 'became required', breaking: true },
+      { kind: 'added', element: 'parameter', method: 'GET', path: '/users/{id}', name: 'header:X-Tenant', detail: 'required', breaking: true },
+    ]);
+  });
+
+  it('treats request and response property changes in opposite directions', () => {
+    const newCreate: NormalizedOperation = {
+      ...createUser,
+      requestBodySchema: {
+        type: 'object',
+        required: ['email', 'name'],
+        properties: { email: { type: 'string' }, name: { type: 'string' }, role: { type: 'string' } },
+      },
+    };
+    const newGet: NormalizedOperation = {
+      ...getUser,
+      responses: {
+        '200': { schema: { type: 'object', required: ['id'], properties: { id: { type: 'integer' }, email: { type: 'string' } } } },
+        '404': {},
+      },
+    };
+    const { changes } = diffSpecs(spec('old', getUser, createUser), spec('new', newGet, newCreate));
+    expect(changes.map((c) => [c.element, c.kind, c.name, c.detail, c.breaking])).toEqual([
+      ['responseProperty', 'changed', 'email', 'became optional', true],
+      ['responseProperty', 'removed', 'nickname', undefined, true],
+      ['requestProperty', 'changed', 'name', 'became required', true],
+      ['requestProperty', 'added', 'role', undefined, false],
+    ]);
+  });
+
+  it('reports property changes inside array elements with [] paths', () => {
+    const list = (idType: 'integer' | 'string'): NormalizedOperation => ({
+      pathTemplate: '/users',
+      method: 'GET',
+      parameters: [],
+      responses: {
+        '200': {
+          schema: {
+            type: 'object',
+            properties: { data: { type: 'array', items: { type: 'object', properties: { id: { type: idType } } } } },
+          },
+        },
+      },
+    });
+    const { changes } = diffSpecs(spec('old', list('integer')), spec('new', list('string')));
+    expect(changes.map((c) => [c.element, c.kind, c.name, c.detail])).toEqual([
+      ['responseProperty', 'changed', 'data[].id', 'type changed from integer to string'],
+    ]);
+  });
+
+  it('reports added and removed status codes and newly deprecated operations', () => {
+    const changed: NormalizedOperation = { ...getUser, deprecated: true, responses: { '200': getUser.responses['200']!, '410': {} } };
+    const { changes } = diffSpecs(spec('old', getUser), spec('new', changed));
+    expect(changes.map((c) => `${c.kind} ${c.element} ${c.name ?? c.detail}`)).toEqual([
+      'changed operation deprecated',
+      'added statusCode 410',
+      'removed statusCode 404',
+    ]);
+  });
+
+  it('flags added surface by whether the coverage result exercised it', () => {
+    const newGet: NormalizedOperation = {
+      ...getUser,
+      parameters: [...getUser.parameters, { name: 'fields', in: 'query', required: false }],
+      responses: { ...getUser.responses, '410': {} },
+    };
+    const coverage = {
+      operations: [opCoverage({
+        path: '/users/{id}',
+        covered: true,
+        statusCodes: { '410': { covered: true, testRefs: ['t'] } },
+        parameters: [{ name: 'fields', in: 'query', required: false, covered: false }],
+      })],
+      uncoveredOperations: [],
+    } as unknown as CoverageResult;
+
+    const { changes } = diffSpecs(spec('old', getUser), spec('new', newGet, createUser), coverage);
+    expect(changes.map((c) => [c.element, c.name, c.covered])).toEqual([
+      ['parameter', 'query:fields', false],
+      ['statusCode', '410', true],
+      ['operation', undefined, false],
+    ]);
+  });
+});
+
+describe('generateSpecDiffMarkdown', () => {
+  it('states that nothing changed', () => {
+    const md = generateSpecDiffMarkdown(diffSpecs(spec('a.yaml', getUser), spec('b.yaml', getUser)));
+    expect(md).toContain('`a.yaml` → `b.yaml`');
+    expect(md).toContain('No changes');
+  });
+
+  it('lists breaking changes, untested additions and every change', () => {
+    const coverage = { operations: [], uncoveredOperations: [] } as unknown as CoverageResult;
+    const md = generateSpecDiffMarkdown(diffSpecs(spec('old', getUser), spec('new', createUser), coverage));
+    expect(md).toContain('| 1 | 1 | 0 | 1 | 1 |');
+    expect(md).toContain('### ⚠️ Breaking changes');
+    expect(md).toContain('| `GET /users/{id}` | Operation removed |');
+    expect(md).toContain('### ❌ New surface without tests');
+    expect(md).toContain('| `POST /users` | Operation added |');
+    expect(md).toContain('<details><summary>All changes (2)</summary>');
+    expect(md).toContain('| ➕ | `POST /users` | Operation added |  | ❌ |');
+  });
+
+  it('omits the tested column without a coverage result', () => {
+    const md = generateSpecDiffMarkdown(diffSpecs(spec('old', getUser), spec('new', createUser)));
+    expect(md).not.toContain('Untested');
+    expect(md).not.toContain('New surface without tests');
+  });
+});
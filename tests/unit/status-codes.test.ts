@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkUndocumentedServerErrors,
+  documentedStatusKey,
+  findUndocumentedStatusCodes,
+} from '../../src/coverage/status-codes.js';
+import type { CoverageResult, OperationCoverage } from '../../src/types.js';
+
+function makeOp(overrides: Partial<OperationCoverage> = {}): OperationCoverage {
+  return {
+    path: '/api/users',
+    method: 'get',
+    covered: true,
+    statusCodes: {},
+    parameters: [],
+    bodyProperties: [],
+    responseProperties: [],
+    testRefs: [],
+    ...overrides,
+  };
+}
+
+function makeResult(operations: OperationCoverage[], deprecatedOperations?: OperationCoverage[]): CoverageResult {
+  const item = { total: 0, covered: 0, percentage: 100 };
+  return {
+    specFiles: [],
+    timestamp: '2025-03-04T10:00:00.000Z',
+    playwrightVersion: '1.40.0',
+    playswagVersion: '1.0.0',
+    totalTestCount: 0,
+    summary: { endpoints: item, statusCodes: item, parameters: item, bodyProperties: item, responseProperties: item },
+    operations,
+    uncoveredOperations: [],
+    unmatchedHits: [],
+    tagCoverage: {},
+    ...(deprecatedOperations && { deprecatedOperations }),
+  };
+}
+
+describe('documentedStatusKey', () => {
+  it('prefers the exact code, then its range, then default', () => {
+    expect(documentedStatusKey(['default', '4XX', '404'], 404)).toBe('404');
+    expect(documentedStatusKey(['default', '4XX', '404'], '400')).toBe('4XX');
+    expect(documentedStatusKey(['default', '4XX', '404'], 500)).toBe('default');
+  });
+
+  it('matches range keys case-insensitively', () => {
+    expect(documentedStatusKey(['5xx'], 503)).toBe('5xx');
+  });
+
+  it('returns undefined when no response documents the code', () => {
+    expect(documentedStatusKey(['200', '4XX'], 500)).toBeUndefined();
+  });
+});
+
+describe('findUndocumentedStatusCodes', () => {
+  it('lists the undocumented codes of active and deprecated operations', () => {
+    const result = makeResult(
+      [makeOp({ undocumentedStatusCodes: [{ statusCode: '500', testRefs: ['a.spec.ts > lists'] }] }), makeOp({ path: '/api/other' })],
+      [makeOp({ path: '/v1/users', undocumentedStatusCodes: [{ statusCode: '418', testRefs: ['b.spec.ts > brews'] }] })]
+    );
+    expect(findUndocumentedStatusCodes(result)).toEqual([
+      { method: 'GET', path: '/api/users', statusCode: '500', testRefs: ['a.spec.ts > lists'] },
+      { method: 'GET', path: '/v1/users', statusCode: '418', testRefs: ['b.spec.ts > brews'] },
+    ]);
+  });
+});
+
+describe('checkUndocumentedServerErrors', () => {
+  it('reports one failing violation listing the undocumented 5xx responses', () => {
+    const result = makeResult([
+      makeOp({
+        undocumentedStatusCodes: [
+          { statusCode: '418', testRefs: ['a.spec.ts > brews'] },
+          { statusCode: '502', testRefs: ['a.spec.ts > lists'] },
+        ],
+      }),
+    ]);
+    expect(checkUndocumentedServerErrors(result)).toEqual([
+      { message: '1 undocumented 5xx response(s): GET /api/users 502', fail: true },
+    ]);
+  });
+
+  it('reports nothing when no undocumented 5xx was received', () => {
+    const result = makeResult([makeOp({ undocumentedStatusCodes: [{ statusCode: '418', testRefs: [] }] })]);
+    expect(checkUndocumentedServerErrors(result)).toEqual([]);
+  });
+});
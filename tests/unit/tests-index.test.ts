@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { buildTestIndex, collectTestReferences, splitFailedTestHits } from '../../src/coverage/tests.js';
+import { writeTestIndex, type TestIndexReport } from '../../src/output/tests.js';
+import type { CoverageResult, EndpointHit, HitTestCase, OperationCoverage } from '../../src/types.js';
+
+function makeHit(testTitle: string, testCase?: Partial<HitTestCase>, projectName?: string): EndpointHit {
+  return {
+    method: 'GET',
+    url: 'http://localhost/api/users',
+    statusCode: 200,
+    testFile: 'users.spec.ts',
+    testTitle,
+    projectName,
+    ...(testCase && {
+      testCase: { line: 1, titlePath: [testTitle], outcome: 'expected', status: 'passed', retry: 0, ...testCase },
+    }),
+  };
+}
+
+function makeOp(overrides: Partial<OperationCoverage> = {}): OperationCoverage {
+  return {
+    path: '/users',
+    method: 'get',
+    covered: true,
+    statusCodes: {},
+    parameters: [],
+    bodyProperties: [],
+    responseProperties: [],
+    testRefs: [],
+    ...overrides,
+  };
+}
+
+function makeResult(operations: OperationCoverage[], tests?: CoverageResult['tests']): CoverageResult {
+  const item = { total: 1, covered: 1, percentage: 100 };
+  return {
+    specFiles: ['openapi.yaml'],
+    timestamp: '2026-01-01T00:00:00.000Z',
+    playwrightVersion: '1.0.0',
+    playswagVersion: '1.0.0',
+    totalTestCount: 2,
+    summary: { endpoints: item, statusCodes: item, parameters: item, bodyProperties: item, responseProperties: item },
+    tagCoverage: {},
+    operations,
+    uncoveredOperations: operations.filter((op) => !op.covered),
+    unmatchedHits: [],
+    acknowledgedHits: [],
+    ...(tests && { tests }),
+  };
+}
+
+const A = 'users.spec.ts > lists users';
+const B = 'users.spec.ts > gets a user';
+
+describe('collectTestReferences', () => {
+  it('returns undefined when no hit carries test details', () => {
+    expect(collectTestReferences([makeHit('lists users')])).toBeUndefined();
+  });
+
+  it('builds one reference per test with location, title path and projects', () => {
+    const refs = collectTestReferences([
+      makeHit('lists users', { line: 12, titlePath: ['users', 'lists users'] }, 'chromium'),
+      makeHit('lists users', { line: 12, titlePath: ['users', 'lists users'] }, 'firefox'),
+    ]);
+    expect(refs).toEqual([
+      { id: A, file: 'users.spec.ts', line: 12, titlePath: ['users', 'lists users'], projects: ['chromium', 'firefox'], outcome: 'expected' },
+    ]);
+  });
+
+  it('takes the outcome of the last retry', () => {
+    const refs = collectTestReferences([
+      makeHit('lists users', { retry: 1, outcome: 'flaky' }),
+      makeHit('lists users', { retry: 0, outcome: 'unexpected', status: 'failed' }),
+    ]);
+    expect(refs?.[0]?.outcome).toBe('flaky');
+  });
+
+  it('reports the worst outcome across projects', () => {
+    const refs = collectTestReferences([
+      makeHit('lists users', { outcome: 'expected' }, 'chromium'),
+      makeHit('lists users', { outcome: 'unexpected' }, 'firefox'),
+    ]);
+    expect(refs?.[0]?.outcome).toBe('unexpected');
+  });
+});
+
+describe('splitFailedTestHits', () => {
+  it('keeps only the last attempt of a retried test', () => {
+    const failed = makeHit('lists users', { retry: 0, outcome: 'unexpected', status: 'failed' });
+    const passed = makeHit('lists users', { retry: 1, outcome: 'flaky' });
+    expect(splitFailedTestHits([failed, passed])).toEqual([[passed], []]);
+  });
+
+  it('sets apart hits of failing tests and drops hits of skipped tests', () => {
+    const passed = makeHit('lists users', {});
+    const failed = makeHit('gets a user', { outcome: 'unexpected', status: 'timedOut' });
+    const skipped = makeHit('deletes a user', { outcome: 'skipped', status: 'skipped' });
+    expect(splitFailedTestHits([passed, failed, skipped])).toEqual([[passed], [failed]]);
+  });
+
+  it('tracks retries per project and counts hits without test details', () => {
+    const chromium = makeHit('lists users', { retry: 1 }, 'chromium');
+    const firefox = makeHit('lists users', { retry: 0 }, 'firefox');
+    const har = makeHit('from a HAR file');
+    expect(splitFailedTestHits([chromium, firefox, har])).toEqual([[chromium, firefox, har], []]);
+  });
+
+  it('counts a failing last attempt with countFailedTests, still dropping retried and skipped ones', () => {
+    const retried = makeHit('lists users', { retry: 0, outcome: 'unexpected', status: 'failed' });
+    const failed = makeHit('lists users', { retry: 1, outcome: 'unexpected', status: 'failed' });
+    const skipped = makeHit('deletes a user', { outcome: 'skipped', status: 'skipped' });
+    expect(splitFailedTestHits([retried, failed, skipped], true)).toEqual([[failed], []]);
+  });
+});
+
+describe('buildTestIndex', () => {
+  const operations = [
+    makeOp({
+      testRefs: [A, B],
+      statusCodes: { '200': { covered: true, testRefs: [A, B] }, '404': { covered: true, testRefs: [B] } },
+    }),
+    makeOp({ method: 'post', testRefs: [B], statusCodes: { '201': { covered: true, testRefs: [B] } } }),
+  ];
+
+  it('lists the operations and status codes each test covers, and which only it covers', () => {
+    const [b, a] = buildTestIndex(makeResult(operations));
+    expect(a).toMatchObject({
+      id: A,
+      file: 'users.spec.ts',
+      titlePath: ['lists users'],
+      operations: ['GET /users'],
+      statusCodes: ['GET /users 200'],
+      uniqueOperations: [],
+      uniqueStatusCodes: [],
+    });
+    expect(b).toMatchObject({
+      id: B,
+      operations: ['GET /users', 'POST /users'],
+      uniqueOperations: ['POST /users'],
+      uniqueStatusCodes: ['GET /users 404', 'POST /users 201'],
+    });
+  });
+
+  it('uses the test details of result.tests', () => {
+    const tests = [{ id: A, file: 'users.spec.ts', line: 7, titlePath: ['users', 'lists users'], projects: ['api'], outcome: 'expected' as const }];
+    const a = buildTestIndex(makeResult(operations, tests)).find((e) => e.id === A);
+    expect(a).toMatchObject({ line: 7, titlePath: ['users', 'lists users'], projects: ['api'], operations: ['GET /users'] });
+  });
+});
+
+describe('writeTestIndex', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'playswag-tests-index-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes playswag-tests.json', async () => {
+    const path = await writeTestIndex(makeResult([makeOp({ testRefs: [A] })]), tmpDir);
+    expect(path).toBe(join(tmpDir, 'playswag-tests.json'));
+    const report = JSON.parse(await readFile(path, 'utf8')) as TestIndexReport;
+    expect(report.specFiles).toEqual(['openapi.yaml']);
+    expect(report.tests.map((t) => t.id)).toEqual([A]);
+  });
+
+  it('respects a custom fileName', async () => {
+    const path = await writeTestIndex(makeResult([]), tmpDir, { fileName: 'index/tests.json' });
+    expect(path).toBe(join(tmpDir, 'index/tests.json'));
+  });
+});